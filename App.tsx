@@ -1,13 +1,33 @@
 import React from 'react';
 import Layout from './components/Layout';
 import LiveSession from './components/LiveSession';
+import NeuralChat from './components/NeuralChat';
+import TextToSpeech from './components/TextToSpeech';
+import VideoAnalysis from './components/VideoAnalysis';
+import { useModuleRoute } from './hooks/useModuleRoute';
+import { EngineProvider } from './hooks/useEngine';
+import { ModuleID } from './utils/routes';
 
 const App: React.FC = () => {
+  const [activeModule, navigate] = useModuleRoute();
+
+  // All modules stay mounted so their state survives switching; inactive ones are only hidden.
+  const panel = (id: ModuleID, node: React.ReactNode) => (
+    <div key={id} className={id === activeModule ? 'flex-1 flex flex-col min-h-0' : 'hidden'}>
+      {node}
+    </div>
+  );
+
   return (
-    <Layout>
-      <LiveSession />
-    </Layout>
+    <EngineProvider>
+      <Layout activeModule={activeModule} onNavigate={navigate}>
+        {panel('live', <LiveSession />)}
+        {panel('chat', <NeuralChat />)}
+        {panel('tts', <TextToSpeech />)}
+        {panel('video', <VideoAnalysis />)}
+      </Layout>
+    </EngineProvider>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
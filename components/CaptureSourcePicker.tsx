@@ -0,0 +1,66 @@
+import React from 'react';
+import { VisualSource, VISUAL_SOURCES, deviceLabel } from '../utils/capture-sources';
+
+interface CaptureSourcePickerProps {
+  micDeviceId: string;
+  visualSource: VisualSource;
+  cameraDeviceId: string;
+  mics: MediaDeviceInfo[];
+  cameras: MediaDeviceInfo[];
+  onMicChange: (deviceId: string) => void;
+  onVisualChange: (source: VisualSource, cameraDeviceId: string) => void;
+  // Shown under the visual source, e.g. "Share" or "Switch".
+  applyLabel?: string;
+  onApply?: () => void;
+}
+
+const selectClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg px-2 py-1.5 text-[10px] text-slate-200 focus:outline-none focus:border-cyan-500/50';
+
+const CaptureSourcePicker: React.FC<CaptureSourcePickerProps> = ({
+  micDeviceId, visualSource, cameraDeviceId, mics, cameras, onMicChange, onVisualChange, applyLabel, onApply,
+}) => (
+  <div className="w-64 p-4 space-y-3 bg-slate-900/95 border border-slate-700 rounded-2xl shadow-2xl backdrop-blur text-left">
+    <label className="block space-y-1">
+      <span className="text-[8px] font-black uppercase tracking-widest text-slate-500">Microphone</span>
+      <select value={micDeviceId} onChange={e => onMicChange(e.target.value)} className={selectClass}>
+        <option value="">System default</option>
+        {mics.filter(d => d.deviceId && d.deviceId !== 'default').map((d, i) => (
+          <option key={d.deviceId} value={d.deviceId}>{deviceLabel(d, i)}</option>
+        ))}
+      </select>
+    </label>
+
+    <div className="space-y-1">
+      <span className="text-[8px] font-black uppercase tracking-widest text-slate-500">Visual source</span>
+      <div className="grid grid-cols-5 gap-1">
+        {VISUAL_SOURCES.map(s => (
+          <button
+            key={s.id}
+            onClick={() => onVisualChange(s.id, cameraDeviceId)}
+            className={`py-1 rounded-lg border text-[8px] font-black uppercase transition-all ${visualSource === s.id ? 'border-cyan-500 text-cyan-400 bg-cyan-950/60' : 'border-slate-800 text-slate-500 hover:text-white'}`}
+          >
+            {s.label}
+          </button>
+        ))}
+      </div>
+    </div>
+
+    {visualSource === 'camera' && (
+      <label className="block space-y-1">
+        <span className="text-[8px] font-black uppercase tracking-widest text-slate-500">Camera</span>
+        <select value={cameraDeviceId} onChange={e => onVisualChange('camera', e.target.value)} className={selectClass}>
+          <option value="">System default</option>
+          {cameras.filter(d => d.deviceId).map((d, i) => (
+            <option key={d.deviceId} value={d.deviceId}>{deviceLabel(d, i)}</option>
+          ))}
+        </select>
+      </label>
+    )}
+
+    {onApply && applyLabel && (
+      <button onClick={onApply} className="w-full py-1.5 bg-cyan-600 border border-cyan-500 text-white rounded-lg text-[9px] font-black uppercase hover:bg-cyan-500 transition-all">{applyLabel}</button>
+    )}
+  </div>
+);
+
+export default CaptureSourcePicker;
@@ -0,0 +1,72 @@
+import React, { useState, useMemo } from 'react';
+import { highlight, TokenType } from '../utils/highlight';
+
+const TOKEN_STYLES: Record<TokenType, string> = {
+  plain: '',
+  keyword: 'text-fuchsia-400',
+  string: 'text-emerald-400',
+  comment: 'text-slate-500 italic',
+  number: 'text-amber-400',
+  function: 'text-sky-300',
+  type: 'text-cyan-300',
+  property: 'text-sky-300',
+  variable: 'text-orange-300',
+  operator: 'text-slate-400',
+  tag: 'text-rose-400',
+  attribute: 'text-amber-300',
+  meta: 'text-violet-300',
+};
+
+// --- Code Block Component ---
+interface CodeBlockProps {
+  language: string;
+  code: string;
+  // Still streaming in; copy is disabled until the fence closes.
+  streaming?: boolean;
+}
+
+export const CodeBlock: React.FC<CodeBlockProps> = ({ language, code, streaming }) => {
+  const [copied, setCopied] = useState(false);
+  const tokens = useMemo(() => highlight(code, language), [code, language]);
+  const handleCopy = (e: React.MouseEvent<HTMLButtonElement>) => {
+    // Use the clipboard of the window the block is in; a picture-in-picture window has focus, not the page.
+    const view = e.currentTarget.ownerDocument.defaultView ?? window;
+    view.navigator.clipboard.writeText(code);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  return (
+    <div className="my-2 rounded-lg overflow-hidden border border-slate-700 bg-slate-950/80 w-full">
+      <div className="flex items-center justify-between px-3 py-1.5 bg-slate-900/80 border-b border-slate-700">
+        <span className="text-[9px] font-mono text-slate-400 lowercase">{language || 'code'}</span>
+        <button 
+          onClick={handleCopy}
+          disabled={streaming}
+          className="flex items-center gap-1.5 text-[9px] font-bold uppercase tracking-wider text-cyan-500 hover:text-cyan-400 transition-colors"
+        >
+          {streaming ? (
+            <span className="text-slate-500 animate-pulse">Streaming</span>
+          ) : copied ? (
+            <>
+              <span className="text-green-500">Copied</span>
+              <svg className="w-3 h-3 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
+            </>
+          ) : (
+            <>
+              <span>Copy</span>
+              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
+            </>
+          )}
+        </button>
+      </div>
+      <pre className="p-3 overflow-x-auto">
+        <code className="font-mono text-[10px] leading-relaxed text-slate-300 block min-w-max">
+          {tokens.map((t, i) => t.type === 'plain' ? t.text : <span key={i} className={TOKEN_STYLES[t.type]}>{t.text}</span>)}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
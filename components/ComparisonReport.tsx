@@ -0,0 +1,111 @@
+import React, { useState, useMemo, useRef } from 'react';
+import { VideoTimeline } from '../types';
+import { useActiveModel } from '../hooks/useEngine';
+import { AppError, classifyError } from '../utils/errors';
+import { buildComparisonPrompt, compareTimelines } from '../utils/video-queue';
+import { formatTimestamp } from '../utils/video-timeline';
+import { downloadBlob } from '../utils/file-utils';
+import ErrorNotice from './ErrorNotice';
+import Markdown from './Markdown';
+
+interface ComparisonReportProps {
+  entries: { name: string; timeline: VideoTimeline }[];
+}
+
+const ComparisonReport: React.FC<ComparisonReportProps> = ({ entries }) => {
+  const { model, provider } = useActiveModel('video');
+  const [report, setReport] = useState('');
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+  // The recordings the report was written for; a changed set marks it stale.
+  const [reportedNames, setReportedNames] = useState<string[]>([]);
+  const runRef = useRef(0);
+
+  const overview = useMemo(() => compareTimelines(entries), [entries]);
+  const names = entries.map(e => e.name);
+  const isStale = report !== '' && names.join('\n') !== reportedNames.join('\n');
+
+  const generate = async () => {
+    const run = ++runRef.current;
+    setIsGenerating(true);
+    setError(null);
+    setReport('');
+    setReportedNames(names);
+    try {
+      const text = await provider.generateText(model, {
+        messages: [{ role: 'user', text: buildComparisonPrompt(entries) }],
+        onChunk: chunk => { if (runRef.current === run) setReport(r => r + chunk); },
+      });
+      if (runRef.current === run) setReport(text);
+    } catch (err) {
+      if (runRef.current !== run) return;
+      console.error('Comparison report error:', err);
+      setError(classifyError(err));
+    } finally {
+      if (runRef.current === run) setIsGenerating(false);
+    }
+  };
+
+  const exportReport = () => {
+    const table = overview.map(o => `| ${o.name} | ${formatTimestamp(o.duration)} | ${o.segments} | ${o.flagged} | ${o.distinctive.join(', ') || '—'} |`);
+    const markdown = [
+      '# Recording comparison',
+      '',
+      '| Recording | Length | Segments | Flagged | Only in this recording |',
+      '| --- | --- | --- | --- | --- |',
+      ...table,
+      '',
+      report,
+    ].join('\n');
+    downloadBlob(new Blob([markdown], { type: 'text/markdown' }), 'ana-comparison.md');
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 space-y-4 shadow-2xl">
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="text-white text-lg font-bold">Comparison ({entries.length} recordings)</h4>
+        <div className="flex gap-2">
+          <button onClick={exportReport} disabled={!report || isGenerating} className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-lg text-xs font-bold uppercase hover:text-white hover:border-slate-500 disabled:opacity-30 transition-all">Export</button>
+          <button onClick={generate} disabled={isGenerating} className="px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 text-white rounded-lg text-xs font-bold uppercase transition-all">
+            {isGenerating ? 'Comparing...' : report ? 'Regenerate report' : 'Generate report'}
+          </button>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="min-w-full text-left text-xs">
+          <thead className="text-slate-500 uppercase">
+            <tr>
+              <th className="px-2 py-1 font-bold">Recording</th>
+              <th className="px-2 py-1 font-bold">Length</th>
+              <th className="px-2 py-1 font-bold">Segments</th>
+              <th className="px-2 py-1 font-bold">Flagged</th>
+              <th className="px-2 py-1 font-bold">Only in this recording</th>
+            </tr>
+          </thead>
+          <tbody className="text-slate-300">
+            {overview.map((o, i) => (
+              <tr key={i} className="border-t border-slate-800 align-top">
+                <td className="px-2 py-1.5 font-semibold text-white">{o.name}</td>
+                <td className="px-2 py-1.5 font-mono">{formatTimestamp(o.duration)}</td>
+                <td className="px-2 py-1.5">{o.segments}</td>
+                <td className={`px-2 py-1.5 ${o.flagged ? 'text-red-400 font-bold' : ''}`}>{o.flagged}</td>
+                <td className="px-2 py-1.5 text-slate-400">{o.distinctive.join(', ') || '—'}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      {error && <ErrorNotice error={error} onRetry={generate} onDismiss={() => setError(null)} />}
+      {isStale && <p className="text-xs text-amber-400">The set of recordings changed since this report was written.</p>}
+      {report && (
+        <div className="text-sm text-slate-300 border-t border-slate-800 pt-4">
+          <Markdown text={report} streaming={isGenerating} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ComparisonReport;
@@ -0,0 +1,31 @@
+import React from 'react';
+import { AppError, ERROR_GUIDES } from '../utils/errors';
+
+interface ErrorNoticeProps {
+  error: AppError;
+  onRetry?: () => void;
+  onDismiss?: () => void;
+}
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onRetry, onDismiss }) => {
+  const guide = ERROR_GUIDES[error.kind];
+  return (
+    <div role="alert" className="p-3 bg-red-950/40 border border-red-500/50 rounded-xl text-red-400 text-[10px] space-y-1">
+      <div className="flex items-center justify-between gap-3">
+        <span className="font-black uppercase text-red-500">{guide.title}</span>
+        <div className="flex gap-2 shrink-0">
+          {onRetry && (
+            <button onClick={onRetry} className="px-3 py-1 border border-red-500 text-red-500 rounded-lg font-black uppercase hover:bg-red-500 hover:text-white transition-all">Retry</button>
+          )}
+          {onDismiss && (
+            <button onClick={onDismiss} className="px-2 py-1 text-slate-500 font-black uppercase hover:text-white transition-all">Dismiss</button>
+          )}
+        </div>
+      </div>
+      <p className="text-slate-300">{guide.remedy}</p>
+      {error.message && <p className="text-slate-500 break-words">{error.message}</p>}
+    </div>
+  );
+};
+
+export default ErrorNotice;
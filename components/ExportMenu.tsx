@@ -0,0 +1,51 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { EXPORT_FORMATS, ExportableSession, exportTranscript } from '../utils/transcript-export';
+
+interface ExportMenuProps {
+  session: ExportableSession | null;
+}
+
+const ExportMenu: React.FC<ExportMenuProps> = ({ session }) => {
+  const [open, setOpen] = useState(false);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const disabled = !session || session.transcript.length === 0;
+
+  // Close when clicking anywhere outside the menu
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  return (
+    <div ref={containerRef} className="relative">
+      <button
+        onClick={() => setOpen(o => !o)}
+        disabled={disabled}
+        className="flex items-center gap-1 text-[8px] font-black uppercase tracking-widest text-cyan-500 hover:text-cyan-400 disabled:text-slate-700 disabled:pointer-events-none transition-colors"
+      >
+        Export
+        <svg className="w-2.5 h-2.5" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={3} d="M19 9l-7 7-7-7" /></svg>
+      </button>
+      {open && session && (
+        <div className="absolute right-0 mt-2 w-32 bg-slate-900 border border-slate-700 rounded-xl overflow-hidden shadow-2xl z-30">
+          {EXPORT_FORMATS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => { exportTranscript(session, f.id); setOpen(false); }}
+              className="w-full flex items-center justify-between px-3 py-2 text-[9px] font-bold uppercase text-slate-300 hover:bg-cyan-950/40 hover:text-cyan-300 transition-colors"
+            >
+              <span>{f.label}</span>
+              <span className="text-slate-600 lowercase">.{f.id}</span>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExportMenu;
@@ -0,0 +1,42 @@
+import React from 'react';
+import { FrameSettings } from '../utils/frame-utils';
+
+interface FrameSettingsPanelProps {
+  settings: FrameSettings;
+  onChange: (settings: FrameSettings) => void;
+}
+
+interface SliderProps {
+  label: string;
+  value: number;
+  display: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+}
+
+const Slider: React.FC<SliderProps> = ({ label, value, display, min, max, step, onChange }) => (
+  <label className="block space-y-1">
+    <div className="flex justify-between text-[8px] font-black uppercase tracking-widest">
+      <span className="text-slate-500">{label}</span>
+      <span className="text-cyan-400">{display}</span>
+    </div>
+    <input type="range" min={min} max={max} step={step} value={value} onChange={e => onChange(Number(e.target.value))} className="w-full accent-cyan-500" />
+  </label>
+);
+
+const FrameSettingsPanel: React.FC<FrameSettingsPanelProps> = ({ settings, onChange }) => {
+  const set = <K extends keyof FrameSettings>(key: K) => (value: FrameSettings[K]) => onChange({ ...settings, [key]: value });
+  return (
+    <div className="w-56 p-4 space-y-3 bg-slate-900/95 border border-slate-700 rounded-2xl shadow-2xl backdrop-blur">
+      <Slider label="Sample rate" value={settings.fps} display={`${settings.fps} fps`} min={0.2} max={5} step={0.2} onChange={set('fps')} />
+      <Slider label="Resolution" value={settings.maxWidth} display={`${settings.maxWidth}px`} min={512} max={1920} step={128} onChange={set('maxWidth')} />
+      <Slider label="JPEG quality" value={settings.quality} display={settings.quality.toFixed(2)} min={0.3} max={0.95} step={0.05} onChange={set('quality')} />
+      <Slider label="Change threshold" value={settings.changeThreshold * 100} display={`${(settings.changeThreshold * 100).toFixed(1)}%`} min={0.1} max={5} step={0.1} onChange={v => set('changeThreshold')(v / 100)} />
+      <Slider label="Keep-alive" value={settings.keepAliveSeconds} display={`${settings.keepAliveSeconds}s`} min={2} max={60} step={1} onChange={set('keepAliveSeconds')} />
+    </div>
+  );
+};
+
+export default FrameSettingsPanel;
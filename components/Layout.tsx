@@ -1,10 +1,14 @@
 import React from 'react';
+import { ModuleID, MODULE_ROUTES, capabilityForModule } from '../utils/routes';
+import ModelPicker from './ModelPicker';
 
 interface LayoutProps {
   children: React.ReactNode;
+  activeModule: ModuleID;
+  onNavigate: (id: ModuleID) => void;
 }
 
-const Layout: React.FC<LayoutProps> = ({ children }) => {
+const Layout: React.FC<LayoutProps> = ({ children, activeModule, onNavigate }) => {
   return (
     <div className="flex h-screen w-full bg-slate-950 overflow-hidden text-slate-200 flex-col font-mono-code">
       {/* Header */}
@@ -19,22 +23,32 @@ const Layout: React.FC<LayoutProps> = ({ children }) => {
               <div className="h-[1px] w-full bg-cyan-500/30"></div>
             </div>
           </div>
+
+          <nav className="flex items-center gap-1 p-1 bg-slate-900/60 border border-slate-800 rounded-xl">
+            {MODULE_ROUTES.map(route => (
+              <a
+                key={route.id}
+                href={route.path}
+                onClick={(e) => {
+                  // Let modified clicks (new tab/window) fall through to the browser.
+                  if (e.metaKey || e.ctrlKey || e.shiftKey || e.button !== 0) return;
+                  e.preventDefault();
+                  onNavigate(route.id);
+                }}
+                aria-current={activeModule === route.id ? 'page' : undefined}
+                className={`px-3 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${
+                  activeModule === route.id
+                    ? 'bg-cyan-600 text-white shadow-lg shadow-cyan-900/40'
+                    : 'text-slate-500 hover:text-slate-200'
+                }`}
+              >
+                {route.label}
+              </a>
+            ))}
+          </nav>
         </div>
         
-        <div className="flex items-center gap-6">
-          <div className="flex items-center gap-4">
-             <div className="flex flex-col items-end">
-                <span className="text-[8px] text-slate-600 font-bold uppercase tracking-widest">Latency Mode</span>
-                <span className="text-[10px] font-black tracking-widest text-cyan-400">
-                  CLOUD (WEB-SYNC)
-                </span>
-             </div>
-          </div>
-          <div className="h-6 w-[1px] bg-slate-800"></div>
-          <div className="px-2 py-0.5 rounded text-[10px] font-black border transition-all border-cyan-500/20 text-cyan-500 bg-cyan-500/5">
-             GOOGLE
-          </div>
-        </div>
+        <ModelPicker capability={capabilityForModule(activeModule)} />
       </header>
 
       {/* Main Content */}
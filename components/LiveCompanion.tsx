@@ -0,0 +1,116 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { TranscriptionEntry } from '../types';
+import { formatMessage } from './Markdown';
+
+interface LiveCompanionProps {
+  statusLabel: string;
+  isActive: boolean;
+  liveInput: string;
+  liveOutput: string;
+  // The most recent turns, oldest first.
+  turns: TranscriptionEntry[];
+  // Polled on the companion's own window, since the page's animation frames stop while its tab is hidden.
+  readLevels: () => { input: number; output: number };
+  isMuted: boolean;
+  onToggleMute: () => void;
+  onStop: () => void;
+  // Only the in-page overlay has its own close button; the floating window has the browser's.
+  onClose?: () => void;
+}
+
+const Meter: React.FC<{ label: string; level: number; color: string }> = ({ label, level, color }) => (
+  <div className="flex-1 flex items-center gap-2">
+    <span className="text-[7px] font-black text-slate-600 uppercase">{label}</span>
+    <div className="flex-1 h-1 bg-slate-800 rounded-full overflow-hidden">
+      <div className={`h-full ${color} transition-all duration-100`} style={{ width: `${Math.min(100, level)}%` }} />
+    </div>
+  </div>
+);
+
+/** Compact mirror of a live session for the picture-in-picture window and its in-page fallback. */
+const LiveCompanion: React.FC<LiveCompanionProps> = ({
+  statusLabel, isActive, liveInput, liveOutput, turns, readLevels, isMuted, onToggleMute, onStop, onClose,
+}) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const [levels, setLevels] = useState({ input: 0, output: 0 });
+  const readLevelsRef = useRef(readLevels);
+  readLevelsRef.current = readLevels;
+
+  useEffect(() => {
+    if (!isActive) {
+      setLevels({ input: 0, output: 0 });
+      return;
+    }
+    const view = scrollRef.current?.ownerDocument.defaultView ?? window;
+    let frame = view.requestAnimationFrame(function tick() {
+      setLevels(readLevelsRef.current());
+      frame = view.requestAnimationFrame(tick);
+    });
+    return () => view.cancelAnimationFrame(frame);
+  }, [isActive]);
+
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [turns, liveInput, liveOutput]);
+
+  return (
+    <div className="h-full flex flex-col bg-slate-950 text-slate-200 font-mono-code">
+      <div className="flex items-center gap-2 px-3 py-2 border-b border-slate-800 bg-black/30 shrink-0">
+        <div className={`w-2 h-2 rounded-full ${isActive ? 'bg-cyan-500 animate-pulse' : 'bg-slate-700'}`} />
+        <span className="text-[9px] font-black uppercase text-slate-400 flex-1 truncate">ANA · {statusLabel}</span>
+        <button
+          onClick={onToggleMute}
+          disabled={!isActive}
+          className={`px-2 py-1 rounded-lg border text-[8px] font-black uppercase transition-all disabled:opacity-30 ${isMuted ? 'bg-red-500 border-red-500 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+        >
+          {isMuted ? 'Unmute' : 'Mute'}
+        </button>
+        <button
+          onClick={onStop}
+          disabled={!isActive}
+          className="px-2 py-1 rounded-lg border border-red-500 text-red-500 text-[8px] font-black uppercase hover:bg-red-500 hover:text-white disabled:opacity-30 transition-all"
+        >
+          Stop
+        </button>
+        {onClose && (
+          <button onClick={onClose} className="px-1 text-[10px] font-black text-slate-600 hover:text-white" title="Close">✕</button>
+        )}
+      </div>
+
+      <div className="flex gap-3 px-3 py-2 border-b border-slate-800 shrink-0">
+        <Meter label="You" level={isMuted ? 0 : levels.input} color="bg-blue-500" />
+        <Meter label="ANA" level={levels.output} color="bg-cyan-500" />
+      </div>
+
+      <div ref={scrollRef} className="flex-1 overflow-y-auto p-3 space-y-3">
+        {turns.length === 0 && !liveInput && !liveOutput && (
+          <p className="text-[9px] text-slate-600 uppercase text-center mt-6">Captions appear here</p>
+        )}
+        {turns.map((t, i) => (
+          <div key={`${t.timestamp}-${i}`} className="flex flex-col">
+            <span className={`text-[7px] font-black uppercase mb-0.5 ${t.role === 'user' ? 'text-blue-500' : 'text-cyan-500'}`}>
+              {t.role === 'user' ? 'You' : 'ANA'}{t.interrupted && <span className="text-amber-500"> · interrupted</span>}
+            </span>
+            <div className={`text-[10px] ${t.role === 'user' ? 'text-slate-300' : 'text-cyan-100'} ${t.interrupted ? 'opacity-60' : ''}`}>
+              {formatMessage(t.text)}
+            </div>
+          </div>
+        ))}
+        {liveInput && (
+          <div className="text-[10px] text-blue-400/80 italic">
+            <span className="block text-[7px] font-black uppercase not-italic text-blue-500">You</span>
+            {liveInput}…
+          </div>
+        )}
+        {liveOutput && (
+          <div className="text-[10px] text-cyan-100/80">
+            <span className="block text-[7px] font-black uppercase text-cyan-500 animate-pulse">ANA</span>
+            {formatMessage(liveOutput, true)}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LiveCompanion;
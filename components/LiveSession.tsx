@@ -1,338 +1,850 @@
 import React, { useState, useRef, useCallback, useEffect } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality } from '@google/genai';
+import { createPortal } from 'react-dom';
 import { encode, decode, decodeAudioData } from '../utils/audio-utils';
-import { TranscriptionEntry } from '../types';
-
-const TROUBLESHOOTING_INSTRUCTION = `You are ANA, a Senior Technical Solutions Architect.
-Your goal is to help the user troubleshoot AI setups, coding errors, and infrastructure bugs using the provided visual data.
-When a screen share is active:
-1. Scan the screen for Terminal windows, VS Code errors, or Tracebacks.
-2. If you see an error, describe exactly why it is happening and how to fix it.
-3. Keep responses extremely concise and technical.
-4. If you see code, format it nicely in markdown code blocks.
-5. If you don't see any issues, monitor for performance bottlenecks or bad configurations.`;
-
-// --- Code Block Component ---
-interface CodeBlockProps {
-  language: string;
-  code: string;
+import { startMicCapture, MicCapture } from '../utils/mic-capture';
+import { Region } from '../utils/frame-utils';
+import { useFrameStreamer } from '../hooks/useFrameStreamer';
+import { TranscriptionEntry, SessionRecord, LiveEvent, LiveSessionHandle, ToolCall, ToolResponse } from '../types';
+import { useActiveModel } from '../hooks/useEngine';
+import { createSessionId, saveSession, deleteSession, saveRecording, recordingId } from '../utils/session-store';
+import { isRecordingSupported, startSessionRecorder, SessionRecorder } from '../utils/session-recorder';
+import { formatMessage } from './Markdown';
+import SessionHistory from './SessionHistory';
+import ExportMenu from './ExportMenu';
+import ToolCallCard, { ToolCallLogEntry } from './ToolCallCard';
+import RegionSelector from './RegionSelector';
+import FrameSettingsPanel from './FrameSettingsPanel';
+import { createToolRegistry, denialResponse } from '../tools/registry';
+import { ToolContext } from '../tools/types';
+import { AppError, classifyError } from '../utils/errors';
+import { runPreflight } from '../utils/preflight';
+import ErrorNotice from './ErrorNotice';
+import LiveSettingsPanel from './LiveSettingsPanel';
+import { useLiveSettings } from '../hooks/useLiveSettings';
+import { useMediaDevices } from '../hooks/useMediaDevices';
+import { VisualSource, acquireMic, acquireVisual, captureFeatures } from '../utils/capture-sources';
+import { InputMode, SpeechGate, analyserLevel, createSpeechGate, keyLabel } from '../utils/voice-activity';
+import CaptureSourcePicker from './CaptureSourcePicker';
+import LiveCompanion from './LiveCompanion';
+import { isDocumentPipSupported, useDocumentPip } from '../hooks/useDocumentPip';
+
+const TOOLS = createToolRegistry();
+
+interface SessionConfig {
+  voice: string;
+  systemInstruction: string;
 }
 
-const CodeBlock: React.FC<CodeBlockProps> = ({ language, code }) => {
-  const [copied, setCopied] = useState(false);
-  const handleCopy = () => {
-    navigator.clipboard.writeText(code);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
+const MIC_SAMPLE_RATE = 16000;
+// 40 ms of audio per realtime message
+const MIC_CHUNK_SIZE = 640;
 
-  return (
-    <div className="my-2 rounded-lg overflow-hidden border border-slate-700 bg-slate-950/80 w-full">
-      <div className="flex items-center justify-between px-3 py-1.5 bg-slate-900/80 border-b border-slate-700">
-        <span className="text-[9px] font-mono text-slate-400 lowercase">{language || 'code'}</span>
-        <button 
-          onClick={handleCopy}
-          className="flex items-center gap-1.5 text-[9px] font-bold uppercase tracking-wider text-cyan-500 hover:text-cyan-400 transition-colors"
-        >
-          {copied ? (
-            <>
-              <span className="text-green-500">Copied</span>
-              <svg className="w-3 h-3 text-green-500" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M5 13l4 4L19 7" /></svg>
-            </>
-          ) : (
-            <>
-              <span>Copy</span>
-              <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" /></svg>
-            </>
-          )}
-        </button>
-      </div>
-      <pre className="p-3 overflow-x-auto">
-        <code className="font-mono text-[10px] leading-relaxed text-slate-300 block min-w-max">
-          {code}
-        </code>
-      </pre>
-    </div>
-  );
-};
+// Turns mirrored in the companion window besides the live captions.
+const COMPANION_TURNS = 4;
 
-// --- Message Formatter ---
-const formatMessage = (text: string) => {
-  if (!text) return null;
-  // Split by triple backticks: ```language\ncode```
-  // Capturing group 1 is language (optional), group 2 is code.
-  const parts = text.split(/(```[\w-]*\n[\s\S]*?```)/g);
-
-  return parts.map((part, index) => {
-    if (part.startsWith('```') && part.endsWith('```')) {
-      const match = part.match(/```([\w-]*)?\n([\s\S]*?)```/);
-      if (match) {
-        const lang = match[1] || '';
-        const code = match[2];
-        return <CodeBlock key={index} language={lang} code={code} />;
-      }
-    }
-    // Render regular text with line breaks
-    return (
-      <span key={index} className="whitespace-pre-wrap">
-        {part}
-      </span>
-    );
-  });
-};
+const MAX_RECONNECT_ATTEMPTS = 6;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 15000;
 
+// A failed connection is reported by its own callbacks, and a send racing a close is simply dropped,
+// so neither should surface as an unhandled rejection.
+const sendToSession = (session: Promise<LiveSessionHandle> | null, send: (s: LiveSessionHandle) => void) =>
+  session?.then(send).catch(err => console.warn('Live send dropped:', err));
 
-type SessionStatus = 'idle' | 'connecting' | 'active' | 'error';
+type SessionStatus = 'idle' | 'connecting' | 'active' | 'reconnecting' | 'error';
 
 const LiveSession: React.FC = () => {
+  const { model, provider } = useActiveModel('live');
+  const liveSettings = useLiveSettings();
+  const { frameSettings, micDeviceId, visualSource, cameraDeviceId, vadThreshold, pushToTalkKey, echoCancellation, noiseSuppression } = liveSettings.settings;
+  const micProcessing = { echoCancellation, noiseSuppression };
+  const { mics, cameras, refresh: refreshDevices } = useMediaDevices();
+  const voice = provider.voices.includes(liveSettings.settings.voice) ? liveSettings.settings.voice : provider.voices[0];
   const [status, setStatus] = useState<SessionStatus>('idle');
-  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
+  const [error, setError] = useState<AppError | null>(null);
   const [transcriptions, setTranscriptions] = useState<TranscriptionEntry[]>([]);
   const [liveInput, setLiveInput] = useState('');
   const [liveOutput, setLiveOutput] = useState('');
   
-  const [isScreenShared, setIsScreenShared] = useState(false);
+  const [visualStream, setVisualStream] = useState<MediaStream | null>(null);
+  const isScreenShared = visualStream !== null;
+  const [showSourcePicker, setShowSourcePicker] = useState(false);
   const [inputLevel, setInputLevel] = useState(0);
   const [outputLevel, setOutputLevel] = useState(0);
   const [isModelThinking, setIsModelThinking] = useState(false);
+  const [isModelSpeaking, setIsModelSpeaking] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [sessionStartedAt, setSessionStartedAt] = useState<number | null>(null);
+  // Voice and instruction are fixed when a session starts; settings edits apply to the next one.
+  const [sessionConfig, setSessionConfig] = useState<SessionConfig | null>(null);
+  const sessionConfigRef = useRef<SessionConfig | null>(null);
+  const [composerText, setComposerText] = useState('');
+  const [toolCalls, setToolCalls] = useState<ToolCallLogEntry[]>([]);
+  const [pinnedNotes, setPinnedNotes] = useState<string[]>([]);
+  const [region, setRegion] = useState<Region | null>(null);
+  const [isSelectingRegion, setIsSelectingRegion] = useState(false);
+  const [showFrameSettings, setShowFrameSettings] = useState(false);
+  const [isRecording, setIsRecording] = useState(false);
+  // Fixed when a session starts, since it decides how the connection detects speech.
+  const [sessionInputMode, setSessionInputMode] = useState<InputMode>('always-on');
+  const [isMuted, setIsMuted] = useState(false);
+  // The user is inside a speech segment (VAD) or holding the talk key.
+  const [isTalking, setIsTalking] = useState(false);
+  const companionPip = useDocumentPip();
+  // In-page stand-in for browsers without Document Picture-in-Picture.
+  const [showCompanionOverlay, setShowCompanionOverlay] = useState(false);
 
   // Refs
   const inputAudioCtxRef = useRef<AudioContext | null>(null);
   const outputAudioCtxRef = useRef<AudioContext | null>(null);
   const nextStartTimeRef = useRef(0);
   const activeSourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
-  const sessionPromiseRef = useRef<Promise<any> | null>(null);
+  // Bumped whenever queued playback is flushed so chunks still being decoded are dropped.
+  const playbackEpochRef = useRef(0);
+  // The current model turn was cut short; `suppressTurnAudioRef` also drops its remaining audio (local stop).
+  const turnInterruptedRef = useRef(false);
+  const suppressTurnAudioRef = useRef(false);
+  const sessionPromiseRef = useRef<Promise<LiveSessionHandle> | null>(null);
   const inputAnalyserRef = useRef<AnalyserNode | null>(null);
   const outputAnalyserRef = useRef<AnalyserNode | null>(null);
   const animationFrameRef = useRef<number | null>(null);
-  const screenStreamRef = useRef<MediaStream | null>(null);
+  const visualStreamRef = useRef<MediaStream | null>(null);
   const micStreamRef = useRef<MediaStream | null>(null);
+  const micCaptureRef = useRef<MicCapture | null>(null);
+  const micSourceRef = useRef<MediaStreamAudioSourceNode | null>(null);
+  // Connection bookkeeping: the session outlives individual connections across reconnects and handoffs.
+  const connectionCounterRef = useRef(0);
+  const currentConnectionRef = useRef(0);
+  const connectedRef = useRef(false);
+  const resumptionHandleRef = useRef<string | null>(null);
+  const reconnectAttemptRef = useRef(0);
+  const reconnectTimerRef = useRef<number | null>(null);
+  const handoffPendingRef = useRef(false);
   const videoPreviewRef = useRef<HTMLVideoElement | null>(null);
-  const canvasRef = useRef<HTMLCanvasElement | null>(null);
-  const frameIntervalRef = useRef<number | null>(null);
   
   const currentInputRef = useRef('');
   const currentOutputRef = useRef('');
+  // Wall-clock span of the utterances currently streaming in, used for caption timing.
+  const inputSpanRef = useRef<{ start: number; end: number } | null>(null);
+  const outputSpanRef = useRef<{ start: number; end: number } | null>(null);
   const chatContainerRef = useRef<HTMLDivElement>(null);
+  // The record of the session in progress; persisted on every completed turn and finalized in cleanup().
+  const sessionRecordRef = useRef<SessionRecord | null>(null);
+  const recorderRef = useRef<SessionRecorder | null>(null);
+  const inputModeRef = useRef<InputMode>('always-on');
+  const mutedRef = useRef(false);
+  const speechGateRef = useRef<SpeechGate<Int16Array> | null>(null);
+  const talkKeyHeldRef = useRef(false);
+  // Mirrors of state read from long-lived callbacks (tool handlers)
+  const transcriptionsRef = useRef<TranscriptionEntry[]>([]);
+  transcriptionsRef.current = transcriptions;
 
   // Auto-scroll effect
   useEffect(() => {
     if (chatContainerRef.current) {
       chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
     }
-  }, [transcriptions, liveInput, liveOutput]);
+  }, [transcriptions, liveInput, liveOutput, toolCalls]);
+
+  // Persist the transcript of the session in progress as it grows
+  useEffect(() => {
+    const record = sessionRecordRef.current;
+    if (!record || (transcriptions.length === 0 && pinnedNotes.length === 0)) return;
+    record.transcript = transcriptions;
+    record.pinnedNotes = pinnedNotes;
+    saveSession(record).catch(err => console.error('Session save error:', err));
+  }, [transcriptions, pinnedNotes]);
+
+  // Stops everything queued on the output context and resets the schedule clock.
+  const flushPlayback = useCallback(() => {
+    playbackEpochRef.current++;
+    activeSourcesRef.current.forEach(s => { try { s.stop(); } catch (e) {} });
+    activeSourcesRef.current.clear();
+    nextStartTimeRef.current = 0;
+    setIsModelSpeaking(false);
+  }, []);
+
+  // Stops the recorder (if any) and stores the bundle next to the session record.
+  const finishRecording = async () => {
+    const recorder = recorderRef.current;
+    const record = sessionRecordRef.current;
+    recorderRef.current = null;
+    setIsRecording(false);
+    if (!recorder || !record) return;
+    try {
+      const result = await recorder.stop();
+      await saveRecording({
+        id: recordingId(record.id, recorder.startedAt),
+        sessionId: record.id,
+        video: result.video,
+        manifest: {
+          version: 1,
+          sessionId: record.id,
+          startedAt: recorder.startedAt,
+          durationMs: result.durationMs,
+          mimeType: result.mimeType,
+          model: record.model,
+          voice: record.voice,
+          systemInstruction: record.systemInstruction,
+          transcript: transcriptionsRef.current.filter(t => (t.endedAt ?? t.timestamp) >= recorder.startedAt),
+          frames: result.frames,
+        },
+      });
+      record.recorded = true;
+      await saveSession(record);
+    } catch (err) {
+      console.error('Recording save error:', err);
+    }
+  };
+
+  const handleToggleRecording = () => {
+    if (recorderRef.current) {
+      finishRecording();
+      return;
+    }
+    const outputCtx = outputAudioCtxRef.current;
+    if (!outputCtx || !outputAnalyserRef.current || !micStreamRef.current) return;
+    // The mic is tapped on the output context so both voices land on the recorder's clock.
+    const micSource = outputCtx.createMediaStreamSource(micStreamRef.current);
+    recorderRef.current = startSessionRecorder(outputCtx, [outputAnalyserRef.current, micSource]);
+    setIsRecording(true);
+  };
 
   const cleanup = useCallback(async () => {
+    // Invalidate every open or opening connection first so their close callbacks are ignored.
+    connectionCounterRef.current++;
+    currentConnectionRef.current = 0;
+    connectedRef.current = false;
+    resumptionHandleRef.current = null;
+    reconnectAttemptRef.current = 0;
+    handoffPendingRef.current = false;
+    if (reconnectTimerRef.current) { clearTimeout(reconnectTimerRef.current); reconnectTimerRef.current = null; }
+    setReconnectAttempt(0);
     setStatus('idle');
+    talkKeyHeldRef.current = false;
+    speechGateRef.current?.reset();
+    setIsTalking(false);
     setLiveInput('');
     setLiveOutput('');
     currentInputRef.current = '';
     currentOutputRef.current = '';
+    inputSpanRef.current = null;
+    outputSpanRef.current = null;
     
-    if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
     if (animationFrameRef.current) cancelAnimationFrame(animationFrameRef.current);
     
-    if (screenStreamRef.current) { screenStreamRef.current.getTracks().forEach(t => t.stop()); screenStreamRef.current = null; }
+    if (visualStreamRef.current) { visualStreamRef.current.getTracks().forEach(t => t.stop()); visualStreamRef.current = null; }
+    micCaptureRef.current?.stop(); micCaptureRef.current = null; micSourceRef.current = null;
     if (micStreamRef.current) { micStreamRef.current.getTracks().forEach(t => t.stop()); micStreamRef.current = null; }
     
-    activeSourcesRef.current.forEach(s => { try { s.stop(); } catch (e) {} });
-    activeSourcesRef.current.clear();
+    // Must finish before the output context closes, since the recorder taps it.
+    await finishRecording();
+    flushPlayback();
+    turnInterruptedRef.current = false;
+    suppressTurnAudioRef.current = false;
     
     if (inputAudioCtxRef.current) await inputAudioCtxRef.current.close().catch(() => {});
     if (outputAudioCtxRef.current) await outputAudioCtxRef.current.close().catch(() => {});
     
     inputAudioCtxRef.current = null;
     outputAudioCtxRef.current = null;
+    sessionPromiseRef.current?.then(s => s.close()).catch(() => {});
     sessionPromiseRef.current = null;
-    setIsScreenShared(false);
+    setVisualStream(null);
     setIsModelThinking(false);
-  }, []);
+    setToolCalls(p => p.map(t => t.status === 'pending' || t.status === 'running' ? { ...t, status: 'cancelled' } : t));
 
-  const resample = (data: Float32Array, fromRate: number, toRate: number): Float32Array => {
-    if (Math.abs(fromRate - toRate) < 1) return data;
-    const ratio = fromRate / toRate;
-    const newLength = Math.round(data.length / ratio);
-    const result = new Float32Array(newLength);
-    for (let i = 0; i < newLength; i++) {
-      const pos = i * ratio;
-      const index = Math.floor(pos);
-      const fraction = pos - index;
-      if (index + 1 < data.length) result[i] = data[index] * (1 - fraction) + data[index + 1] * fraction;
-      else result[i] = data[index];
+    const record = sessionRecordRef.current;
+    sessionRecordRef.current = null;
+    if (record) {
+      // Sessions that never produced a turn are not worth keeping in the archive.
+      const persist = record.transcript.length > 0 || (record.pinnedNotes?.length ?? 0) > 0 || record.recorded
+        ? saveSession({ ...record, endedAt: Date.now() })
+        : deleteSession(record.id);
+      persist.catch(err => console.error('Session save error:', err));
     }
-    return result;
+  }, []);
+
+  const readLevel = (analyser: AnalyserNode) => {
+    const dataArray = new Uint8Array(analyser.frequencyBinCount);
+    analyser.getByteFrequencyData(dataArray);
+    return analyserLevel(dataArray);
   };
 
   const updateVolumes = useCallback(() => {
-    if (inputAnalyserRef.current) {
-      const dataArray = new Uint8Array(inputAnalyserRef.current.frequencyBinCount);
-      inputAnalyserRef.current.getByteFrequencyData(dataArray);
-      setInputLevel(dataArray.reduce((a, b) => a + b, 0) / dataArray.length);
-    }
-    if (outputAnalyserRef.current) {
-      const dataArray = new Uint8Array(outputAnalyserRef.current.frequencyBinCount);
-      outputAnalyserRef.current.getByteFrequencyData(dataArray);
-      setOutputLevel(dataArray.reduce((a, b) => a + b, 0) / dataArray.length);
-    }
+    if (inputAnalyserRef.current) setInputLevel(readLevel(inputAnalyserRef.current));
+    if (outputAnalyserRef.current) setOutputLevel(readLevel(outputAnalyserRef.current));
     animationFrameRef.current = requestAnimationFrame(updateVolumes);
   }, []);
 
+  const toolContext: ToolContext = {
+    getTranscript: () => transcriptionsRef.current,
+    pinNote: text => setPinnedNotes(p => [...p, text]),
+  };
+
+  const updateToolCall = (id: string, patch: Partial<ToolCallLogEntry>) =>
+    setToolCalls(p => p.map(t => t.call.id === id ? { ...t, ...patch } : t));
+
+  // Called synchronously from the Approve click so handlers keep its user activation.
+  const runToolCall = (call: ToolCall, session: Promise<LiveSessionHandle>) => {
+    updateToolCall(call.id, { status: 'running' });
+    TOOLS.execute(call, toolContext)
+      .catch((err): ToolResponse => ({ id: call.id, name: call.name, response: { error: err instanceof Error ? err.message : String(err) } }))
+      .then(response => {
+        const failed = 'error' in response.response;
+        updateToolCall(call.id, {
+          status: failed ? 'error' : 'done',
+          result: JSON.stringify(failed ? response.response.error : response.response.output, null, 2),
+        });
+        return session.then(s => s.sendToolResponses([response]));
+      })
+      .catch(err => updateToolCall(call.id, {
+        status: 'error',
+        result: `The result could not be sent: ${err instanceof Error ? err.message : String(err)}`,
+      }));
+  };
+
+  const handleApproveTool = (call: ToolCall) => {
+    if (sessionPromiseRef.current) runToolCall(call, sessionPromiseRef.current);
+  };
+
+  const handleDenyTool = (call: ToolCall) => {
+    updateToolCall(call.id, { status: 'denied' });
+    sendToSession(sessionPromiseRef.current, s => s.sendToolResponses([denialResponse(call)]));
+  };
+
+  // Moves the streamed utterances into the transcript. Used at turn end and when a connection drops mid-turn.
+  const commitTurn = (now: number, interrupted: boolean) => {
+    const userText = currentInputRef.current;
+    const modelText = currentOutputRef.current;
+    const userSpan = inputSpanRef.current ?? { start: now, end: now };
+    const modelSpan = outputSpanRef.current ?? { start: now, end: now };
+    
+    setTranscriptions(p => {
+      const newTranscriptions = [...p];
+      if (userText.trim()) newTranscriptions.push({ role: 'user', text: userText, timestamp: now, startedAt: userSpan.start, endedAt: userSpan.end });
+      if (modelText.trim()) newTranscriptions.push({ role: 'model', text: modelText, timestamp: now, startedAt: modelSpan.start, endedAt: modelSpan.end, ...(interrupted ? { interrupted } : {}) });
+      return newTranscriptions;
+    });
+
+    currentInputRef.current = ''; 
+    currentOutputRef.current = ''; 
+    inputSpanRef.current = null;
+    outputSpanRef.current = null;
+    turnInterruptedRef.current = false;
+    suppressTurnAudioRef.current = false;
+    setLiveInput(''); 
+    setLiveOutput(''); 
+    setIsModelThinking(false);
+  };
+
+  const handleLiveEvent = async (event: LiveEvent) => {
+    const now = Date.now();
+    switch (event.type) {
+      case 'audio': {
+        const ctx = outputAudioCtxRef.current;
+        const outputAnalyser = outputAnalyserRef.current;
+        if (!ctx || !outputAnalyser || suppressTurnAudioRef.current) return;
+        const epoch = playbackEpochRef.current;
+        const buf = await decodeAudioData(decode(event.data), ctx, 24000, 1);
+        if (epoch !== playbackEpochRef.current) return;
+        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
+        const src = ctx.createBufferSource(); src.buffer = buf; src.connect(outputAnalyser); src.start(nextStartTimeRef.current);
+        nextStartTimeRef.current += buf.duration; activeSourcesRef.current.add(src);
+        src.onended = () => {
+          activeSourcesRef.current.delete(src);
+          if (activeSourcesRef.current.size === 0) setIsModelSpeaking(false);
+        };
+        setIsModelSpeaking(true);
+        break;
+      }
+      case 'inputTranscript':
+        inputSpanRef.current = { start: inputSpanRef.current?.start ?? now, end: now };
+        currentInputRef.current += event.text; setLiveInput(currentInputRef.current);
+        break;
+      case 'outputTranscript':
+        outputSpanRef.current = { start: outputSpanRef.current?.start ?? now, end: now };
+        setIsModelThinking(true); currentOutputRef.current += event.text; setLiveOutput(currentOutputRef.current);
+        break;
+      case 'interrupted':
+        flushPlayback();
+        turnInterruptedRef.current = true;
+        break;
+      case 'turnComplete':
+        commitTurn(now, turnInterruptedRef.current);
+        break;
+      case 'toolCall':
+        for (const call of event.calls) {
+          const requiresApproval = TOOLS.get(call.name)?.requiresApproval ?? false;
+          setToolCalls(p => [...p, { call, status: requiresApproval ? 'pending' : 'running', requiresApproval, timestamp: now }]);
+          if (!requiresApproval && sessionPromiseRef.current) runToolCall(call, sessionPromiseRef.current);
+        }
+        break;
+      case 'toolCallCancellation':
+        setToolCalls(p => p.map(t => event.ids.includes(t.call.id) && t.status === 'pending' ? { ...t, status: 'cancelled' } : t));
+        break;
+      case 'resumptionHandle':
+        resumptionHandleRef.current = event.handle;
+        break;
+      case 'goAway':
+        // Hand off to a fresh connection now instead of waiting for the server to drop this one.
+        if (!handoffPendingRef.current) {
+          handoffPendingRef.current = true;
+          openConnection();
+        }
+        break;
+    }
+  };
+
+  // Ends the session and explains why.
+  const failSession = (err: AppError) => {
+    cleanup().then(() => {
+      setStatus('error');
+      setError(err);
+    });
+  };
+
+  const handleConnectionLost = (reason?: string) => {
+    currentConnectionRef.current = 0;
+    connectedRef.current = false;
+    handoffPendingRef.current = false;
+    // A turn cut off by the drop will never complete.
+    if (currentInputRef.current || currentOutputRef.current) commitTurn(Date.now(), true);
+
+    // A bad key, exhausted quota or unknown model will fail the same way on every retry.
+    const closeError = reason ? classifyError(reason) : null;
+    if (closeError && closeError.kind !== 'network' && closeError.kind !== 'unknown') {
+      failSession(closeError);
+      return;
+    }
+
+    const attempt = ++reconnectAttemptRef.current;
+    if (attempt > MAX_RECONNECT_ATTEMPTS) {
+      failSession(new AppError('network', `Connection lost after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts${reason ? `: ${reason}` : ''}`));
+      return;
+    }
+    setStatus('reconnecting');
+    setReconnectAttempt(attempt);
+    const delay = Math.min(RECONNECT_BASE_DELAY_MS * 2 ** (attempt - 1), RECONNECT_MAX_DELAY_MS);
+    reconnectTimerRef.current = window.setTimeout(() => {
+      reconnectTimerRef.current = null;
+      openConnection();
+    }, delay);
+  };
+
+  // Sends mic audio according to the input mode. Audio captured while reconnecting is dropped
+  // rather than replayed late.
+  const handleMicChunk = (pcm: Int16Array) => {
+    const session = sessionPromiseRef.current;
+    if (!connectedRef.current || mutedRef.current || !session) return;
+    const send = (chunk: Int16Array) => sendToSession(session, s => s.sendAudio(encode(new Uint8Array(chunk.buffer)), `audio/pcm;rate=${MIC_SAMPLE_RATE}`));
+    if (inputModeRef.current === 'always-on') {
+      send(pcm);
+    } else if (inputModeRef.current === 'push-to-talk') {
+      if (talkKeyHeldRef.current) send(pcm);
+    } else if (speechGateRef.current && inputAnalyserRef.current) {
+      const { event, send: chunks } = speechGateRef.current.process(pcm, readLevel(inputAnalyserRef.current), performance.now());
+      if (event === 'start') { sendToSession(session, s => s.startActivity()); setIsTalking(true); }
+      chunks.forEach(send);
+      if (event === 'end') { sendToSession(session, s => s.endActivity()); setIsTalking(false); }
+    }
+  };
+
+  // Closes the speech segment in progress, e.g. on mute or when the talk key is released.
+  const endUserActivity = () => {
+    const wasTalking = speechGateRef.current?.reset() || talkKeyHeldRef.current;
+    talkKeyHeldRef.current = false;
+    setIsTalking(false);
+    if (wasTalking && connectedRef.current) sendToSession(sessionPromiseRef.current, s => s.endActivity());
+  };
+
+  const startTalking = () => {
+    if (talkKeyHeldRef.current || mutedRef.current) return;
+    talkKeyHeldRef.current = true;
+    setIsTalking(true);
+    if (connectedRef.current) sendToSession(sessionPromiseRef.current, s => s.startActivity());
+  };
+
+  const toggleMute = () => {
+    const muted = !mutedRef.current;
+    mutedRef.current = muted;
+    setIsMuted(muted);
+    // A disabled track produces silence, so the meter and any recording go quiet too.
+    micStreamRef.current?.getAudioTracks().forEach(t => { t.enabled = !muted; });
+    if (muted) endUserActivity();
+  };
+
+  // Streams the current mic source to whichever connection is current.
+  const startMicStreaming = () => {
+    const inputCtx = inputAudioCtxRef.current;
+    const source = micSourceRef.current;
+    if (!inputCtx || !source) return;
+    // Start Audio Processing (resampled to 16 kHz PCM16 in an AudioWorklet)
+    startMicCapture(inputCtx, source, {
+      targetSampleRate: MIC_SAMPLE_RATE,
+      chunkSize: MIC_CHUNK_SIZE,
+      onChunk: handleMicChunk,
+    }).then(capture => {
+      // Torn down or switched to another mic while the worklet was loading.
+      if (inputAudioCtxRef.current === inputCtx && micSourceRef.current === source) micCaptureRef.current = capture;
+      else capture.stop();
+    }).catch(err => {
+      console.error('Mic capture error:', err);
+      setError(classifyError(err, 'mic'));
+    });
+  };
+
+  // Opens a live connection that becomes current once it is open. Mic, screen, audio
+  // graph and transcript all outlive individual connections.
+  const openConnection = () => {
+    const connectionId = ++connectionCounterRef.current;
+    const isCurrent = () => currentConnectionRef.current === connectionId;
+
+    const sessionPromise: Promise<LiveSessionHandle> = provider.connectLive(
+      model,
+      {
+        ...sessionConfigRef.current!,
+        tools: TOOLS.declarations(),
+        resumptionHandle: resumptionHandleRef.current ?? undefined,
+        manualActivity: inputModeRef.current !== 'always-on',
+      },
+      {
+        onOpen: () => {
+          // Superseded by cleanup or a newer connection while this one was opening.
+          if (!inputAudioCtxRef.current || connectionCounterRef.current !== connectionId) {
+            sessionPromise.then(s => s.close()).catch(() => {});
+            return;
+          }
+          const previous = sessionPromiseRef.current;
+          currentConnectionRef.current = connectionId;
+          sessionPromiseRef.current = sessionPromise;
+          connectedRef.current = true;
+          reconnectAttemptRef.current = 0;
+          handoffPendingRef.current = false;
+          if (reconnectTimerRef.current) { clearTimeout(reconnectTimerRef.current); reconnectTimerRef.current = null; }
+          setReconnectAttempt(0);
+          setStatus('active');
+          if (previous && previous !== sessionPromise) previous.then(s => s.close()).catch(() => {});
+          // A new connection has not seen the start of speech that began on the old one.
+          speechGateRef.current?.reset();
+          if (talkKeyHeldRef.current) sendToSession(sessionPromise, s => s.startActivity());
+          else setIsTalking(false);
+
+          if (!sessionRecordRef.current) {
+            setTranscriptions([]);
+            setToolCalls([]);
+            setPinnedNotes([]);
+            const startedAt = Date.now();
+            setSessionStartedAt(startedAt);
+            sessionRecordRef.current = {
+              id: createSessionId(),
+              startedAt,
+              endedAt: null,
+              model: model.id,
+              ...sessionConfigRef.current!,
+              transcript: [],
+            };
+          }
+
+          if (!micCaptureRef.current && micSourceRef.current) {
+            startMicStreaming();
+            updateVolumes();
+          }
+        },
+        onEvent: handleLiveEvent,
+        // Ignore callbacks from connections that were replaced, handed off or torn down
+        onClose: (reason) => { if (isCurrent()) handleConnectionLost(reason); },
+        // A socket error is always followed by a close, which carries the reason and drives reconnection.
+        onError: (err) => console.error('Live session error:', err),
+      }
+    );
+
+    sessionPromise.catch(err => {
+      console.error(err);
+      // A failed handoff leaves the current connection in place.
+      if (connectionCounterRef.current !== connectionId || handoffPendingRef.current) {
+        handoffPendingRef.current = false;
+        return;
+      }
+      if (!inputAudioCtxRef.current) return;
+      // The very first connection failing is a setup problem, not a blip worth retrying.
+      if (!sessionRecordRef.current) {
+        failSession(classifyError(err));
+        return;
+      }
+      handleConnectionLost();
+    });
+  };
+
+  // Replaces the visual stream. Ending a share from the browser UI leaves the session running
+  // without vision until a source is shared again.
+  const attachVisualStream = (stream: MediaStream | null) => {
+    const previous = visualStreamRef.current;
+    visualStreamRef.current = stream;
+    previous?.getTracks().forEach(t => { t.onended = null; t.stop(); });
+    setVisualStream(stream);
+    // A region drawn on the old source means nothing on the new one.
+    setRegion(null);
+    setIsSelectingRegion(false);
+    stream?.getVideoTracks()[0]?.addEventListener('ended', () => {
+      if (visualStreamRef.current !== stream) return;
+      visualStreamRef.current = null;
+      setVisualStream(null);
+    });
+  };
+
+  const handleShareVisual = async () => {
+    setShowSourcePicker(false);
+    try {
+      attachVisualStream(await acquireVisual(visualSource, cameraDeviceId));
+      refreshDevices();
+    } catch (err) {
+      // Cancelling the picker keeps the current source.
+      setError(classifyError(err));
+    }
+  };
+
+  const handleMicChange = async (deviceId: string) => {
+    liveSettings.update({ micDeviceId: deviceId });
+    const inputCtx = inputAudioCtxRef.current;
+    if (!inputCtx || !inputAnalyserRef.current) return;
+    try {
+      const stream = await acquireMic(deviceId, micProcessing);
+      if (inputAudioCtxRef.current !== inputCtx) {
+        stream.getTracks().forEach(t => t.stop());
+        return;
+      }
+      // Swap the source under the existing analyser and worklet pipeline.
+      micCaptureRef.current?.stop(); micCaptureRef.current = null;
+      micSourceRef.current?.disconnect();
+      micStreamRef.current?.getTracks().forEach(t => t.stop());
+      micStreamRef.current = stream;
+      stream.getAudioTracks().forEach(t => { t.enabled = !mutedRef.current; });
+      const source = inputCtx.createMediaStreamSource(stream);
+      source.connect(inputAnalyserRef.current);
+      micSourceRef.current = source;
+      startMicStreaming();
+      if (recorderRef.current && outputAudioCtxRef.current) {
+        recorderRef.current.addAudioSource(outputAudioCtxRef.current.createMediaStreamSource(stream));
+      }
+    } catch (err) {
+      setError(classifyError(err, 'mic'));
+    }
+  };
+
+  const handleVisualChange = (source: VisualSource, cameraId: string) => {
+    liveSettings.update({ visualSource: source, cameraDeviceId: cameraId });
+  };
+
   const handleStartSession = async () => {
-    if (status === 'connecting') return;
+    if (status === 'connecting' || status === 'reconnecting') return;
     
     await cleanup();
-    setErrorMsg(null);
+    setError(null);
     setStatus('connecting');
+    const config = { voice, systemInstruction: liveSettings.systemInstruction };
+    sessionConfigRef.current = config;
+    setSessionConfig(config);
+    const { inputMode } = liveSettings.settings;
+    inputModeRef.current = inputMode;
+    setSessionInputMode(inputMode);
+    speechGateRef.current = createSpeechGate<Int16Array>({ threshold: vadThreshold });
+    mutedRef.current = false;
+    setIsMuted(false);
 
     try {
-      // 1. Get Streams (Mic + Screen)
-      const micStream = await navigator.mediaDevices.getUserMedia({ audio: true });
-      let screenStream: MediaStream;
-      
+      // 0. Fail fast on a missing key, unknown model or unsupported browser, before any permission prompt
+      await runPreflight(provider, model, { capability: 'live' }, captureFeatures(visualSource));
+
+      // 1. Get Streams (Mic + visual source)
+      const micStream = await acquireMic(micDeviceId, micProcessing);
+      let visual: MediaStream | null;
       try {
-        screenStream = await navigator.mediaDevices.getDisplayMedia({ video: true, audio: false });
+        visual = await acquireVisual(visualSource, cameraDeviceId);
       } catch (err) {
-        // User cancelled screen share, abort session
         micStream.getTracks().forEach(t => t.stop());
-        setStatus('idle');
-        return;
+        throw err;
       }
+      // Labels become readable once a permission has been granted.
+      refreshDevices();
 
       // 2. Setup Refs & State
       micStreamRef.current = micStream;
-      screenStreamRef.current = screenStream;
-      setIsScreenShared(true);
-
-      // Handle user clicking "Stop Sharing" in browser UI
-      screenStream.getVideoTracks()[0].onended = () => {
-         setIsScreenShared(false);
-         // Optionally close session or just stop video. Let's keep session alive but stop video.
-         if (frameIntervalRef.current) clearInterval(frameIntervalRef.current);
-         screenStreamRef.current = null;
-      };
+      attachVisualStream(visual);
 
       // 3. Setup Audio Contexts
       const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
       inputAudioCtxRef.current = inputCtx; 
       const inputAnalyser = inputCtx.createAnalyser(); inputAnalyser.fftSize = 256; inputAnalyserRef.current = inputAnalyser;
       const source = inputCtx.createMediaStreamSource(micStream); source.connect(inputAnalyser);
+      micSourceRef.current = source;
 
       const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       outputAudioCtxRef.current = outputCtx;
       const outputAnalyser = outputCtx.createAnalyser(); outputAnalyser.fftSize = 256; outputAnalyserRef.current = outputAnalyser;
       outputAnalyser.connect(outputCtx.destination);
       
-      // 4. Connect to Gemini Live
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        callbacks: {
-          onopen: () => {
-            setStatus('active');
-            
-            // Start Audio Processing
-            const scriptProcessor = inputCtx.createScriptProcessor(4096, 1, 1);
-            scriptProcessor.onaudioprocess = (e) => {
-              const resampled = resample(e.inputBuffer.getChannelData(0), inputCtx.sampleRate, 16000);
-              const int16 = new Int16Array(resampled.length);
-              for (let i = 0; i < resampled.length; i++) int16[i] = resampled[i] * 32768;
-              sessionPromise.then(s => s.sendRealtimeInput({ media: { data: encode(new Uint8Array(int16.buffer)), mimeType: 'audio/pcm;rate=16000' } }));
-            };
-            source.connect(scriptProcessor); scriptProcessor.connect(inputCtx.destination);
-            
-            // Start Video Frame Processing (Integrated)
-            frameIntervalRef.current = window.setInterval(() => {
-              if (!videoPreviewRef.current || !canvasRef.current || !screenStreamRef.current) return;
-              const c = canvasRef.current; 
-              const ctx = c.getContext('2d')!;
-              // Ensure canvas matches video aspect ratio
-              const vW = videoPreviewRef.current.videoWidth;
-              const vH = videoPreviewRef.current.videoHeight;
-              if (vW && vH) {
-                 c.width = 1024; 
-                 c.height = 1024 * (vH / vW);
-                 ctx.drawImage(videoPreviewRef.current, 0, 0, c.width, c.height);
-                 c.toBlob(b => {
-                   if (b) {
-                     const r = new FileReader(); r.readAsDataURL(b); r.onloadend = () => {
-                       const b64 = (r.result as string).split(',')[1];
-                       sessionPromise.then(s => s.sendRealtimeInput({ media: { data: b64, mimeType: 'image/jpeg' } }));
-                     };
-                   }
-                 }, 'image/jpeg', 0.6);
-              }
-            }, 1000); // 1 FPS for screen share analysis is usually sufficient and saves bandwidth
-
-            updateVolumes();
-          },
-          onmessage: async (m: LiveServerMessage) => {
-            const audio = m.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audio && outputAudioCtxRef.current) {
-              const ctx = outputAudioCtxRef.current; nextStartTimeRef.current = Math.max(nextStartTimeRef.current, ctx.currentTime);
-              const buf = await decodeAudioData(decode(audio), ctx, 24000, 1);
-              const src = ctx.createBufferSource(); src.buffer = buf; src.connect(outputAnalyser); src.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buf.duration; activeSourcesRef.current.add(src);
-            }
-            if (m.serverContent?.inputTranscription) { currentInputRef.current += m.serverContent.inputTranscription.text; setLiveInput(currentInputRef.current); }
-            if (m.serverContent?.outputTranscription) { setIsModelThinking(true); currentOutputRef.current += m.serverContent.outputTranscription.text; setLiveOutput(currentOutputRef.current); }
-            if (m.serverContent?.turnComplete) {
-              const userText = currentInputRef.current;
-              const modelText = currentOutputRef.current;
-              
-              setTranscriptions(p => {
-                const newTranscriptions = [...p];
-                if (userText.trim()) newTranscriptions.push({ role: 'user', text: userText, timestamp: Date.now() });
-                if (modelText.trim()) newTranscriptions.push({ role: 'model', text: modelText, timestamp: Date.now() });
-                return newTranscriptions;
-              });
-
-              currentInputRef.current = ''; 
-              currentOutputRef.current = ''; 
-              setLiveInput(''); 
-              setLiveOutput(''); 
-              setIsModelThinking(false);
-            }
-          },
-          onclose: () => cleanup(),
-          onerror: () => setStatus('error'),
-        },
-        config: {
-          responseModalities: [Modality.AUDIO], inputAudioTranscription: {}, outputAudioTranscription: {},
-          systemInstruction: TROUBLESHOOTING_INSTRUCTION,
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-        }
-      });
-      sessionPromiseRef.current = sessionPromise;
+      // 4. Connect to the selected live engine
+      openConnection();
     } catch (err) { 
       console.error(err);
       setStatus('error'); 
-      setErrorMsg("Connection failed");
+      setError(classifyError(err));
     }
   };
 
-  // Sync Video Preview when screen is shared
+  // Local barge-in: silence ANA now and drop the rest of this turn's audio.
+  const handleStopSpeaking = () => {
+    flushPlayback();
+    turnInterruptedRef.current = true;
+    suppressTurnAudioRef.current = true;
+  };
+
+  const handleSendText = () => {
+    const text = composerText.trim();
+    if (!text || status !== 'active' || !sessionPromiseRef.current) return;
+    const now = Date.now();
+    sendToSession(sessionPromiseRef.current, s => s.sendText(text));
+    setTranscriptions(p => [...p, { role: 'user', text, timestamp: now, startedAt: now, endedAt: now }]);
+    setComposerText('');
+    setIsModelThinking(true);
+  };
+
+  const frameStats = useFrameStreamer(videoPreviewRef, {
+    enabled: status === 'active' && isScreenShared,
+    settings: frameSettings,
+    region,
+    onFrame: (b64, frame) => {
+      sendToSession(sessionPromiseRef.current, s => s.sendImage(b64, 'image/jpeg'));
+      recorderRef.current?.addFrame(frame);
+    },
+  });
+
+  useEffect(() => {
+    speechGateRef.current?.setThreshold(vadThreshold);
+  }, [vadThreshold]);
+
+  // Apply voice processing changes to the mic in use without reopening it.
+  useEffect(() => {
+    micStreamRef.current?.getAudioTracks().forEach(t => {
+      t.applyConstraints({ echoCancellation, noiseSuppression }).catch(err => console.warn('Mic constraints not applied:', err));
+    });
+  }, [echoCancellation, noiseSuppression]);
+
+  // Push-to-talk hotkey; ignored while typing so the composer keeps working.
+  useEffect(() => {
+    if (status !== 'active' || sessionInputMode !== 'push-to-talk') return;
+    const isTyping = (target: EventTarget | null) =>
+      target instanceof HTMLElement && (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.code !== pushToTalkKey || isTyping(e.target)) return;
+      e.preventDefault();
+      if (!e.repeat) startTalking();
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code !== pushToTalkKey || !talkKeyHeldRef.current) return;
+      e.preventDefault();
+      endUserActivity();
+    };
+    // A key released while the window is in the background never sends keyup.
+    const onBlur = () => { if (talkKeyHeldRef.current) endUserActivity(); };
+    window.addEventListener('keydown', onKeyDown);
+    window.addEventListener('keyup', onKeyUp);
+    window.addEventListener('blur', onBlur);
+    return () => {
+      window.removeEventListener('keydown', onKeyDown);
+      window.removeEventListener('keyup', onKeyUp);
+      window.removeEventListener('blur', onBlur);
+    };
+  }, [status, sessionInputMode, pushToTalkKey]);
+
+  const handleToggleCompanion = () => {
+    if (companionPip.pipWindow) { companionPip.close(); return; }
+    if (!isDocumentPipSupported()) { setShowCompanionOverlay(v => !v); return; }
+    companionPip.open(360, 480).catch(err => {
+      console.warn('Picture-in-picture window unavailable, using the overlay:', err);
+      setShowCompanionOverlay(true);
+    });
+  };
+
+  const statusLabel = status === 'reconnecting' ? `reconnecting (attempt ${reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS})` : status;
+  const companion = (onClose?: () => void) => (
+    <LiveCompanion
+      statusLabel={statusLabel}
+      isActive={status === 'active' || status === 'reconnecting'}
+      liveInput={liveInput}
+      liveOutput={liveOutput}
+      turns={transcriptions.slice(-COMPANION_TURNS)}
+      readLevels={() => ({
+        input: inputAnalyserRef.current ? readLevel(inputAnalyserRef.current) : 0,
+        output: outputAnalyserRef.current ? readLevel(outputAnalyserRef.current) : 0,
+      })}
+      isMuted={isMuted}
+      onToggleMute={toggleMute}
+      onStop={cleanup}
+      onClose={onClose}
+    />
+  );
+
+  const inputStateLabel = status !== 'active' && status !== 'reconnecting' ? ''
+    : isMuted ? 'muted'
+    : sessionInputMode === 'vad' ? (isTalking ? 'speech' : 'listening')
+    : sessionInputMode === 'push-to-talk' ? (isTalking ? 'talking' : `hold ${keyLabel(pushToTalkKey)}`)
+    : '';
+
+  // Sync Video Preview with the shared source
   useEffect(() => {
-    if (isScreenShared && videoPreviewRef.current && screenStreamRef.current) {
-      videoPreviewRef.current.srcObject = screenStreamRef.current;
+    if (visualStream && videoPreviewRef.current) {
+      videoPreviewRef.current.srcObject = visualStream;
     }
-  }, [isScreenShared]);
+  }, [visualStream]);
 
   return (
     <div className="flex flex-col h-full bg-slate-950 p-4 md:p-6 overflow-hidden font-mono-code">
-      {errorMsg && (
-        <div className="mb-4 p-3 bg-red-950/40 border border-red-500/50 rounded-xl text-red-500 text-[10px] font-black uppercase text-center">{errorMsg}</div>
+      {showHistory && <SessionHistory onClose={() => setShowHistory(false)} />}
+      {companionPip.pipWindow && createPortal(<div className="h-screen">{companion()}</div>, companionPip.pipWindow.document.body)}
+      {showCompanionOverlay && !companionPip.pipWindow && (
+        <div className="fixed bottom-4 right-4 z-[90] w-80 h-96 rounded-2xl border border-slate-700 overflow-hidden shadow-2xl">
+          {companion(() => setShowCompanionOverlay(false))}
+        </div>
+      )}
+      {showSettings && <LiveSettingsPanel controller={liveSettings} sessionActive={status === 'active' || status === 'reconnecting'} onClose={() => setShowSettings(false)} />}
+      {error && (
+        <div className="mb-4">
+          <ErrorNotice error={error} onRetry={status === 'active' || status === 'reconnecting' ? undefined : handleStartSession} onDismiss={() => setError(null)} />
+        </div>
       )}
 
       <div className="flex flex-col sm:flex-row justify-between items-center mb-6 gap-4 z-20">
         <div className="flex items-center gap-4">
           <div className="flex items-center gap-2 bg-slate-900 border border-slate-800 rounded-full px-3 py-1">
-             <div className={`w-2 h-2 rounded-full ${status === 'active' ? 'bg-cyan-500 animate-pulse' : 'bg-slate-700'}`} />
-             <span className="text-[10px] font-bold text-slate-400 uppercase">{status}</span>
+             <div className={`w-2 h-2 rounded-full ${status === 'active' ? 'bg-cyan-500 animate-pulse' : status === 'reconnecting' ? 'bg-amber-500 animate-pulse' : 'bg-slate-700'}`} />
+             <span className="text-[10px] font-bold text-slate-400 uppercase">{statusLabel}</span>
           </div>
         </div>
         
         <div className="flex gap-2 w-full sm:w-auto">
-          {status === 'active' ? (
+          <button onClick={() => setShowSettings(true)} className="px-4 py-2 bg-slate-900 border border-slate-800 text-slate-400 rounded-xl text-[10px] font-black uppercase hover:text-white hover:border-slate-600 transition-all">Settings</button>
+          <button onClick={() => setShowHistory(true)} className="px-4 py-2 bg-slate-900 border border-slate-800 text-slate-400 rounded-xl text-[10px] font-black uppercase hover:text-white hover:border-slate-600 transition-all">History</button>
+          <button
+            onClick={handleToggleCompanion}
+            title="Captions, recent turns and controls in a window that stays on top"
+            className={`px-4 py-2 border rounded-xl text-[10px] font-black uppercase transition-all ${companionPip.pipWindow || showCompanionOverlay ? 'bg-cyan-950/40 border-cyan-500 text-cyan-300' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white hover:border-slate-600'}`}
+          >
+            Companion
+          </button>
+          {status === 'active' && isRecordingSupported() && (
+            <button onClick={handleToggleRecording} className={`px-4 py-2 border rounded-xl text-[10px] font-black uppercase transition-all ${isRecording ? 'bg-red-500 border-red-500 text-white animate-pulse' : 'bg-slate-900 border-red-500/50 text-red-400 hover:bg-red-500 hover:text-white'}`}>{isRecording ? 'Stop Recording' : 'Record'}</button>
+          )}
+          {(status === 'active' || status === 'reconnecting') && (
+            <button onClick={toggleMute} className={`px-4 py-2 border rounded-xl text-[10px] font-black uppercase transition-all ${isMuted ? 'bg-red-500 border-red-500 text-white' : 'bg-slate-900 border-slate-800 text-slate-400 hover:text-white hover:border-slate-600'}`}>{isMuted ? 'Unmute' : 'Mute'}</button>
+          )}
+          {status === 'active' && (
+            <button onClick={handleStopSpeaking} disabled={!isModelSpeaking} className="px-4 py-2 bg-slate-900 border border-amber-500/50 text-amber-400 rounded-xl text-[10px] font-black uppercase hover:bg-amber-500 hover:text-white disabled:opacity-30 disabled:pointer-events-none transition-all">Stop Speaking</button>
+          )}
+          {status === 'active' || status === 'reconnecting' ? (
             <button onClick={cleanup} className="flex-1 sm:flex-none px-6 py-2 bg-red-950/40 border border-red-500 text-red-500 rounded-xl text-[10px] font-black uppercase hover:bg-red-500 hover:text-white transition-all">Kill Session</button>
           ) : (
             <button onClick={handleStartSession} disabled={status === 'connecting'} className="flex-1 sm:flex-none px-6 py-2 bg-cyan-600 border border-cyan-500 text-white rounded-xl text-[10px] font-black uppercase shadow-lg shadow-cyan-900/40 hover:bg-cyan-500 transition-all">
@@ -348,10 +860,51 @@ const LiveSession: React.FC = () => {
           {isScreenShared ? (
             <div className="w-full h-full relative group">
               <video ref={videoPreviewRef} autoPlay muted playsInline className="w-full h-full object-contain" />
+              <RegionSelector
+                videoRef={videoPreviewRef}
+                region={region}
+                selecting={isSelectingRegion}
+                onSelect={r => { setRegion(r); setIsSelectingRegion(false); }}
+              />
               <div className="absolute inset-0 border-2 border-cyan-500/10 pointer-events-none rounded-[2rem] shadow-[inset_0_0_100px_rgba(6,182,212,0.1)]" />
               <div className="absolute top-4 right-4 bg-cyan-600/20 backdrop-blur-md border border-cyan-500/40 px-3 py-1 rounded-full flex items-center gap-2">
                  <div className="w-1.5 h-1.5 rounded-full bg-cyan-400 animate-pulse" />
                  <span className="text-[8px] font-black text-cyan-400 tracking-widest uppercase">Streaming Visual Data</span>
+                 <span className="text-[8px] font-bold text-cyan-600">{frameStats.sent} sent · {frameStats.skipped} unchanged</span>
+              </div>
+              <div className="absolute bottom-4 left-4 flex items-end gap-2">
+                <div className="relative">
+                  {showSourcePicker && (
+                    <div className="absolute bottom-full mb-2 left-0">
+                      <CaptureSourcePicker
+                        micDeviceId={micDeviceId}
+                        visualSource={visualSource}
+                        cameraDeviceId={cameraDeviceId}
+                        mics={mics}
+                        cameras={cameras}
+                        onMicChange={handleMicChange}
+                        onVisualChange={handleVisualChange}
+                        applyLabel={visualSource === 'none' ? 'Stop sharing' : 'Switch source'}
+                        onApply={handleShareVisual}
+                      />
+                    </div>
+                  )}
+                  <button onClick={() => { setShowSourcePicker(v => !v); setShowFrameSettings(false); }} className={`px-3 py-1 rounded-full border text-[8px] font-black uppercase tracking-widest backdrop-blur-md transition-all ${showSourcePicker ? 'border-cyan-500 text-cyan-400 bg-cyan-950/60' : 'border-slate-700 text-slate-400 bg-black/60 hover:text-white'}`}>Source</button>
+                </div>
+                <div className="relative">
+                  {showFrameSettings && (
+                    <div className="absolute bottom-full mb-2 left-0">
+                      <FrameSettingsPanel settings={frameSettings} onChange={liveSettings.setFrameSettings} />
+                    </div>
+                  )}
+                  <button onClick={() => { setShowFrameSettings(v => !v); setShowSourcePicker(false); }} className={`px-3 py-1 rounded-full border text-[8px] font-black uppercase tracking-widest backdrop-blur-md transition-all ${showFrameSettings ? 'border-cyan-500 text-cyan-400 bg-cyan-950/60' : 'border-slate-700 text-slate-400 bg-black/60 hover:text-white'}`}>Stream</button>
+                </div>
+                <button onClick={() => setIsSelectingRegion(v => !v)} className={`px-3 py-1 rounded-full border text-[8px] font-black uppercase tracking-widest backdrop-blur-md transition-all ${isSelectingRegion ? 'border-amber-400 text-amber-400 bg-amber-950/60' : 'border-slate-700 text-slate-400 bg-black/60 hover:text-white'}`}>
+                  {isSelectingRegion ? 'Cancel' : 'Select Region'}
+                </button>
+                {region && (
+                  <button onClick={() => setRegion(null)} className="px-3 py-1 rounded-full border border-slate-700 bg-black/60 text-[8px] font-black uppercase tracking-widest text-slate-400 hover:text-white backdrop-blur-md transition-all">Full Screen</button>
+                )}
               </div>
             </div>
           ) : (
@@ -361,28 +914,61 @@ const LiveSession: React.FC = () => {
                   <div key={i} className={`w-1.5 rounded-full bg-slate-800 transition-all duration-300`} style={{ height: `${20 + Math.random() * 40}%` }} />
                 ))}
               </div>
-              <p className="mt-8 text-[10px] font-black text-slate-700 uppercase tracking-[0.4em]">Awaiting Vision Pulse...</p>
+              <p className="mt-8 text-[10px] font-black text-slate-700 uppercase tracking-[0.4em]">
+                {status === 'active' || status === 'reconnecting' ? 'Audio only · share a source to restore vision' : 'Awaiting Vision Pulse...'}
+              </p>
+              <div className="mt-6">
+                <CaptureSourcePicker
+                  micDeviceId={micDeviceId}
+                  visualSource={visualSource}
+                  cameraDeviceId={cameraDeviceId}
+                  mics={mics}
+                  cameras={cameras}
+                  onMicChange={handleMicChange}
+                  onVisualChange={handleVisualChange}
+                  applyLabel={status === 'active' && visualSource !== 'none' ? 'Share' : undefined}
+                  onApply={handleShareVisual}
+                />
+              </div>
             </div>
           )}
-          <canvas ref={canvasRef} className="hidden" />
         </div>
 
         {/* Right: Activity Stream */}
         <div className="flex-1 min-w-[320px] bg-slate-900/40 border border-slate-800 rounded-[2rem] flex flex-col shadow-2xl backdrop-blur-md overflow-hidden">
           <div className="p-4 border-b border-slate-800 bg-black/20 flex items-center justify-between shrink-0">
             <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Neural activity</span>
-            <div className={`w-2 h-2 rounded-full ${isModelThinking ? 'bg-cyan-500 animate-ping' : 'bg-slate-800'}`} />
+            <div className="flex items-center gap-3">
+              <ExportMenu session={sessionStartedAt && sessionConfig ? { startedAt: sessionStartedAt, ...sessionConfig, transcript: transcriptions, pinnedNotes } : null} />
+              <div className={`w-2 h-2 rounded-full ${isModelThinking ? 'bg-cyan-500 animate-ping' : 'bg-slate-800'}`} />
+            </div>
           </div>
           
           <div ref={chatContainerRef} className="flex-1 overflow-y-auto p-4 space-y-4 scroll-smooth">
-            {transcriptions.map((t, i) => (
-              <div key={i} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start'} animate-in fade-in slide-in-from-bottom-2 duration-300`}>
-                <span className={`text-[8px] font-black uppercase mb-1 ${t.role === 'user' ? 'text-blue-500' : 'text-cyan-500'}`}>{t.role}</span>
-                <div className={`max-w-[90%] text-[10px] p-3 rounded-2xl border ${t.role === 'user' ? 'bg-slate-800/60 border-slate-700 text-slate-300' : 'bg-cyan-950/10 border-cyan-800/40 text-cyan-100'}`}>
-                  {formatMessage(t.text)}
-                </div>
+            {pinnedNotes.length > 0 && (
+              <div className="sticky top-0 z-10 p-3 rounded-2xl border border-amber-700/40 bg-slate-950/90 backdrop-blur space-y-1">
+                <span className="block text-[8px] font-black uppercase text-amber-500">Pinned</span>
+                {pinnedNotes.map((note, i) => (
+                  <div key={i} className="flex items-start gap-2 text-[10px] text-amber-100">
+                    <span className="flex-1 whitespace-pre-wrap">{note}</span>
+                    <button onClick={() => setPinnedNotes(p => p.filter((_, j) => j !== i))} className="text-[8px] font-black uppercase text-slate-600 hover:text-red-500">Unpin</button>
+                  </div>
+                ))}
               </div>
-            ))}
+            )}
+            {[
+              ...transcriptions.map((t, i) => ({ timestamp: t.timestamp, node: (
+                <div key={`t-${i}`} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start'} animate-in fade-in slide-in-from-bottom-2 duration-300`}>
+                  <span className={`text-[8px] font-black uppercase mb-1 ${t.role === 'user' ? 'text-blue-500' : 'text-cyan-500'}`}>{t.role}{t.interrupted && <span className="text-amber-500"> · interrupted</span>}</span>
+                  <div className={`max-w-[90%] text-[10px] p-3 rounded-2xl border ${t.role === 'user' ? 'bg-slate-800/60 border-slate-700 text-slate-300' : 'bg-cyan-950/10 border-cyan-800/40 text-cyan-100'} ${t.interrupted ? 'opacity-60' : ''}`}>
+                    {formatMessage(t.text)}
+                  </div>
+                </div>
+              ) })),
+              ...toolCalls.map(t => ({ timestamp: t.timestamp, node: (
+                <ToolCallCard key={`c-${t.call.id}`} entry={t} onApprove={() => handleApproveTool(t.call)} onDeny={() => handleDenyTool(t.call)} />
+              ) })),
+            ].sort((a, b) => a.timestamp - b.timestamp).map(item => item.node)}
             {liveInput && (
               <div className="text-[10px] text-blue-500/60 font-black italic animate-pulse text-right">
                 <span className="block mb-1 text-[8px] uppercase not-italic text-blue-500">User (Listening)</span>
@@ -390,22 +976,70 @@ const LiveSession: React.FC = () => {
               </div>
             )}
             {liveOutput && (
-              <div className="text-[10px] text-cyan-500/60 font-black italic animate-pulse">
-                <span className="block mb-1 text-[8px] uppercase not-italic text-cyan-500">ANA (Thinking)</span>
-                 {/* Only format completed output to prevent flicker, or simple text for live */}
-                {liveOutput}...
+              <div className="flex flex-col items-start">
+                <span className="mb-1 text-[8px] font-black uppercase text-cyan-500 animate-pulse">ANA (Thinking)</span>
+                <div className="max-w-[90%] text-[10px] p-3 rounded-2xl border border-dashed border-cyan-800/40 text-cyan-100/80">
+                  {formatMessage(liveOutput, true)}
+                </div>
               </div>
             )}
           </div>
           
+          <div className="border-t border-slate-800 bg-black/20 p-3 flex gap-2 shrink-0">
+            <textarea
+              value={composerText}
+              onChange={e => setComposerText(e.target.value)}
+              onKeyDown={e => {
+                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSendText(); }
+              }}
+              disabled={status !== 'active'}
+              rows={Math.min(6, Math.max(1, composerText.split('\n').length))}
+              placeholder={status === 'active' ? 'Type or paste a stack trace, config or command (Shift+Enter for a new line)...' : 'Start a session to type to ANA'}
+              className="flex-1 bg-slate-900 border border-slate-800 rounded-xl px-3 py-2 text-[10px] text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-cyan-500/50 resize-none disabled:opacity-40"
+            />
+            <button
+              onClick={handleSendText}
+              disabled={status !== 'active' || !composerText.trim()}
+              className="px-4 bg-cyan-600 border border-cyan-500 text-white rounded-xl text-[9px] font-black uppercase hover:bg-cyan-500 disabled:bg-slate-800 disabled:border-slate-700 disabled:text-slate-600 transition-all"
+            >
+              Send
+            </button>
+          </div>
+
           <div className="h-20 border-t border-slate-800 bg-black/30 p-4 flex gap-4 shrink-0">
              <div className="flex-1 flex flex-col">
-                <span className="text-[7px] font-black text-slate-600 uppercase mb-1 italic">Input Voice</span>
+                <span className="text-[7px] font-black text-slate-600 uppercase mb-1 italic">
+                  Input Voice{inputStateLabel && <span className={isMuted ? 'text-red-500' : isTalking ? 'text-blue-400' : ''}> · {inputStateLabel}</span>}
+                </span>
                 <div className="flex-1 flex items-center gap-1">
                    {[...Array(12)].map((_, i) => (
-                     <div key={i} className={`flex-1 rounded-full transition-all duration-100 ${inputLevel > 15 ? 'bg-blue-500' : 'bg-slate-800'}`} style={{ height: `${5 + (inputLevel / 2) * Math.random()}%` }} />
+                     <div key={i} className={`flex-1 rounded-full transition-all duration-100 ${(sessionInputMode === 'always-on' ? inputLevel > 15 : isTalking) && !isMuted ? 'bg-blue-500' : 'bg-slate-800'}`} style={{ height: `${5 + (inputLevel / 2) * Math.random()}%` }} />
                    ))}
+                   {sessionInputMode === 'push-to-talk' && status === 'active' && (
+                     <button
+                       onPointerDown={startTalking}
+                       onPointerUp={endUserActivity}
+                       onPointerLeave={() => { if (talkKeyHeldRef.current) endUserActivity(); }}
+                       disabled={isMuted}
+                       className={`ml-2 px-2 py-1 rounded-lg border text-[7px] font-black uppercase select-none transition-all disabled:opacity-30 ${isTalking ? 'border-blue-500 bg-blue-600 text-white' : 'border-slate-700 text-slate-400 hover:text-white'}`}
+                     >
+                       Hold to talk
+                     </button>
+                   )}
                 </div>
+                {sessionInputMode === 'vad' && (status === 'active' || status === 'reconnecting') && (
+                  <div className="relative h-1.5 mt-1 bg-slate-800 rounded-full" title="Speech threshold: drag above the background noise level">
+                    <div className="absolute inset-y-0 left-0 bg-blue-500/60 rounded-full" style={{ width: `${Math.min(100, inputLevel)}%` }} />
+                    <input
+                      type="range"
+                      min={1}
+                      max={100}
+                      value={vadThreshold}
+                      onChange={e => liveSettings.update({ vadThreshold: Number(e.target.value) })}
+                      className="absolute inset-0 w-full h-full opacity-60 accent-amber-400 cursor-pointer"
+                    />
+                  </div>
+                )}
              </div>
              <div className="flex-1 flex flex-col">
                 <span className="text-[7px] font-black text-slate-600 uppercase mb-1 italic">Neural Engine</span>
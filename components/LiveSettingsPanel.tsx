@@ -0,0 +1,232 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { useEngine } from '../hooks/useEngine';
+import { LiveSettingsController } from '../hooks/useLiveSettings';
+import { modelKey, getProvider } from '../providers/registry';
+import { InstructionPreset, RESPONSE_LANGUAGES, createPresetId, parsePresets, serializePresets } from '../utils/live-presets';
+import { downloadBlob } from '../utils/file-utils';
+import { INPUT_MODES, keyLabel } from '../utils/voice-activity';
+import FrameSettingsPanel from './FrameSettingsPanel';
+
+interface LiveSettingsPanelProps {
+  controller: LiveSettingsController;
+  sessionActive: boolean;
+  onClose: () => void;
+}
+
+const sectionLabel = 'text-[8px] font-black text-slate-500 uppercase tracking-widest';
+const inputClass = 'w-full bg-slate-900 border border-slate-800 rounded-xl px-3 py-1.5 text-[10px] text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-cyan-500/50';
+const smallButton = 'px-3 py-1.5 border border-slate-700 text-slate-400 rounded-xl text-[9px] font-black uppercase hover:text-white disabled:opacity-30 disabled:pointer-events-none transition-all';
+
+const LiveSettingsPanel: React.FC<LiveSettingsPanelProps> = ({ controller, sessionActive, onClose }) => {
+  const { settings, presets, activePreset, update, setFrameSettings, savePreset, deletePreset, importPresets } = controller;
+  const { modelsFor, selectedModel, selectModel } = useEngine();
+  const liveModel = selectedModel('live');
+  const voices = getProvider(liveModel).voices;
+  // The preset open in the editor; edits to custom presets stay local until saved.
+  const [draft, setDraft] = useState<InstructionPreset>(activePreset);
+  const [importError, setImportError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [capturingKey, setCapturingKey] = useState(false);
+
+  // The next key pressed becomes the push-to-talk key; Escape keeps the current one.
+  useEffect(() => {
+    if (!capturingKey) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      e.preventDefault();
+      e.stopPropagation();
+      if (e.code !== 'Escape') update({ pushToTalkKey: e.code });
+      setCapturingKey(false);
+    };
+    window.addEventListener('keydown', onKeyDown, true);
+    return () => window.removeEventListener('keydown', onKeyDown, true);
+  }, [capturingKey, update]);
+
+  const saved = presets.find(p => p.id === draft.id);
+  const isDirty = !saved || saved.name !== draft.name || saved.instruction !== draft.instruction;
+  const customPresets = presets.filter(p => !p.builtin);
+
+  const openPreset = (preset: InstructionPreset) => {
+    setDraft(preset);
+    update({ presetId: preset.id });
+  };
+
+  const handleNew = () => setDraft({ id: createPresetId(), name: 'New preset', instruction: '' });
+
+  const handleDuplicate = () => setDraft({ id: createPresetId(), name: `${draft.name} (copy)`, instruction: draft.instruction });
+
+  const handleSave = () => {
+    if (!draft.name.trim() || !draft.instruction.trim()) return;
+    const preset = { ...draft, name: draft.name.trim() };
+    savePreset(preset);
+    setDraft(preset);
+    update({ presetId: preset.id });
+  };
+
+  const handleDelete = () => {
+    deletePreset(draft.id);
+    setDraft(presets[0]);
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const imported = parsePresets(await file.text());
+      importPresets(imported);
+      setImportError(null);
+      if (imported.length) setDraft(imported[0]);
+    } catch (err) {
+      setImportError(err instanceof Error ? err.message : 'Import failed');
+    }
+  };
+
+  const handleExport = () => {
+    downloadBlob(new Blob([serializePresets(customPresets)], { type: 'application/json' }), 'ana-presets.json');
+  };
+
+  return (
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 md:p-10" onClick={onClose}>
+      <div className="w-full h-full max-w-5xl bg-slate-950 border border-slate-800 rounded-[2rem] flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-800 bg-black/20 flex items-center gap-4 shrink-0">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Live settings</span>
+          {sessionActive && <span className="text-[9px] font-bold text-amber-400">Model, voice, language, preset and input mode changes apply to the next session.</span>}
+          <div className="flex-1" />
+          <button onClick={onClose} className={smallButton}>Close</button>
+        </div>
+
+        <div className="flex-1 min-h-0 overflow-y-auto p-6 grid grid-cols-1 lg:grid-cols-[16rem_1fr] gap-6">
+          <div className="space-y-5">
+            <label className="block space-y-1">
+              <span className={sectionLabel}>Live model</span>
+              <select value={modelKey(liveModel)} onChange={e => selectModel('live', e.target.value)} className={inputClass}>
+                {modelsFor('live').map(m => <option key={modelKey(m)} value={modelKey(m)}>{m.name}</option>)}
+              </select>
+            </label>
+
+            <div className="space-y-1">
+              <span className={sectionLabel}>Voice</span>
+              <div className="flex flex-wrap gap-1">
+                {voices.map(v => (
+                  <button
+                    key={v}
+                    onClick={() => update({ voice: v })}
+                    className={`px-2.5 py-1 rounded-lg border text-[9px] font-bold transition-all ${settings.voice === v ? 'border-cyan-500 text-cyan-300 bg-cyan-950/40' : 'border-slate-800 text-slate-400 hover:text-white'}`}
+                  >
+                    {v}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="block space-y-1">
+              <span className={sectionLabel}>Response language</span>
+              <select value={settings.language} onChange={e => update({ language: e.target.value })} className={inputClass}>
+                {RESPONSE_LANGUAGES.map(l => <option key={l.code} value={l.code}>{l.label}</option>)}
+              </select>
+            </label>
+
+            <div className="space-y-2">
+              <span className={sectionLabel}>Microphone input</span>
+              <div className="flex flex-wrap gap-1">
+                {INPUT_MODES.map(m => (
+                  <button
+                    key={m.id}
+                    onClick={() => update({ inputMode: m.id })}
+                    className={`px-2.5 py-1 rounded-lg border text-[9px] font-bold transition-all ${settings.inputMode === m.id ? 'border-cyan-500 text-cyan-300 bg-cyan-950/40' : 'border-slate-800 text-slate-400 hover:text-white'}`}
+                  >
+                    {m.label}
+                  </button>
+                ))}
+              </div>
+              {settings.inputMode === 'vad' && (
+                <label className="block space-y-1">
+                  <span className="text-[9px] text-slate-500">Speech threshold {settings.vadThreshold} (input meter level; tune it live under the meter)</span>
+                  <input
+                    type="range"
+                    min={1}
+                    max={100}
+                    value={settings.vadThreshold}
+                    onChange={e => update({ vadThreshold: Number(e.target.value) })}
+                    className="w-full accent-cyan-500"
+                  />
+                </label>
+              )}
+              {settings.inputMode === 'push-to-talk' && (
+                <div className="flex items-center gap-2">
+                  <span className="text-[9px] text-slate-500">Talk key</span>
+                  <button onClick={() => setCapturingKey(v => !v)} className={`${smallButton} ${capturingKey ? 'border-cyan-500 text-cyan-300' : ''}`}>
+                    {capturingKey ? 'Press a key…' : keyLabel(settings.pushToTalkKey)}
+                  </button>
+                </div>
+              )}
+              <label className="flex items-center gap-2 text-[9px] text-slate-400">
+                <input type="checkbox" checked={settings.echoCancellation} onChange={e => update({ echoCancellation: e.target.checked })} className="accent-cyan-500" />
+                Echo cancellation
+              </label>
+              <label className="flex items-center gap-2 text-[9px] text-slate-400">
+                <input type="checkbox" checked={settings.noiseSuppression} onChange={e => update({ noiseSuppression: e.target.checked })} className="accent-cyan-500" />
+                Noise suppression
+              </label>
+            </div>
+
+            <div className="space-y-1">
+              <span className={sectionLabel}>Frame streaming</span>
+              <FrameSettingsPanel settings={settings.frameSettings} onChange={setFrameSettings} />
+            </div>
+          </div>
+
+          <div className="flex flex-col min-h-[24rem] gap-3">
+            <div className="flex items-center gap-2 flex-wrap">
+              <span className={`${sectionLabel} mr-auto`}>System instruction presets</span>
+              <button onClick={handleNew} className={smallButton}>New</button>
+              <button onClick={() => fileInputRef.current?.click()} className={smallButton}>Import</button>
+              <button onClick={handleExport} disabled={customPresets.length === 0} className={smallButton}>Export</button>
+              <input ref={fileInputRef} type="file" accept="application/json,.json" onChange={handleImport} className="hidden" />
+            </div>
+            {importError && <div className="p-2 bg-red-950/40 border border-red-500/50 rounded-xl text-red-500 text-[9px] font-bold">{importError}</div>}
+
+            <div className="flex flex-wrap gap-1">
+              {presets.map(p => (
+                <button
+                  key={p.id}
+                  onClick={() => openPreset(p)}
+                  className={`px-2.5 py-1 rounded-lg border text-[9px] font-bold transition-all ${p.id === settings.presetId ? 'border-cyan-500 text-cyan-300 bg-cyan-950/40' : 'border-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {p.name}{p.builtin ? '' : ' *'}
+                </button>
+              ))}
+            </div>
+
+            <input
+              value={draft.name}
+              onChange={e => setDraft({ ...draft, name: e.target.value })}
+              readOnly={draft.builtin}
+              placeholder="Preset name"
+              className={inputClass}
+            />
+            <textarea
+              value={draft.instruction}
+              onChange={e => setDraft({ ...draft, instruction: e.target.value })}
+              readOnly={draft.builtin}
+              placeholder="You are ANA, ..."
+              className={`${inputClass} flex-1 min-h-[12rem] resize-none font-mono leading-relaxed`}
+            />
+            <div className="flex items-center gap-2">
+              <span className="text-[9px] text-slate-600 mr-auto">
+                {draft.builtin ? 'Built-in presets are read-only; duplicate one to customise it.' : isDirty ? 'Unsaved changes' : 'Saved'}
+              </span>
+              <button onClick={handleDuplicate} className={smallButton}>Duplicate</button>
+              {!draft.builtin && saved && <button onClick={handleDelete} className="px-3 py-1.5 border border-red-500/50 text-red-500 rounded-xl text-[9px] font-black uppercase hover:bg-red-500 hover:text-white transition-all">Delete</button>}
+              {!draft.builtin && (
+                <button onClick={handleSave} disabled={!isDirty || !draft.name.trim() || !draft.instruction.trim()} className="px-3 py-1.5 bg-cyan-600 border border-cyan-500 text-white rounded-xl text-[9px] font-black uppercase hover:bg-cyan-500 disabled:opacity-30 disabled:pointer-events-none transition-all">Save &amp; use</button>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LiveSettingsPanel;
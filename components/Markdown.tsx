@@ -0,0 +1,99 @@
+import React, { memo, useMemo } from 'react';
+import { Block, Inline, parseMarkdown } from '../utils/markdown';
+import { CodeBlock } from './CodeBlock';
+
+const HEADING_STYLES = ['text-sm font-bold', 'text-xs font-bold', 'text-[11px] font-bold', 'font-bold', 'font-bold', 'font-semibold'];
+
+const renderInline = (nodes: Inline[]): React.ReactNode[] => nodes.map((node, i) => {
+  switch (node.type) {
+    case 'text': return node.text;
+    case 'break': return <br key={i} />;
+    case 'code': return <code key={i} className="px-1 py-0.5 rounded bg-slate-800/80 border border-slate-700/60 font-mono text-[0.95em] text-cyan-200">{node.text}</code>;
+    case 'strong': return <strong key={i} className="font-bold text-white">{renderInline(node.children)}</strong>;
+    case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+    case 'del': return <del key={i} className="opacity-70">{renderInline(node.children)}</del>;
+    case 'link': return (
+      <a key={i} href={node.href} target={node.href.startsWith('#') ? undefined : '_blank'} rel="noopener noreferrer" className="text-cyan-400 underline decoration-cyan-700 hover:text-cyan-300">
+        {renderInline(node.children)}
+      </a>
+    );
+  }
+});
+
+interface BlockViewProps {
+  block: Block;
+  streaming?: boolean;
+  // The markdown the block was parsed from; only used to skip re-rendering unchanged blocks.
+  source?: string;
+}
+
+const BlockView: React.FC<BlockViewProps> = ({ block, streaming }) => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1';
+      return <Tag className={`mt-3 mb-1 text-white ${HEADING_STYLES[block.level - 1]}`}>{renderInline(block.children)}</Tag>;
+    }
+    case 'paragraph':
+      return <p className="my-1.5 leading-relaxed">{renderInline(block.children)}</p>;
+    case 'code':
+      return <CodeBlock language={block.language} code={block.code} streaming={streaming && block.open} />;
+    case 'list': {
+      const items = block.items.map((item, i) => (
+        <li key={i} className="pl-1">{item.map((b, j) => <BlockView key={j} block={b} />)}</li>
+      ));
+      return block.ordered
+        ? <ol start={block.start} className="my-1.5 pl-5 list-decimal space-y-0.5 [&_p]:my-0">{items}</ol>
+        : <ul className="my-1.5 pl-5 list-disc space-y-0.5 [&_p]:my-0">{items}</ul>;
+    }
+    case 'blockquote':
+      return <blockquote className="my-2 pl-3 border-l-2 border-slate-600 text-slate-400">{block.children.map((b, i) => <BlockView key={i} block={b} />)}</blockquote>;
+    case 'table':
+      return (
+        <div className="my-2 overflow-x-auto">
+          <table className="min-w-full border-collapse text-left">
+            <thead>
+              <tr>{block.header.map((cell, i) => <th key={i} style={{ textAlign: block.align[i] ?? undefined }} className="px-2 py-1 border-b border-slate-600 font-bold text-white">{renderInline(cell)}</th>)}</tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r} className="odd:bg-slate-900/40">
+                  {row.map((cell, i) => <td key={i} style={{ textAlign: block.align[i] ?? undefined }} className="px-2 py-1 border-b border-slate-800 align-top">{renderInline(cell)}</td>)}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'hr':
+      return <hr className="my-3 border-slate-700" />;
+  }
+};
+
+// Streaming text only ever grows at the end, so completed blocks keep their source and skip re-rendering.
+const MemoBlock = memo(BlockView, (prev, next) => prev.streaming === next.streaming && prev.source === next.source);
+
+interface MarkdownProps {
+  text: string;
+  // Partial output: the trailing code fence may still be open.
+  streaming?: boolean;
+}
+
+/** Renders model output as sanitized markdown; see utils/markdown.ts for what is supported. */
+const Markdown: React.FC<MarkdownProps> = ({ text, streaming = false }) => {
+  const blocks = useMemo(() => parseMarkdown(text), [text]);
+  return (
+    <div className="break-words">
+      {blocks.map(({ block, source }, i) => {
+        const isLast = i === blocks.length - 1;
+        return <MemoBlock key={i} block={block} source={source} streaming={streaming && isLast} />;
+      })}
+    </div>
+  );
+};
+
+export const formatMessage = (text: string, streaming = false) => {
+  if (!text) return null;
+  return <Markdown text={text} streaming={streaming} />;
+};
+
+export default Markdown;
@@ -0,0 +1,131 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ModelCapability, ModelConfig } from '../types';
+import { useEngine } from '../hooks/useEngine';
+import { modelKey, getProvider, locationLabel } from '../providers/registry';
+
+const CAPABILITIES: ModelCapability[] = ['live', 'text', 'tts', 'video'];
+
+const EMPTY_DRAFT = { name: '', baseUrl: 'http://localhost:11434/v1', id: '', apiKey: '', capabilities: ['text'] as ModelCapability[] };
+
+interface ModelPickerProps {
+  capability: ModelCapability;
+}
+
+const ModelPicker: React.FC<ModelPickerProps> = ({ capability }) => {
+  const { modelsFor, selectedModel, selectModel, customModels, saveCustomModel, removeCustomModel } = useEngine();
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<typeof EMPTY_DRAFT | null>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+
+  const active = selectedModel(capability);
+  const provider = getProvider(active);
+
+  useEffect(() => {
+    if (!open) return;
+    const onPointerDown = (e: PointerEvent) => {
+      if (!containerRef.current?.contains(e.target as Node)) { setOpen(false); setDraft(null); }
+    };
+    document.addEventListener('pointerdown', onPointerDown);
+    return () => document.removeEventListener('pointerdown', onPointerDown);
+  }, [open]);
+
+  const editModel = (m: ModelConfig) => setDraft({
+    name: m.name, baseUrl: m.endpoint?.baseUrl ?? '', id: m.id, apiKey: m.endpoint?.apiKey ?? '', capabilities: m.capabilities,
+  });
+
+  const handleSave = () => {
+    if (!draft || !draft.id.trim() || !draft.baseUrl.trim()) return;
+    const model: ModelConfig = {
+      id: draft.id.trim(),
+      name: draft.name.trim() || draft.id.trim(),
+      provider: 'openai-compatible',
+      capabilities: draft.capabilities.filter(c => c !== 'live'),
+      endpoint: { baseUrl: draft.baseUrl.trim(), apiKey: draft.apiKey.trim() || undefined },
+    };
+    saveCustomModel(model);
+    if (model.capabilities.includes(capability)) selectModel(capability, modelKey(model));
+    setDraft(null);
+  };
+
+  const inputClass = 'w-full bg-slate-950 border border-slate-700 rounded-lg px-2 py-1 text-[10px] text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-cyan-500/50';
+
+  return (
+    <div ref={containerRef} className="relative flex items-center gap-6">
+      <div className="flex flex-col items-end">
+        <span className="text-[8px] text-slate-600 font-bold uppercase tracking-widest">Latency Mode</span>
+        <span className="text-[10px] font-black tracking-widest text-cyan-400">
+          {locationLabel(active)}
+        </span>
+      </div>
+      <div className="h-6 w-[1px] bg-slate-800"></div>
+      <button
+        onClick={() => setOpen(o => !o)}
+        className="px-2 py-0.5 rounded text-[10px] font-black border transition-all border-cyan-500/20 text-cyan-500 bg-cyan-500/5 hover:border-cyan-500/60 uppercase"
+        title={active.id}
+      >
+        {provider.label} · {active.name}
+      </button>
+
+      {open && (
+        <div className="absolute right-0 top-full mt-3 w-80 bg-slate-900 border border-slate-700 rounded-2xl shadow-2xl z-50 overflow-hidden">
+          <div className="px-4 py-2 border-b border-slate-800 text-[8px] font-black uppercase tracking-widest text-slate-500">{capability} engine</div>
+          <div className="max-h-72 overflow-y-auto">
+            {modelsFor(capability).map(m => {
+              const key = modelKey(m);
+              const isCustom = customModels.some(c => modelKey(c) === key);
+              return (
+                <div key={key} className={`group flex items-center gap-2 px-4 py-2 cursor-pointer transition-colors ${modelKey(active) === key ? 'bg-cyan-950/40' : 'hover:bg-slate-800/60'}`} onClick={() => { selectModel(capability, key); setOpen(false); }}>
+                  <div className="flex-1 min-w-0">
+                    <div className="text-[10px] font-bold text-slate-200 truncate">{m.name}</div>
+                    <div className="text-[8px] text-slate-500 truncate">{getProvider(m).label} · {m.endpoint?.baseUrl ?? m.id}</div>
+                  </div>
+                  {isCustom && (
+                    <div className="flex gap-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button onClick={e => { e.stopPropagation(); editModel(m); }} className="text-[8px] font-black uppercase text-slate-500 hover:text-cyan-400">Edit</button>
+                      <button onClick={e => { e.stopPropagation(); removeCustomModel(key); }} className="text-[8px] font-black uppercase text-slate-500 hover:text-red-500">Remove</button>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            {modelsFor(capability).length === 0 && (
+              <p className="px-4 py-3 text-[9px] text-slate-600">No models support this module yet.</p>
+            )}
+          </div>
+
+          {draft ? (
+            <div className="p-4 border-t border-slate-800 space-y-2">
+              <span className="text-[8px] font-black uppercase tracking-widest text-slate-500">OpenAI-compatible endpoint</span>
+              <input className={inputClass} placeholder="Display name" value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} />
+              <input className={inputClass} placeholder="Base URL (e.g. http://localhost:8080/v1)" value={draft.baseUrl} onChange={e => setDraft({ ...draft, baseUrl: e.target.value })} />
+              <input className={inputClass} placeholder="Model id" value={draft.id} onChange={e => setDraft({ ...draft, id: e.target.value })} />
+              <input className={inputClass} placeholder="API key (optional)" type="password" value={draft.apiKey} onChange={e => setDraft({ ...draft, apiKey: e.target.value })} />
+              <div className="flex gap-3">
+                {CAPABILITIES.filter(c => c !== 'live').map(c => (
+                  <label key={c} className="flex items-center gap-1 text-[9px] uppercase text-slate-400">
+                    <input
+                      type="checkbox"
+                      checked={draft.capabilities.includes(c)}
+                      onChange={e => setDraft({ ...draft, capabilities: e.target.checked ? [...draft.capabilities, c] : draft.capabilities.filter(x => x !== c) })}
+                    />
+                    {c}
+                  </label>
+                ))}
+              </div>
+              <div className="flex gap-2 pt-1">
+                <button onClick={handleSave} className="flex-1 py-1.5 bg-cyan-600 text-white rounded-lg text-[9px] font-black uppercase hover:bg-cyan-500 transition-all">Save</button>
+                <button onClick={() => setDraft(null)} className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-lg text-[9px] font-black uppercase hover:text-white transition-all">Cancel</button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={() => setDraft(EMPTY_DRAFT)} className="w-full px-4 py-2 border-t border-slate-800 text-left text-[9px] font-black uppercase tracking-widest text-cyan-500 hover:bg-slate-800/60 transition-colors">
+              + Add OpenAI-compatible endpoint
+            </button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ModelPicker;
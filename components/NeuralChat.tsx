@@ -0,0 +1,198 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { ChatMessage, SessionRecord } from '../types';
+import { useActiveModel } from '../hooks/useEngine';
+import { useLocalEngine } from '../hooks/useLocalEngine';
+import { loadLocalModel, setPreferWasm, interruptLocalGeneration } from '../providers/local';
+import { listSessions } from '../utils/session-store';
+import { toMarkdown } from '../utils/transcript-export';
+import { formatMessage } from './Markdown';
+
+const CHAT_INSTRUCTION = `You are ANA, a Senior Technical Solutions Architect.
+Answer the user's technical questions concisely and precisely. Format code in markdown code blocks.
+When a session transcript is attached, ground your answers in it and quote the relevant lines.`;
+
+const LocalEngineStatus: React.FC<{ onLoad: () => void }> = ({ onLoad }) => {
+  const engine = useLocalEngine();
+  return (
+    <div className="flex flex-wrap items-center gap-4 px-4 py-2 border-b border-slate-800 bg-black/20 text-[9px] font-black uppercase tracking-widest">
+      <span className={engine.status === 'error' ? 'text-red-500' : 'text-slate-500'}>
+        Local core: {engine.status}{engine.device ? ` · ${engine.device}` : ''}
+      </span>
+      {engine.status === 'loading' && (
+        <div className="flex items-center gap-2 flex-1 min-w-[120px]">
+          <div className="flex-1 h-1 bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-cyan-500 transition-all" style={{ width: `${Math.round(engine.progress * 100)}%` }} />
+          </div>
+          <span className="text-cyan-400">{Math.round(engine.progress * 100)}%</span>
+        </div>
+      )}
+      {engine.tokensPerSecond !== null && <span className="text-cyan-400">{engine.tokensPerSecond.toFixed(1)} tok/s</span>}
+      <label className="flex items-center gap-1 text-slate-500 normal-case tracking-normal font-bold">
+        <input type="checkbox" checked={engine.preferWasm} onChange={e => setPreferWasm(e.target.checked)} disabled={engine.status === 'loading' || engine.status === 'generating'} />
+        CPU only (WASM)
+      </label>
+      {(engine.status === 'idle' || engine.status === 'error') && (
+        <button onClick={onLoad} className="ml-auto text-cyan-500 hover:text-cyan-400 transition-colors">Load model</button>
+      )}
+      {engine.error && <span className="w-full text-red-500 normal-case tracking-normal font-bold">{engine.error}</span>}
+    </div>
+  );
+};
+
+const NeuralChat: React.FC = () => {
+  const { model, provider } = useActiveModel('text');
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
+  const [draft, setDraft] = useState('');
+  const [streaming, setStreaming] = useState<string | null>(null);
+  const [errorMsg, setErrorMsg] = useState<string | null>(null);
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [attachedId, setAttachedId] = useState('');
+  const chatContainerRef = useRef<HTMLDivElement>(null);
+  // Bumped to discard the in-flight reply when the user stops or clears
+  const generationRef = useRef(0);
+
+  const isLocal = model.provider === 'local';
+  const attached = sessions.find(s => s.id === attachedId) ?? null;
+
+  useEffect(() => {
+    if (chatContainerRef.current) chatContainerRef.current.scrollTop = chatContainerRef.current.scrollHeight;
+  }, [messages, streaming]);
+
+  const refreshSessions = () => {
+    listSessions().then(setSessions).catch(err => console.error('Session history error:', err));
+  };
+  useEffect(refreshSessions, []);
+
+  const handleLoad = () => {
+    loadLocalModel(model).catch(err => console.error('Local model load error:', err));
+  };
+
+  const handleSend = async () => {
+    const text = draft.trim();
+    if (!text || streaming !== null) return;
+    const history: ChatMessage[] = [...messages, { role: 'user', text }];
+    setMessages(history);
+    setDraft('');
+    setErrorMsg(null);
+    setStreaming('');
+    const generation = ++generationRef.current;
+
+    const systemInstruction = attached
+      ? `${CHAT_INSTRUCTION}\n\n--- Attached session transcript ---\n${toMarkdown(attached)}`
+      : CHAT_INSTRUCTION;
+
+    try {
+      let partial = '';
+      const reply = await provider.generateText(model, {
+        messages: history,
+        systemInstruction,
+        onChunk: chunk => {
+          if (generation !== generationRef.current) return;
+          partial += chunk;
+          setStreaming(partial);
+        },
+      });
+      if (generation !== generationRef.current) return;
+      setMessages(m => [...m, { role: 'model', text: reply || partial }]);
+    } catch (err) {
+      if (generation !== generationRef.current) return;
+      console.error('Chat error:', err);
+      setErrorMsg(err instanceof Error ? err.message : 'Generation failed');
+    } finally {
+      if (generation === generationRef.current) setStreaming(null);
+    }
+  };
+
+  const handleStop = () => {
+    if (isLocal) {
+      // The worker finishes early and the partial reply is kept.
+      interruptLocalGeneration();
+      return;
+    }
+    generationRef.current++;
+    if (streaming) setMessages(m => [...m, { role: 'model', text: streaming }]);
+    setStreaming(null);
+  };
+
+  const handleClear = () => {
+    generationRef.current++;
+    if (isLocal && streaming !== null) interruptLocalGeneration();
+    setMessages([]);
+    setStreaming(null);
+    setErrorMsg(null);
+  };
+
+  return (
+    <div className="flex flex-col h-full bg-slate-950 p-4 md:p-6 overflow-hidden font-mono-code">
+      <div className="flex-1 flex flex-col min-h-0 max-w-4xl w-full mx-auto bg-slate-900/40 border border-slate-800 rounded-[2rem] shadow-2xl backdrop-blur-md overflow-hidden">
+        <div className="p-4 border-b border-slate-800 bg-black/20 flex items-center gap-3 shrink-0">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Neural chat</span>
+          <span className="text-[9px] text-slate-600 truncate">{model.name}</span>
+          <select
+            value={attachedId}
+            onFocus={refreshSessions}
+            onChange={e => setAttachedId(e.target.value)}
+            className="ml-auto max-w-[220px] bg-slate-900 border border-slate-800 rounded-lg px-2 py-1 text-[9px] text-slate-400 focus:outline-none focus:border-cyan-500/50"
+          >
+            <option value="">No transcript attached</option>
+            {sessions.map(s => (
+              <option key={s.id} value={s.id}>{new Date(s.startedAt).toLocaleString()} · {s.transcript.length} turns</option>
+            ))}
+          </select>
+          <button onClick={handleClear} disabled={messages.length === 0 && streaming === null} className="text-[8px] font-black uppercase tracking-widest text-slate-500 hover:text-white disabled:text-slate-700 disabled:pointer-events-none transition-colors">Clear</button>
+        </div>
+
+        {isLocal && <LocalEngineStatus onLoad={handleLoad} />}
+
+        <div ref={chatContainerRef} className="flex-1 overflow-y-auto p-4 space-y-4 scroll-smooth">
+          {messages.length === 0 && streaming === null && (
+            <div className="h-full flex items-center justify-center">
+              <p className="text-[10px] font-black text-slate-700 uppercase tracking-[0.4em] text-center">
+                {isLocal ? 'Runs entirely on this device' : 'Ask about a session or paste an error'}
+              </p>
+            </div>
+          )}
+          {messages.map((t, i) => (
+            <div key={i} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start'}`}>
+              <span className={`text-[8px] font-black uppercase mb-1 ${t.role === 'user' ? 'text-blue-500' : 'text-cyan-500'}`}>{t.role}</span>
+              <div className={`max-w-[90%] text-[10px] p-3 rounded-2xl border ${t.role === 'user' ? 'bg-slate-800/60 border-slate-700 text-slate-300' : 'bg-cyan-950/10 border-cyan-800/40 text-cyan-100'}`}>
+                {formatMessage(t.text)}
+              </div>
+            </div>
+          ))}
+          {streaming !== null && (
+            <div className="flex flex-col items-start">
+              <span className="mb-1 text-[8px] font-black uppercase text-cyan-500 animate-pulse">ANA (Thinking)</span>
+              <div className="max-w-[90%] text-[10px] p-3 rounded-2xl border border-dashed border-cyan-800/40 text-cyan-100/80">
+                {formatMessage(streaming, true) ?? '...'}
+              </div>
+            </div>
+          )}
+          {errorMsg && (
+            <div className="p-3 bg-red-950/40 border border-red-500/50 rounded-xl text-red-500 text-[10px] font-black uppercase text-center">{errorMsg}</div>
+          )}
+        </div>
+
+        <div className="border-t border-slate-800 bg-black/30 p-4 flex gap-3 shrink-0">
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); }
+            }}
+            rows={2}
+            placeholder="Ask a question (Shift+Enter for a new line)..."
+            className="flex-1 bg-slate-900 border border-slate-800 rounded-xl px-3 py-2 text-[10px] text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-cyan-500/50 resize-none"
+          />
+          {streaming !== null ? (
+            <button onClick={handleStop} className="px-5 bg-red-950/40 border border-red-500 text-red-500 rounded-xl text-[10px] font-black uppercase hover:bg-red-500 hover:text-white transition-all">Stop</button>
+          ) : (
+            <button onClick={handleSend} disabled={!draft.trim()} className="px-5 bg-cyan-600 border border-cyan-500 text-white rounded-xl text-[10px] font-black uppercase shadow-lg shadow-cyan-900/40 hover:bg-cyan-500 disabled:bg-slate-800 disabled:border-slate-700 disabled:text-slate-600 transition-all">Send</button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NeuralChat;
@@ -0,0 +1,158 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { SessionRecording } from '../types';
+import { activeEntryIndex, entryOffset, exportRecording } from '../utils/recording-bundle';
+import { formatMessage } from './Markdown';
+
+interface RecordingReplayProps {
+  recording: SessionRecording;
+  onClose: () => void;
+}
+
+const formatClock = (ms: number) => {
+  const secs = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(secs / 60)}:${(secs % 60).toString().padStart(2, '0')}`;
+};
+
+const RecordingReplay: React.FC<RecordingReplayProps> = ({ recording, onClose }) => {
+  const { manifest } = recording;
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const timelineRef = useRef<HTMLDivElement>(null);
+  const entryRefs = useRef<(HTMLDivElement | null)[]>([]);
+  const [timeMs, setTimeMs] = useState(0);
+  const [playing, setPlaying] = useState(false);
+  const url = useMemo(() => URL.createObjectURL(recording.video), [recording.video]);
+
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  // MediaRecorder output has no duration or cues; seeking far ahead makes the browser index the
+  // file once, after which scrubbing is reliable.
+  useEffect(() => {
+    const video = videoRef.current;
+    if (!video) return;
+    const onMetadata = () => {
+      if (video.duration !== Infinity) return;
+      const reset = () => {
+        video.removeEventListener('durationchange', reset);
+        video.currentTime = 0;
+      };
+      video.addEventListener('durationchange', reset);
+      video.currentTime = 1e101;
+    };
+    video.addEventListener('loadedmetadata', onMetadata);
+    return () => video.removeEventListener('loadedmetadata', onMetadata);
+  }, [url]);
+
+  const active = activeEntryIndex(manifest.transcript, manifest.startedAt, timeMs);
+
+  useEffect(() => {
+    entryRefs.current[active]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [active]);
+
+  const seek = (ms: number) => {
+    const clamped = Math.max(0, Math.min(manifest.durationMs, ms));
+    if (videoRef.current) videoRef.current.currentTime = clamped / 1000;
+    setTimeMs(clamped);
+  };
+
+  const seekFromPointer = (clientX: number) => {
+    const rect = timelineRef.current!.getBoundingClientRect();
+    seek(((clientX - rect.left) / rect.width) * manifest.durationMs);
+  };
+
+  const handleTimelinePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    seekFromPointer(e.clientX);
+  };
+
+  const togglePlay = () => {
+    const video = videoRef.current;
+    if (!video) return;
+    if (video.paused) video.play().catch(err => console.error('Replay error:', err));
+    else video.pause();
+  };
+
+  const percent = (ms: number) => `${Math.min(100, (ms / Math.max(1, manifest.durationMs)) * 100)}%`;
+
+  return (
+    <div className="fixed inset-0 z-[110] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4 md:p-10" onClick={onClose}>
+      <div className="w-full h-full max-w-6xl bg-slate-950 border border-slate-800 rounded-[2rem] flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-800 bg-black/20 flex items-center gap-4 shrink-0">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Replay</span>
+          <span className="flex-1 text-[10px] text-slate-400">{new Date(manifest.startedAt).toLocaleString()} · {formatClock(manifest.durationMs)} · {manifest.voice}</span>
+          <button onClick={() => exportRecording(recording)} className="px-3 py-1.5 border border-cyan-500/50 text-cyan-400 rounded-xl text-[9px] font-black uppercase hover:bg-cyan-500 hover:text-white transition-all">Download bundle</button>
+          <button onClick={onClose} className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-xl text-[9px] font-black uppercase hover:text-white transition-all">Close</button>
+        </div>
+
+        <div className="flex-1 flex flex-col lg:flex-row min-h-0">
+          <div className="flex-[3] flex flex-col min-h-0 p-4 gap-3">
+            <video
+              ref={videoRef}
+              src={url}
+              playsInline
+              onClick={togglePlay}
+              onPlay={() => setPlaying(true)}
+              onPause={() => setPlaying(false)}
+              onTimeUpdate={e => {
+                // Ignore the far seek used to index the file.
+                const t = e.currentTarget.currentTime * 1000;
+                if (t <= manifest.durationMs + 1000) setTimeMs(t);
+              }}
+              className="flex-1 min-h-0 w-full bg-black rounded-2xl object-contain cursor-pointer"
+            />
+
+            <div className="flex items-center gap-3">
+              <button onClick={togglePlay} className="w-16 px-3 py-1.5 bg-cyan-600 border border-cyan-500 text-white rounded-xl text-[9px] font-black uppercase hover:bg-cyan-500 transition-all">{playing ? 'Pause' : 'Play'}</button>
+              <span className="text-[9px] font-mono text-slate-400 w-20">{formatClock(timeMs)} / {formatClock(manifest.durationMs)}</span>
+              <div
+                ref={timelineRef}
+                onPointerDown={handleTimelinePointerDown}
+                onPointerMove={e => { if (e.buttons) seekFromPointer(e.clientX); }}
+                className="relative flex-1 h-8 bg-slate-900 border border-slate-800 rounded-lg cursor-pointer touch-none select-none"
+              >
+                {manifest.frames.map((t, i) => (
+                  <div key={`f-${i}`} className="absolute bottom-0 w-px h-1.5 bg-slate-600" style={{ left: percent(t) }} />
+                ))}
+                {manifest.transcript.map((entry, i) => {
+                  const start = entryOffset(entry, manifest.startedAt);
+                  const end = Math.max(start + 300, (entry.endedAt ?? entry.timestamp) - manifest.startedAt);
+                  return (
+                    <div
+                      key={`t-${i}`}
+                      title={entry.text.slice(0, 80)}
+                      className={`absolute top-1.5 h-3 rounded-sm ${entry.role === 'user' ? 'bg-blue-500/70' : 'bg-cyan-500/70'} ${i === active ? 'ring-1 ring-white' : ''}`}
+                      style={{ left: percent(start), width: `calc(${percent(end - start)} + 1px)` }}
+                    />
+                  );
+                })}
+                <div className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: percent(timeMs) }} />
+              </div>
+            </div>
+          </div>
+
+          <div className="flex-[2] min-h-0 overflow-y-auto border-t lg:border-t-0 lg:border-l border-slate-800 p-4 space-y-3">
+            {manifest.transcript.length === 0 && (
+              <p className="text-[10px] font-black text-slate-700 uppercase tracking-widest text-center">No transcript</p>
+            )}
+            {manifest.transcript.map((t, i) => (
+              <div
+                key={i}
+                ref={el => { entryRefs.current[i] = el; }}
+                onClick={() => seek(entryOffset(t, manifest.startedAt))}
+                className={`flex flex-col cursor-pointer ${t.role === 'user' ? 'items-end' : 'items-start'} ${i === active ? '' : 'opacity-60 hover:opacity-100'}`}
+              >
+                <span className={`text-[8px] font-black uppercase mb-1 ${t.role === 'user' ? 'text-blue-500' : 'text-cyan-500'}`}>
+                  {t.role} · {formatClock(entryOffset(t, manifest.startedAt))}{t.interrupted && <span className="text-amber-500"> · interrupted</span>}
+                </span>
+                <div className={`max-w-[95%] text-[10px] p-3 rounded-2xl border ${t.role === 'user' ? 'bg-slate-800/60 border-slate-700 text-slate-300' : 'bg-cyan-950/10 border-cyan-800/40 text-cyan-100'} ${i === active ? 'ring-1 ring-cyan-500/60' : ''}`}>
+                  {formatMessage(t.text)}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecordingReplay;
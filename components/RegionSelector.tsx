@@ -0,0 +1,73 @@
+import React, { useState, useRef } from 'react';
+import { Region, elementPointToVideo, regionToElementPercent } from '../utils/frame-utils';
+
+interface RegionSelectorProps {
+  videoRef: React.RefObject<HTMLVideoElement | null>;
+  region: Region | null;
+  selecting: boolean;
+  onSelect: (region: Region | null) => void;
+}
+
+// Drags smaller than this (normalized) are treated as a click and ignored.
+const MIN_REGION_SIZE = 0.02;
+
+/** Overlay on the screen preview for dragging out a region of interest and showing the active one. */
+const RegionSelector: React.FC<RegionSelectorProps> = ({ videoRef, region, selecting, onSelect }) => {
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
+  const [draft, setDraft] = useState<Region | null>(null);
+
+  const toVideo = (e: React.PointerEvent) => {
+    const el = overlayRef.current!;
+    const video = videoRef.current!;
+    const rect = el.getBoundingClientRect();
+    return elementPointToVideo(e.clientX - rect.left, e.clientY - rect.top, rect.width, rect.height, video.videoWidth, video.videoHeight);
+  };
+
+  const spanning = (a: { x: number; y: number }, b: { x: number; y: number }): Region => ({
+    x: Math.min(a.x, b.x), y: Math.min(a.y, b.y), width: Math.abs(a.x - b.x), height: Math.abs(a.y - b.y),
+  });
+
+  const shown = draft ?? region;
+  const video = videoRef.current;
+  const el = overlayRef.current;
+  const box = shown && video?.videoWidth && el
+    ? regionToElementPercent(shown, el.clientWidth, el.clientHeight, video.videoWidth, video.videoHeight)
+    : null;
+
+  return (
+    <div
+      ref={overlayRef}
+      className={`absolute inset-0 ${selecting ? 'cursor-crosshair' : 'pointer-events-none'}`}
+      onPointerDown={e => {
+        if (!selecting || !videoRef.current?.videoWidth) return;
+        e.currentTarget.setPointerCapture(e.pointerId);
+        setDragStart(toVideo(e));
+      }}
+      onPointerMove={e => {
+        if (dragStart) setDraft(spanning(dragStart, toVideo(e)));
+      }}
+      onPointerUp={e => {
+        if (!dragStart) return;
+        const next = spanning(dragStart, toVideo(e));
+        setDragStart(null);
+        setDraft(null);
+        if (next.width >= MIN_REGION_SIZE && next.height >= MIN_REGION_SIZE) onSelect(next);
+      }}
+    >
+      {box && (
+        <div
+          className="absolute border-2 border-amber-400 bg-amber-400/5 shadow-[0_0_0_9999px_rgba(2,6,23,0.55)] rounded-sm"
+          style={{ left: `${box.left}%`, top: `${box.top}%`, width: `${box.width}%`, height: `${box.height}%` }}
+        />
+      )}
+      {selecting && !shown && (
+        <div className="absolute inset-0 flex items-center justify-center">
+          <span className="px-3 py-1 rounded-full bg-black/60 text-[9px] font-black uppercase tracking-widest text-amber-400">Drag to select a region</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RegionSelector;
@@ -0,0 +1,81 @@
+import React from 'react';
+import { ScriptLine } from '../utils/speech-text';
+
+interface ScriptEditorProps {
+  script: string;
+  onScriptChange: (script: string) => void;
+  lines: ScriptLine[];
+  speakers: string[];
+  // Resolved voice for every speaker in `speakers`.
+  cast: Record<string, string>;
+  voices: string[];
+  maxSpeakers: number;
+  onVoiceChange: (speaker: string, voice: string) => void;
+}
+
+const SPEAKER_COLORS = ['text-blue-400', 'text-purple-400', 'text-emerald-400', 'text-amber-400', 'text-pink-400', 'text-cyan-400'];
+
+const PLACEHOLDER = `Host: Welcome to the incident review.
+Engineer: Thanks. At 09:14 the deploy started failing health checks.
+Host: What did we change?`;
+
+const ScriptEditor: React.FC<ScriptEditorProps> = ({ script, onScriptChange, lines, speakers, cast, voices, maxSpeakers, onVoiceChange }) => {
+  const colorOf = (speaker: string) => SPEAKER_COLORS[speakers.indexOf(speaker) % SPEAKER_COLORS.length];
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <label className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Script</label>
+        <textarea
+          value={script}
+          onChange={e => onScriptChange(e.target.value)}
+          placeholder={PLACEHOLDER}
+          className="w-full h-48 bg-slate-800/50 border border-slate-700 rounded-2xl p-4 font-mono text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all resize-y"
+        />
+        <p className="text-xs text-slate-500">One line per turn as <code className="text-slate-400">Speaker: line</code>. Lines without a name continue the previous turn.</p>
+      </div>
+
+      {speakers.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Cast</label>
+          <div className="flex flex-wrap gap-3">
+            {speakers.map(speaker => (
+              <label key={speaker} className="flex items-center gap-2 px-3 py-2 bg-slate-800 border border-slate-700 rounded-xl text-sm">
+                <span className={`font-semibold ${colorOf(speaker)}`}>{speaker}</span>
+                <select
+                  value={cast[speaker]}
+                  onChange={e => onVoiceChange(speaker, e.target.value)}
+                  className="bg-slate-900 border border-slate-700 rounded-lg px-2 py-1 text-slate-300 focus:outline-none focus:border-blue-500/50"
+                >
+                  {voices.map(v => <option key={v} value={v}>{v}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+          {speakers.length > maxSpeakers && maxSpeakers > 1 && (
+            <p className="text-xs text-amber-400">
+              This engine voices up to {maxSpeakers} speakers per request, so each speaker's lines are synthesized separately and joined.
+            </p>
+          )}
+        </div>
+      )}
+
+      {lines.length > 0 && (
+        <div className="space-y-2">
+          <label className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Preview</label>
+          <div className="max-h-64 overflow-y-auto space-y-1 bg-slate-950 border border-slate-800 rounded-2xl p-3">
+            {lines.map((line, i) => (
+              <div key={i} className="flex gap-3 text-sm">
+                <span className={`w-28 shrink-0 truncate font-semibold ${colorOf(line.speaker)}`} title={line.speaker}>{line.speaker}</span>
+                <span className="w-16 shrink-0 text-xs text-slate-500 pt-0.5">{cast[line.speaker]}</span>
+                <span className="text-slate-300">{line.text}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ScriptEditor;
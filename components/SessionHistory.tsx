@@ -0,0 +1,209 @@
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { SessionRecord, SessionRecording } from '../types';
+import { listSessions, deleteSession, clearSessions, matchesQuery, listRecordings } from '../utils/session-store';
+import { readRecordingBundle } from '../utils/recording-bundle';
+import RecordingReplay from './RecordingReplay';
+import { formatMessage } from './Markdown';
+import ExportMenu from './ExportMenu';
+
+interface SessionHistoryProps {
+  onClose: () => void;
+}
+
+const formatDateTime = (ts: number) => new Date(ts).toLocaleString();
+
+const formatSpan = (ms: number) => {
+  const secs = Math.max(0, Math.round(ms / 1000));
+  const m = Math.floor(secs / 60);
+  return `${m}m ${(secs % 60).toString().padStart(2, '0')}s`;
+};
+
+const formatDuration = (record: SessionRecord) => {
+  if (!record.endedAt) return 'in progress';
+  return formatSpan(record.endedAt - record.startedAt);
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({ onClose }) => {
+  const [sessions, setSessions] = useState<SessionRecord[]>([]);
+  const [query, setQuery] = useState('');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [replay, setReplay] = useState<SessionRecording | null>(null);
+  const [recordings, setRecordings] = useState<SessionRecording[]>([]);
+  const bundleInputRef = useRef<HTMLInputElement>(null);
+
+  const refresh = useCallback(async () => {
+    try {
+      setSessions(await listSessions());
+      setLoadError(null);
+    } catch (err) {
+      console.error('Session history error:', err);
+      setLoadError('Local session storage is unavailable.');
+    }
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const filtered = useMemo(() => sessions.filter(s => matchesQuery(s, query)), [sessions, query]);
+  const selected = sessions.find(s => s.id === selectedId) ?? null;
+  const selectedRecorded = !!selected?.recorded;
+
+  useEffect(() => {
+    setRecordings([]);
+    if (!selectedId || !selectedRecorded) return;
+    let cancelled = false;
+    listRecordings(selectedId)
+      .then(list => {
+        if (cancelled) return;
+        setRecordings(list);
+        if (list.length === 0) setLoadError('The recordings for this session are missing.');
+      })
+      .catch(err => {
+        console.error('Recording load error:', err);
+        if (!cancelled) setLoadError('The recordings could not be loaded.');
+      });
+    return () => { cancelled = true; };
+  }, [selectedId, selectedRecorded]);
+
+  const handleDelete = async (id: string) => {
+    await deleteSession(id);
+    if (selectedId === id) setSelectedId(null);
+    refresh();
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm('Delete all saved sessions? This cannot be undone.')) return;
+    await clearSessions();
+    setSelectedId(null);
+    refresh();
+  };
+
+  // Opens a bundle downloaded elsewhere, e.g. shared by a teammate.
+  const handleOpenBundle = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files ?? []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    try {
+      setReplay(await readRecordingBundle(files));
+      setLoadError(null);
+    } catch (err) {
+      setLoadError(err instanceof Error ? err.message : 'The recording could not be opened.');
+    }
+  };
+
+  return (
+    <>
+    {replay && <RecordingReplay recording={replay} onClose={() => setReplay(null)} />}
+    <div className="fixed inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 md:p-10" onClick={onClose}>
+      <div className="w-full h-full max-w-6xl bg-slate-950 border border-slate-800 rounded-[2rem] flex flex-col overflow-hidden shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-4 border-b border-slate-800 bg-black/20 flex items-center gap-4 shrink-0">
+          <span className="text-[9px] font-black text-slate-500 uppercase tracking-widest">Session archive</span>
+          <input
+            value={query}
+            onChange={e => setQuery(e.target.value)}
+            placeholder="Search transcripts..."
+            className="flex-1 bg-slate-900 border border-slate-800 rounded-xl px-3 py-1.5 text-[10px] text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-cyan-500/50"
+          />
+          <button onClick={() => bundleInputRef.current?.click()} className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-xl text-[9px] font-black uppercase hover:text-white transition-all">Open recording</button>
+          <input ref={bundleInputRef} type="file" multiple accept=".webm,.json,video/webm,application/json" onChange={handleOpenBundle} className="hidden" />
+          <button onClick={handleClear} disabled={sessions.length === 0} className="px-3 py-1.5 border border-red-500/50 text-red-500 rounded-xl text-[9px] font-black uppercase hover:bg-red-500 hover:text-white disabled:opacity-30 disabled:pointer-events-none transition-all">Clear all</button>
+          <button onClick={onClose} className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-xl text-[9px] font-black uppercase hover:text-white transition-all">Close</button>
+        </div>
+
+        {loadError && (
+          <div className="m-4 p-3 bg-red-950/40 border border-red-500/50 rounded-xl text-red-500 text-[10px] font-black uppercase text-center">{loadError}</div>
+        )}
+
+        <div className="flex-1 flex min-h-0">
+          <div className="w-72 shrink-0 border-r border-slate-800 overflow-y-auto">
+            {filtered.length === 0 && (
+              <p className="p-6 text-[10px] font-black text-slate-700 uppercase tracking-widest text-center">
+                {sessions.length === 0 ? 'No saved sessions' : 'No matches'}
+              </p>
+            )}
+            {filtered.map(s => (
+              <div
+                key={s.id}
+                onClick={() => setSelectedId(s.id)}
+                className={`group px-4 py-3 border-b border-slate-900 cursor-pointer transition-colors ${selectedId === s.id ? 'bg-cyan-950/30' : 'hover:bg-slate-900/60'}`}
+              >
+                <div className="flex items-center justify-between gap-2">
+                  <span className="text-[10px] font-bold text-slate-300">{formatDateTime(s.startedAt)}</span>
+                  <button
+                    onClick={e => { e.stopPropagation(); handleDelete(s.id); }}
+                    className="text-[8px] font-black uppercase text-slate-600 hover:text-red-500 opacity-0 group-hover:opacity-100 transition-all"
+                  >
+                    Delete
+                  </button>
+                </div>
+                <div className="mt-1 flex gap-2 text-[8px] font-black uppercase text-slate-600">
+                  <span>{s.voice}</span>
+                  <span>{formatDuration(s)}</span>
+                  <span>{s.transcript.length} turns</span>
+                  {s.recorded && <span className="text-red-500">rec</span>}
+                </div>
+                <p className="mt-1 text-[9px] text-slate-500 truncate">{s.transcript[0]?.text || '—'}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-6">
+            {selected ? (
+              <div className="space-y-4">
+                <div className="pb-4 border-b border-slate-800 space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="px-2 py-0.5 rounded text-[8px] font-black border border-slate-700 text-slate-500 uppercase">Read-only</span>
+                    <span className="flex-1 text-[10px] text-slate-400">{formatDateTime(selected.startedAt)} · {formatDuration(selected)} · {selected.voice}</span>
+                    <ExportMenu session={selected} />
+                  </div>
+                  <details className="text-[9px] text-slate-500">
+                    <summary className="cursor-pointer uppercase font-black tracking-widest">System instruction</summary>
+                    <p className="mt-2 whitespace-pre-wrap">{selected.systemInstruction}</p>
+                  </details>
+                  {recordings.length > 0 && (
+                    <div className="pt-2 space-y-1">
+                      <span className="block text-[8px] font-black uppercase text-red-500">Recordings</span>
+                      {recordings.map(r => (
+                        <button
+                          key={r.id}
+                          onClick={() => setReplay(r)}
+                          className="flex gap-2 text-[9px] text-slate-400 hover:text-red-300 transition-colors"
+                        >
+                          <span className="font-black uppercase tracking-widest text-red-400">Replay</span>
+                          <span>{new Date(r.manifest.startedAt).toLocaleTimeString()} · {formatSpan(r.manifest.durationMs)}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                  {selected.pinnedNotes && selected.pinnedNotes.length > 0 && (
+                    <div className="pt-2 space-y-1">
+                      <span className="block text-[8px] font-black uppercase text-amber-500">Pinned</span>
+                      {selected.pinnedNotes.map((note, i) => (
+                        <p key={i} className="text-[10px] text-amber-100 whitespace-pre-wrap">{note}</p>
+                      ))}
+                    </div>
+                  )}
+                </div>
+                {selected.transcript.map((t, i) => (
+                  <div key={i} className={`flex flex-col ${t.role === 'user' ? 'items-end' : 'items-start'}`}>
+                    <span className={`text-[8px] font-black uppercase mb-1 ${t.role === 'user' ? 'text-blue-500' : 'text-cyan-500'}`}>{t.role} · {new Date(t.timestamp).toLocaleTimeString()}{t.interrupted && <span className="text-amber-500"> · interrupted</span>}</span>
+                    <div className={`max-w-[90%] text-[10px] p-3 rounded-2xl border ${t.role === 'user' ? 'bg-slate-800/60 border-slate-700 text-slate-300' : 'bg-cyan-950/10 border-cyan-800/40 text-cyan-100'}`}>
+                      {formatMessage(t.text)}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <div className="h-full flex items-center justify-center">
+                <p className="text-[10px] font-black text-slate-700 uppercase tracking-[0.4em]">Select a session</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+    </>
+  );
+};
+
+export default SessionHistory;
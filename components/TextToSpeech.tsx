@@ -1,103 +1,129 @@
 
-import React, { useState, useRef } from 'react';
-import { GoogleGenAI, Modality } from '@google/genai';
-import { decode, decodeAudioData } from '../utils/audio-utils';
+import React, { useState, useEffect, useMemo } from 'react';
+import { useActiveModel } from '../hooks/useEngine';
+import { useLongFormSpeech } from '../hooks/useLongFormSpeech';
+import { parseScript, planScriptSynthesis, scriptSpeakers, splitSpeechText } from '../utils/speech-text';
+import { formatTimestamp } from '../utils/video-timeline';
+import ErrorNotice from './ErrorNotice';
+import ScriptEditor from './ScriptEditor';
 
-const VOICES = ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'];
+type SpeechMode = 'text' | 'dialogue';
 
 const TextToSpeech: React.FC = () => {
+  const { model, provider } = useActiveModel('tts');
   const [text, setText] = useState('');
-  const [voice, setVoice] = useState('Kore');
-  const [isSynthesizing, setIsSynthesizing] = useState(false);
-  const audioCtxRef = useRef<AudioContext | null>(null);
-
-  const handleSynthesize = async () => {
-    if (!text.trim()) return;
-    
-    setIsSynthesizing(true);
-    try {
-      if (!audioCtxRef.current) {
-        audioCtxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-      }
-
-      // Initialize strictly with process.env.API_KEY as per guidelines
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      const response = await ai.models.generateContent({
-        model: "gemini-2.5-flash-preview-tts",
-        contents: [{ parts: [{ text: `Say this naturally: ${text}` }] }],
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: {
-            voiceConfig: {
-              prebuiltVoiceConfig: { voiceName: voice },
-            },
-          },
-        },
-      });
-
-      const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
-      if (base64Audio) {
-        const audioBuffer = await decodeAudioData(decode(base64Audio), audioCtxRef.current, 24000, 1);
-        const source = audioCtxRef.current.createBufferSource();
-        source.buffer = audioBuffer;
-        source.connect(audioCtxRef.current.destination);
-        source.start();
-      }
-    } catch (err) {
-      console.error('TTS Error:', err);
-    } finally {
-      setIsSynthesizing(false);
-    }
+  const [voice, setVoice] = useState(provider.voices[0]);
+  const [mode, setMode] = useState<SpeechMode>('text');
+  const [script, setScript] = useState('');
+  const [speakerVoices, setSpeakerVoices] = useState<Record<string, string>>({});
+  const speech = useLongFormSpeech(model, provider);
+
+  const lines = useMemo(() => parseScript(script), [script]);
+  const speakers = scriptSpeakers(lines);
+  // Unassigned speakers get distinct voices in order of appearance.
+  const cast = Object.fromEntries(speakers.map((speaker, i) => [
+    speaker,
+    provider.voices.includes(speakerVoices[speaker]) ? speakerVoices[speaker] : provider.voices[i % provider.voices.length],
+  ]));
+
+  // Voice names are provider-specific; keep the selection valid when the engine changes
+  useEffect(() => {
+    if (!provider.voices.includes(voice)) setVoice(provider.voices[0]);
+  }, [provider, voice]);
+
+  const handleSynthesize = () => {
+    speech.synthesize(mode === 'dialogue'
+      ? planScriptSynthesis(lines, cast, provider.maxSpeakers)
+      : splitSpeechText(text).map(chunk => ({ text: chunk, voice })));
   };
 
+  const canSynthesize = mode === 'dialogue' ? lines.length > 0 : text.trim() !== '';
+
+  const isPlaying = speech.playback === 'playing' || speech.playback === 'buffering';
+  const hasAudio = speech.total > 0;
+
   return (
     <div className="flex flex-col h-full bg-slate-950 p-6">
       <div className="max-w-3xl mx-auto w-full space-y-8">
         <div>
           <h2 className="text-3xl font-bold text-white mb-2">Voice Synthesis</h2>
-          <p className="text-slate-400">High-fidelity text-to-speech powered by Gemini 2.5 Flash.</p>
+          <p className="text-slate-400">High-fidelity text-to-speech powered by {model.name}.</p>
         </div>
 
         <div className="bg-slate-900 border border-slate-800 rounded-3xl p-8 space-y-6 shadow-2xl">
-          <div className="space-y-2">
-            <label className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Target Text</label>
-            <textarea
-              value={text}
-              onChange={(e) => setText(e.target.value)}
-              placeholder="Type or paste text here to synthesize into human-like speech..."
-              className="w-full h-48 bg-slate-800/50 border border-slate-700 rounded-2xl p-4 text-slate-200 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all resize-none"
-            />
+          <div className="flex gap-2 p-1 bg-slate-800 border border-slate-700 rounded-xl w-fit">
+            {(['text', 'dialogue'] as const).map(m => (
+              <button
+                key={m}
+                onClick={() => setMode(m)}
+                className={`px-4 py-2 rounded-lg text-sm font-medium capitalize transition-all ${
+                  mode === m ? 'bg-blue-600 text-white shadow-lg' : 'text-slate-400 hover:text-slate-200'
+                }`}
+              >
+                {m}
+              </button>
+            ))}
           </div>
 
-          <div className="flex flex-wrap items-end justify-between gap-6">
+          {mode === 'dialogue' ? (
+            <ScriptEditor
+              script={script}
+              onScriptChange={setScript}
+              lines={lines}
+              speakers={speakers}
+              cast={cast}
+              voices={provider.voices}
+              maxSpeakers={provider.maxSpeakers}
+              onVoiceChange={(speaker, v) => setSpeakerVoices(current => ({ ...current, [speaker]: v }))}
+            />
+          ) : (
             <div className="space-y-2">
-              <label className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Voice Character</label>
-              <div className="flex gap-2 p-1 bg-slate-800 border border-slate-700 rounded-xl">
-                {VOICES.map((v) => (
-                  <button
-                    key={v}
-                    onClick={() => setVoice(v)}
-                    className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
-                      voice === v 
-                        ? 'bg-blue-600 text-white shadow-lg' 
-                        : 'text-slate-400 hover:text-slate-200'
-                    }`}
-                  >
-                    {v}
-                  </button>
-                ))}
-              </div>
+              <label className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Target Text</label>
+              <textarea
+                value={text}
+                onChange={(e) => setText(e.target.value)}
+                placeholder="Type or paste text here to synthesize into human-like speech..."
+                className="w-full h-48 bg-slate-800/50 border border-slate-700 rounded-2xl p-4 text-slate-200 placeholder:text-slate-600 focus:outline-none focus:ring-2 focus:ring-blue-500/50 transition-all resize-y"
+              />
+              <p className="text-xs text-slate-500 text-right">{text.length.toLocaleString()} characters</p>
             </div>
+          )}
+
+          <div className="flex flex-wrap items-end justify-between gap-6">
+            {mode === 'text' ? (
+              <div className="space-y-2">
+                <label className="text-sm font-semibold text-slate-400 uppercase tracking-wider">Voice Character</label>
+                <div className="flex gap-2 p-1 bg-slate-800 border border-slate-700 rounded-xl">
+                  {provider.voices.map((v) => (
+                    <button
+                      key={v}
+                      onClick={() => setVoice(v)}
+                      className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                        voice === v 
+                          ? 'bg-blue-600 text-white shadow-lg' 
+                          : 'text-slate-400 hover:text-slate-200'
+                      }`}
+                    >
+                      {v}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500">
+                {lines.length} lines · {speakers.length} {speakers.length === 1 ? 'speaker' : 'speakers'}
+              </p>
+            )}
 
             <button
               onClick={handleSynthesize}
-              disabled={isSynthesizing || !text.trim()}
+              disabled={speech.isSynthesizing || !canSynthesize}
               className="flex-1 md:flex-none px-8 py-3 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 text-white rounded-xl font-bold transition-all flex items-center justify-center gap-3 shadow-lg shadow-blue-900/30"
             >
-              {isSynthesizing ? (
+              {speech.isSynthesizing ? (
                 <>
                   <svg className="animate-spin h-5 w-5 text-white" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                  Synthesizing...
+                  Synthesizing {speech.synthesized}/{speech.total}
                 </>
               ) : (
                 <>
@@ -107,6 +133,67 @@ const TextToSpeech: React.FC = () => {
               )}
             </button>
           </div>
+
+          {speech.error && <ErrorNotice error={speech.error} onRetry={speech.resume} onDismiss={speech.dismissError} />}
+
+          {hasAudio && (
+            <div className="space-y-3 border-t border-slate-800 pt-6">
+              <div className="flex items-center gap-3">
+                <button
+                  onClick={isPlaying ? speech.pause : speech.play}
+                  className="w-10 h-10 flex items-center justify-center bg-blue-600 hover:bg-blue-500 text-white rounded-full transition-all"
+                  title={isPlaying ? 'Pause' : 'Play'}
+                >
+                  {isPlaying ? (
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M6 5h4v14H6zM14 5h4v14h-4z" /></svg>
+                  ) : (
+                    <svg className="w-5 h-5" fill="currentColor" viewBox="0 0 24 24"><path d="M8 5v14l11-7z" /></svg>
+                  )}
+                </button>
+                <button
+                  onClick={speech.stop}
+                  className="w-10 h-10 flex items-center justify-center border border-slate-700 text-slate-400 hover:text-white hover:border-slate-500 rounded-full transition-all"
+                  title="Stop"
+                >
+                  <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 24 24"><path d="M6 6h12v12H6z" /></svg>
+                </button>
+                <input
+                  type="range"
+                  min={0}
+                  max={speech.duration || 1}
+                  step={0.1}
+                  value={Math.min(speech.position, speech.duration)}
+                  onChange={e => speech.seek(Number(e.target.value))}
+                  className="flex-1 accent-blue-500"
+                />
+                <span className="text-xs font-mono text-slate-400 whitespace-nowrap">
+                  {formatTimestamp(speech.position)} / {formatTimestamp(speech.duration)}
+                </span>
+              </div>
+              <div className="flex items-center justify-between gap-4 text-xs text-slate-500">
+                <span>
+                  {speech.playback === 'buffering' && speech.isSynthesizing ? 'Waiting for the next chunk · ' : ''}
+                  {speech.synthesized} of {speech.total} chunks synthesized
+                </span>
+                <div className="flex gap-2">
+                  {speech.isSynthesizing && (
+                    <button onClick={speech.cancel} className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-lg font-bold uppercase hover:text-white hover:border-slate-500 transition-all">Cancel</button>
+                  )}
+                  {!speech.isSynthesizing && !speech.isComplete && !speech.error && (
+                    <button onClick={speech.resume} className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-lg font-bold uppercase hover:text-white hover:border-slate-500 transition-all">Continue</button>
+                  )}
+                  <button
+                    onClick={() => speech.downloadWav()}
+                    disabled={!speech.isComplete}
+                    title={speech.isComplete ? undefined : 'Available once every chunk is synthesized'}
+                    className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-lg font-bold uppercase hover:text-white hover:border-slate-500 disabled:opacity-30 transition-all"
+                  >
+                    Download WAV
+                  </button>
+                </div>
+              </div>
+            </div>
+          )}
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
@@ -0,0 +1,118 @@
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { VideoTimeline, SegmentImportance } from '../types';
+import { activeSegmentIndex, formatTimestamp, toWebVTT } from '../utils/video-timeline';
+import { downloadBlob } from '../utils/file-utils';
+
+interface TimelinePlayerProps {
+  file: File;
+  timeline: VideoTimeline;
+  // A new object seeks the player, e.g. from a timestamp link elsewhere on the page.
+  seekRequest?: { seconds: number } | null;
+}
+
+const IMPORTANCE_STYLES: Record<SegmentImportance, { bar: string; badge: string }> = {
+  low: { bar: 'bg-slate-600', badge: 'border-slate-700 text-slate-500' },
+  medium: { bar: 'bg-blue-500', badge: 'border-blue-500/50 text-blue-400' },
+  high: { bar: 'bg-red-500', badge: 'border-red-500/50 text-red-400' },
+};
+
+const TimelinePlayer: React.FC<TimelinePlayerProps> = ({ file, timeline, seekRequest }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const segmentRefs = useRef<(HTMLButtonElement | null)[]>([]);
+  const [time, setTime] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const url = useMemo(() => URL.createObjectURL(file), [file]);
+
+  useEffect(() => () => URL.revokeObjectURL(url), [url]);
+
+  const { segments } = timeline;
+  // The model's last timestamp can overshoot the real duration slightly.
+  const span = Math.max(duration, ...segments.map(s => s.end), 1);
+  const active = activeSegmentIndex(segments, time);
+
+  useEffect(() => {
+    segmentRefs.current[active]?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [active]);
+
+  const seek = (seconds: number) => {
+    const video = videoRef.current;
+    if (!video) return;
+    video.currentTime = seconds;
+    video.play().catch(() => {});
+  };
+
+  useEffect(() => {
+    if (!seekRequest) return;
+    seek(seekRequest.seconds);
+    videoRef.current?.scrollIntoView({ block: 'nearest', behavior: 'smooth' });
+  }, [seekRequest]);
+
+  const stem = file.name.replace(/\.[^.]+$/, '');
+  const exportJson = () =>
+    downloadBlob(new Blob([JSON.stringify(timeline, null, 2)], { type: 'application/json' }), `${stem}.timeline.json`);
+  const exportVtt = () => downloadBlob(new Blob([toWebVTT(timeline)], { type: 'text/vtt' }), `${stem}.chapters.vtt`);
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 space-y-4 shadow-2xl">
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="text-white text-lg font-bold">Timeline</h4>
+        <div className="flex gap-2">
+          <button onClick={exportJson} className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-lg text-xs font-bold uppercase hover:text-white hover:border-slate-500 transition-all">Export JSON</button>
+          <button onClick={exportVtt} className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-lg text-xs font-bold uppercase hover:text-white hover:border-slate-500 transition-all">Export WebVTT</button>
+        </div>
+      </div>
+
+      <div className="flex flex-col lg:flex-row gap-6">
+        <div className="flex-[3] space-y-3 min-w-0">
+          <video
+            ref={videoRef}
+            src={url}
+            controls
+            playsInline
+            onTimeUpdate={e => setTime(e.currentTarget.currentTime)}
+            onLoadedMetadata={e => setDuration(Number.isFinite(e.currentTarget.duration) ? e.currentTarget.duration : 0)}
+            className="w-full max-h-[420px] bg-black rounded-2xl"
+          />
+          <div className="relative h-6 bg-slate-950 border border-slate-800 rounded-lg overflow-hidden">
+            {segments.map((s, i) => (
+              <button
+                key={i}
+                onClick={() => seek(s.start)}
+                title={`${formatTimestamp(s.start)} ${s.description}`}
+                className={`absolute top-1 bottom-1 rounded-sm ${IMPORTANCE_STYLES[s.importance].bar} ${i === active ? 'ring-1 ring-white' : 'opacity-70 hover:opacity-100'}`}
+                style={{ left: `${(s.start / span) * 100}%`, width: `calc(${((s.end - s.start) / span) * 100}% - 1px)`, minWidth: 3 }}
+              />
+            ))}
+            <div className="absolute top-0 bottom-0 w-0.5 bg-white pointer-events-none" style={{ left: `${Math.min(100, (time / span) * 100)}%` }} />
+          </div>
+        </div>
+
+        <div className="flex-[2] max-h-[480px] overflow-y-auto space-y-2 pr-1">
+          {segments.length === 0 && <p className="text-slate-500 text-sm">The model returned no segments.</p>}
+          {segments.map((s, i) => (
+            <button
+              key={i}
+              ref={el => { segmentRefs.current[i] = el; }}
+              onClick={() => seek(s.start)}
+              className={`w-full text-left p-3 rounded-xl border transition-all ${i === active ? 'border-blue-500 bg-blue-600/10' : 'border-slate-800 bg-slate-950 hover:border-slate-600'}`}
+            >
+              <div className="flex items-center gap-2 mb-1">
+                <span className="text-xs font-mono text-blue-400">{formatTimestamp(s.start)}–{formatTimestamp(s.end)}</span>
+                <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase ${IMPORTANCE_STYLES[s.importance].badge}`}>{s.importance}</span>
+              </div>
+              <p className="text-sm text-slate-300">{s.description}</p>
+              {(s.objects.length > 0 || s.people.length > 0) && (
+                <div className="mt-2 flex flex-wrap gap-1">
+                  {s.people.map(p => <span key={`p-${p}`} className="px-1.5 py-0.5 rounded bg-purple-900/40 text-[10px] text-purple-300">{p}</span>)}
+                  {s.objects.map(o => <span key={`o-${o}`} className="px-1.5 py-0.5 rounded bg-slate-800 text-[10px] text-slate-400">{o}</span>)}
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TimelinePlayer;
@@ -0,0 +1,57 @@
+import React from 'react';
+import { ToolCall } from '../types';
+
+export type ToolCallStatus = 'pending' | 'running' | 'done' | 'error' | 'denied' | 'cancelled';
+
+export interface ToolCallLogEntry {
+  call: ToolCall;
+  status: ToolCallStatus;
+  requiresApproval: boolean;
+  result?: string;
+  timestamp: number;
+}
+
+const STATUS_STYLES: Record<ToolCallStatus, string> = {
+  pending: 'text-amber-400 border-amber-500/40',
+  running: 'text-cyan-400 border-cyan-500/40 animate-pulse',
+  done: 'text-green-500 border-green-500/40',
+  error: 'text-red-500 border-red-500/40',
+  denied: 'text-slate-500 border-slate-700',
+  cancelled: 'text-slate-500 border-slate-700',
+};
+
+interface ToolCallCardProps {
+  entry: ToolCallLogEntry;
+  onApprove: () => void;
+  onDeny: () => void;
+}
+
+const ToolCallCard: React.FC<ToolCallCardProps> = ({ entry, onApprove, onDeny }) => {
+  const args = Object.keys(entry.call.args).length ? JSON.stringify(entry.call.args, null, 2) : null;
+  return (
+    <div className="flex flex-col items-start animate-in fade-in slide-in-from-bottom-2 duration-300">
+      <span className="text-[8px] font-black uppercase mb-1 text-amber-500">tool call</span>
+      <div className="w-full max-w-[90%] text-[10px] p-3 rounded-2xl border border-amber-800/40 bg-amber-950/10 space-y-2">
+        <div className="flex items-center justify-between gap-2">
+          <span className="font-bold text-amber-200">{entry.call.name}</span>
+          <span className={`px-1.5 py-0.5 rounded border text-[8px] font-black uppercase ${STATUS_STYLES[entry.status]}`}>{entry.status}</span>
+        </div>
+        {args && <pre className="text-[9px] text-slate-400 whitespace-pre-wrap break-all">{args}</pre>}
+        {entry.result && (
+          <details className="text-[9px] text-slate-500">
+            <summary className="cursor-pointer uppercase font-black tracking-widest">Result</summary>
+            <pre className="mt-1 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">{entry.result}</pre>
+          </details>
+        )}
+        {entry.status === 'pending' && (
+          <div className="flex gap-2 pt-1">
+            <button onClick={onApprove} className="flex-1 py-1 bg-amber-600 text-white rounded-lg text-[9px] font-black uppercase hover:bg-amber-500 transition-all">Approve</button>
+            <button onClick={onDeny} className="flex-1 py-1 border border-slate-700 text-slate-400 rounded-lg text-[9px] font-black uppercase hover:text-white transition-all">Deny</button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ToolCallCard;
@@ -1,66 +1,92 @@
 
-import React, { useState } from 'react';
-import { GoogleGenAI } from '@google/genai';
+import React, { useState, useEffect, useMemo } from 'react';
+import { VideoAnalysisProgress } from '../types';
+import { useActiveModel } from '../hooks/useEngine';
+import { QueueItem, useVideoQueue } from '../hooks/useVideoQueue';
+import { AppError } from '../utils/errors';
+import { formatBytes, MAX_VIDEO_BYTES } from '../utils/video-files';
+import { QueueStatus } from '../utils/video-queue';
+import ErrorNotice from './ErrorNotice';
+import { TIMELINE_PROMPT, linkifyTimestamps, timeFromFragment } from '../utils/video-timeline';
+import Markdown from './Markdown';
+import TimelinePlayer from './TimelinePlayer';
+import VideoChat from './VideoChat';
+import ComparisonReport from './ComparisonReport';
+
+const PROMPT_STORAGE_KEY = 'ana.video-prompt';
+const CONCURRENCY_STORAGE_KEY = 'ana.video-concurrency';
+
+const PROGRESS_LABELS: Record<VideoAnalysisProgress['phase'], string> = {
+  uploading: 'Uploading',
+  processing: 'Processing on server',
+  analyzing: 'Scanning Frames',
+};
+
+const STATUS_STYLES: Record<QueueStatus, string> = {
+  queued: 'border-slate-700 text-slate-500',
+  running: 'border-blue-500/50 text-blue-400',
+  done: 'border-green-500/50 text-green-400',
+  failed: 'border-red-500/50 text-red-400',
+  cancelled: 'border-slate-700 text-slate-500',
+};
+
+const ProgressBar: React.FC<{ progress: VideoAnalysisProgress | null }> = ({ progress }) => (
+  <div className="space-y-1">
+    <div className="flex justify-between text-[10px] font-semibold uppercase tracking-widest text-slate-400">
+      <span>{progress ? PROGRESS_LABELS[progress.phase] : 'Checking'}{progress?.phase === 'analyzing' && progress.reusedUpload && ' · reusing upload'}</span>
+      {progress?.phase === 'uploading' && <span className="text-blue-400">{Math.round(progress.fraction * 100)}%</span>}
+    </div>
+    <div className="h-1.5 bg-slate-800 rounded-full overflow-hidden">
+      {progress?.phase === 'uploading' ? (
+        <div className="h-full bg-blue-500 transition-all" style={{ width: `${progress.fraction * 100}%` }} />
+      ) : (
+        <div className="h-full w-full bg-blue-500/60 animate-pulse" />
+      )}
+    </div>
+  </div>
+);
 
 const VideoAnalysis: React.FC = () => {
-  const [videoFile, setVideoFile] = useState<File | null>(null);
-  const [isAnalyzing, setIsAnalyzing] = useState(false);
-  const [analysis, setAnalysis] = useState<string | null>(null);
+  const { model, provider } = useActiveModel('video');
+  const [prompt, setPrompt] = useState(() => localStorage.getItem(PROMPT_STORAGE_KEY) ?? TIMELINE_PROMPT);
+  const [showPrompt, setShowPrompt] = useState(false);
+  const [concurrency, setConcurrency] = useState(() => Number(localStorage.getItem(CONCURRENCY_STORAGE_KEY)) || 2);
+  const [rejected, setRejected] = useState<AppError[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [seekRequest, setSeekRequest] = useState<{ seconds: number } | null>(null);
+  const queue = useVideoQueue(model, provider, prompt.trim() || TIMELINE_PROMPT, concurrency);
+
+  useEffect(() => {
+    if (prompt === TIMELINE_PROMPT) localStorage.removeItem(PROMPT_STORAGE_KEY);
+    else localStorage.setItem(PROMPT_STORAGE_KEY, prompt);
+  }, [prompt]);
+
+  useEffect(() => {
+    localStorage.setItem(CONCURRENCY_STORAGE_KEY, String(concurrency));
+  }, [concurrency]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    if (e.target.files?.[0]) {
-      setVideoFile(e.target.files[0]);
-    }
+    const files: File[] = Array.from(e.target.files ?? []);
+    // Allow picking the same files again after removing them.
+    e.target.value = '';
+    if (files.length === 0) return;
+    setRejected(queue.addFiles(files));
   };
 
-  const fileToBase64 = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.readAsDataURL(file);
-      reader.onload = () => resolve((reader.result as string).split(',')[1]);
-      reader.onerror = (err) => reject(err);
-    });
-  };
+  const selected: QueueItem | undefined = queue.items.find(i => i.id === selectedId) ?? queue.items[0];
+  const done = queue.items.filter(i => i.status === 'done' && i.result);
+  const hasFailed = queue.items.some(i => i.status === 'failed' || i.status === 'cancelled');
+
+  // Only a change in the finished set should reset the comparison overview.
+  const doneKey = done.map(i => `${i.id}:${i.result!.analyzedAt}`).join(',');
+  const comparisonEntries = useMemo(
+    () => done.map(i => ({ name: i.file.name, timeline: i.result!.timeline })),
+    [doneKey],
+  );
 
-  const analyzeVideo = async () => {
-    if (!videoFile) return;
-    setIsAnalyzing(true);
-    setAnalysis(null);
-
-    try {
-      const base64Data = await fileToBase64(videoFile);
-      // Initialize strictly with process.env.API_KEY as per guidelines
-      const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-      
-      const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-preview',
-        contents: [
-          {
-            parts: [
-              {
-                inlineData: {
-                  data: base64Data,
-                  mimeType: videoFile.type,
-                },
-              },
-              {
-                text: "Please analyze this video in depth. Provide a summary of events, key objects or people identified, and any significant temporal markers or transitions. Use professional bullet points.",
-              },
-            ],
-          },
-        ],
-        config: {
-          thinkingConfig: { thinkingBudget: 4000 }
-        }
-      });
-
-      setAnalysis(response.text || 'Analysis failed to return text.');
-    } catch (err) {
-      console.error('Video Analysis error:', err);
-      setAnalysis('An error occurred during video processing.');
-    } finally {
-      setIsAnalyzing(false);
-    }
+  const select = (id: string) => {
+    setSelectedId(id);
+    setSeekRequest(null);
   };
 
   return (
@@ -68,55 +94,108 @@ const VideoAnalysis: React.FC = () => {
       <div className="max-w-4xl mx-auto w-full space-y-8 pb-12">
         <div>
           <h2 className="text-3xl font-bold text-white mb-2">Deep Video Understanding</h2>
-          <p className="text-slate-400">Contextual intelligence for visual narratives powered by Gemini 3 Pro.</p>
+          <p className="text-slate-400">Contextual intelligence for visual narratives powered by {model.name}.</p>
         </div>
 
         <div className="bg-slate-900 border border-slate-800 rounded-3xl p-8 flex flex-col md:flex-row gap-8 shadow-2xl">
-          <div className="flex-1 space-y-4">
+          <div className="flex-1 space-y-4 min-w-0">
             <div className="relative group cursor-pointer border-2 border-dashed border-slate-700 rounded-2xl p-8 hover:border-blue-500/50 hover:bg-blue-600/5 transition-all text-center">
               <input
                 type="file"
                 accept="video/*"
+                multiple
                 onChange={handleFileChange}
                 className="absolute inset-0 opacity-0 cursor-pointer"
               />
               <div className="w-16 h-16 bg-slate-800 rounded-full flex items-center justify-center mx-auto mb-4 group-hover:bg-blue-600 group-hover:text-white transition-colors">
                 <svg className="w-8 h-8 text-slate-400 group-hover:text-white" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M7 16a4 4 0 01-.88-7.903A5 5 0 1115.9 6L16 6a5 5 0 011 9.9M15 13l-3-3m0 0l-3 3m3-3v12" /></svg>
               </div>
-              <h3 className="text-slate-200 font-semibold mb-1">
-                {videoFile ? videoFile.name : 'Upload Source Video'}
-              </h3>
-              <p className="text-slate-500 text-xs">MP4, MOV, or WEBM (Max 50MB recommended)</p>
+              <h3 className="text-slate-200 font-semibold mb-1">Add Source Videos</h3>
+              <p className="text-slate-500 text-xs">MP4, MOV, WEBM and more (up to {formatBytes(MAX_VIDEO_BYTES)} each)</p>
             </div>
 
-            <button
-              onClick={analyzeVideo}
-              disabled={!videoFile || isAnalyzing}
-              className="w-full px-8 py-4 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 text-white rounded-xl font-bold transition-all flex items-center justify-center gap-3 shadow-lg shadow-blue-900/30"
-            >
-              {isAnalyzing ? (
-                <>
-                  <svg className="animate-spin h-5 w-5 text-white" fill="none" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg>
-                  Processing Semantic Data...
-                </>
-              ) : (
+            {rejected.map((err, i) => (
+              <ErrorNotice key={i} error={err} onDismiss={() => setRejected(list => list.filter(e => e !== err))} />
+            ))}
+
+            <div className="space-y-2">
+              <button onClick={() => setShowPrompt(v => !v)} className="text-xs font-semibold uppercase tracking-widest text-slate-500 hover:text-white transition-colors">
+                {showPrompt ? 'Hide' : 'Edit'} analysis prompt{prompt !== TIMELINE_PROMPT && ' · custom'}
+              </button>
+              {showPrompt && (
                 <>
-                  <svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 5H7a2 2 0 00-2 2v12a2 2 0 002 2h10a2 2 0 002-2V7a2 2 0 00-2-2h-2M9 5a2 2 0 002 2h2a2 2 0 002-2M9 5a2 2 0 012-2h2a2 2 0 012 2" /></svg>
-                  Start Deep Analysis
+                  <textarea
+                    value={prompt}
+                    onChange={e => setPrompt(e.target.value)}
+                    rows={6}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-xs text-slate-300 focus:outline-none focus:border-blue-500/50 resize-y"
+                  />
+                  <button onClick={() => setPrompt(TIMELINE_PROMPT)} disabled={prompt === TIMELINE_PROMPT} className="text-xs font-semibold uppercase text-slate-500 hover:text-white disabled:opacity-30 transition-colors">Reset to default</button>
                 </>
               )}
-            </button>
+            </div>
+
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2 text-xs font-semibold uppercase tracking-widest text-slate-500">
+                Parallel
+                <select
+                  value={concurrency}
+                  onChange={e => setConcurrency(Number(e.target.value))}
+                  className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-slate-300 focus:outline-none focus:border-blue-500/50"
+                >
+                  {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+              <button onClick={queue.retryFailed} disabled={!hasFailed} className="px-3 py-1.5 border border-slate-700 text-slate-400 rounded-lg text-xs font-bold uppercase hover:text-white hover:border-slate-500 disabled:opacity-30 transition-all">Retry failed</button>
+            </div>
+
+            <div className="space-y-2">
+              {queue.items.length === 0 && <p className="text-slate-500 text-sm">No videos queued.</p>}
+              {queue.items.map(item => (
+                <div
+                  key={item.id}
+                  onClick={() => select(item.id)}
+                  className={`p-3 rounded-xl border cursor-pointer space-y-2 transition-all ${item === selected ? 'border-blue-500 bg-blue-600/10' : 'border-slate-800 bg-slate-950 hover:border-slate-600'}`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="flex-1 min-w-0 truncate text-sm text-slate-200" title={item.file.name}>{item.file.name}</span>
+                    <span className="text-[10px] text-slate-500">{formatBytes(item.file.size)}</span>
+                    <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold uppercase ${STATUS_STYLES[item.status]}`}>{item.status}</span>
+                  </div>
+                  {item.status === 'running' && <ProgressBar progress={item.progress} />}
+                  <div className="flex gap-3 text-[10px] font-bold uppercase" onClick={e => e.stopPropagation()}>
+                    {(item.status === 'queued' || item.status === 'running') && (
+                      <button onClick={() => queue.cancel(item.id)} className="text-slate-500 hover:text-white transition-colors">Cancel</button>
+                    )}
+                    {(item.status === 'failed' || item.status === 'cancelled' || item.status === 'done') && (
+                      <button onClick={() => queue.retry(item.id)} className="text-slate-500 hover:text-white transition-colors">{item.status === 'done' ? 'Re-run' : 'Retry'}</button>
+                    )}
+                    <button onClick={() => queue.remove(item.id)} className="text-slate-500 hover:text-red-400 transition-colors">Remove</button>
+                  </div>
+                </div>
+              ))}
+            </div>
           </div>
 
           <div className="flex-1 min-h-[400px] bg-slate-950 border border-slate-800 rounded-2xl p-6 relative overflow-hidden">
-             {!analysis && !isAnalyzing && (
+             {!selected && (
                <div className="h-full flex flex-col items-center justify-center text-center opacity-30">
                   <svg className="w-16 h-16 text-slate-500 mb-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M19 20H5a2 2 0 01-2-2V6a2 2 0 012-2h10a2 2 0 012 2v12a2 2 0 01-2 2z" /></svg>
                   <p className="text-slate-400">Insight output will appear here</p>
                </div>
              )}
-             
-             {isAnalyzing && (
+
+             {selected?.error && selected.status === 'failed' && (
+               <ErrorNotice error={selected.error} onRetry={() => queue.retry(selected.id)} />
+             )}
+
+             {selected && (selected.status === 'queued' || selected.status === 'cancelled') && (
+               <div className="h-full flex items-center justify-center text-center">
+                  <p className="text-slate-500 text-sm">{selected.file.name} is {selected.status === 'queued' ? 'waiting for a free slot' : 'cancelled'}.</p>
+               </div>
+             )}
+
+             {selected?.status === 'running' && (
                <div className="absolute inset-0 bg-slate-950/50 backdrop-blur-sm flex items-center justify-center">
                   <div className="flex flex-col items-center gap-4">
                      <div className="flex space-x-2">
@@ -124,21 +203,46 @@ const VideoAnalysis: React.FC = () => {
                         <div className="w-3 h-3 bg-blue-500 rounded-full animate-bounce [animation-delay:-0.15s]"></div>
                         <div className="w-3 h-3 bg-blue-500 rounded-full animate-bounce"></div>
                      </div>
-                     <p className="text-blue-400 text-xs font-semibold uppercase tracking-widest">Scanning Frames</p>
+                     <p className="text-blue-400 text-xs font-semibold uppercase tracking-widest">{selected.progress ? PROGRESS_LABELS[selected.progress.phase] : 'Scanning Frames'}</p>
                   </div>
                </div>
              )}
 
-             {analysis && (
-               <div className="prose prose-invert prose-sm max-w-none text-slate-300">
-                 <h4 className="text-white text-lg font-bold mb-4 border-b border-slate-800 pb-2">Analysis Results</h4>
-                 <div className="whitespace-pre-wrap leading-relaxed">
-                   {analysis}
-                 </div>
+             {selected?.status === 'done' && selected.result && (
+               <div
+                 className="prose prose-invert prose-sm max-w-none text-slate-300"
+                 onClick={e => {
+                   const seconds = timeFromFragment((e.target as HTMLElement).closest('a')?.getAttribute('href'));
+                   if (seconds === null) return;
+                   e.preventDefault();
+                   setSeekRequest({ seconds });
+                 }}
+               >
+                 <h4 className="text-white text-lg font-bold mb-4 border-b border-slate-800 pb-2 truncate">{selected.file.name}</h4>
+                 <Markdown text={linkifyTimestamps(selected.result.timeline.summary) || '_No summary._'} />
+                 <p className="text-xs text-slate-500">
+                   {selected.result.timeline.segments.length} segments · {selected.result.timeline.segments.filter(s => s.importance === 'high').length} flagged high
+                 </p>
                </div>
              )}
           </div>
         </div>
+
+        {selected?.status === 'done' && selected.result && (
+          <React.Fragment key={selected.id}>
+            <TimelinePlayer file={selected.file} timeline={selected.result.timeline} seekRequest={seekRequest} />
+            <VideoChat
+              file={selected.file}
+              analysisPrompt={selected.result.prompt}
+              timeline={selected.result.timeline}
+              messages={selected.result.chat}
+              onMessagesChange={chat => queue.setChat(selected.id, chat)}
+              onSeek={seconds => setSeekRequest({ seconds })}
+            />
+          </React.Fragment>
+        )}
+
+        {comparisonEntries.length >= 2 && <ComparisonReport entries={comparisonEntries} />}
       </div>
     </div>
   );
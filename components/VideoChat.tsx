@@ -0,0 +1,134 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage, VideoTimeline } from '../types';
+import { useActiveModel } from '../hooks/useEngine';
+import { AppError, classifyError } from '../utils/errors';
+import { VIDEO_CHAT_INSTRUCTION, linkifyTimestamps, timeFromFragment } from '../utils/video-timeline';
+import ErrorNotice from './ErrorNotice';
+import Markdown from './Markdown';
+
+interface VideoChatProps {
+  file: File;
+  // The prompt and answer that produced the timeline open the conversation.
+  analysisPrompt: string;
+  timeline: VideoTimeline;
+  messages: ChatMessage[];
+  onMessagesChange: (messages: ChatMessage[]) => void;
+  onSeek: (seconds: number) => void;
+}
+
+const VideoChat: React.FC<VideoChatProps> = ({ file, analysisPrompt, timeline, messages, onMessagesChange, onSeek }) => {
+  const { model, provider } = useActiveModel('video');
+  const [draft, setDraft] = useState('');
+  const [isAsking, setIsAsking] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const threadRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    if (threadRef.current) threadRef.current.scrollTop = threadRef.current.scrollHeight;
+  }, [messages, isAsking]);
+
+  const ask = async (question: string, thread: ChatMessage[]) => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const withQuestion: ChatMessage[] = [...thread, { role: 'user', text: question }];
+    onMessagesChange(withQuestion);
+    setIsAsking(true);
+    setError(null);
+    try {
+      // The upload is cached by the provider, so only the question travels.
+      const answer = await provider.analyzeVideo(model, {
+        file,
+        prompt: question,
+        history: [
+          { role: 'user', text: analysisPrompt },
+          { role: 'model', text: JSON.stringify(timeline) },
+          ...thread,
+        ],
+        systemInstruction: VIDEO_CHAT_INSTRUCTION,
+        signal: controller.signal,
+      });
+      onMessagesChange([...withQuestion, { role: 'model', text: answer || '_No answer._' }]);
+    } catch (err) {
+      if (controller.signal.aborted) {
+        // Stopped: take the question back so it can be edited.
+        onMessagesChange(thread);
+        setDraft(question);
+      } else {
+        console.error('Video chat error:', err);
+        setError(classifyError(err));
+      }
+    } finally {
+      if (abortRef.current === controller) abortRef.current = null;
+      setIsAsking(false);
+    }
+  };
+
+  const handleSend = () => {
+    const question = draft.trim();
+    if (!question || isAsking) return;
+    setDraft('');
+    ask(question, messages);
+  };
+
+  // Re-asks the last question, whose answer never arrived.
+  const handleRetry = () => {
+    const last = messages[messages.length - 1];
+    if (last?.role === 'user') ask(last.text, messages.slice(0, -1));
+  };
+
+  // Timestamp links seek the player instead of navigating.
+  const handleThreadClick = (e: React.MouseEvent) => {
+    const link = (e.target as HTMLElement).closest('a');
+    const seconds = timeFromFragment(link?.getAttribute('href'));
+    if (seconds === null) return;
+    e.preventDefault();
+    onSeek(seconds);
+  };
+
+  return (
+    <div className="bg-slate-900 border border-slate-800 rounded-3xl p-6 space-y-4 shadow-2xl">
+      <div className="flex items-center justify-between gap-4">
+        <h4 className="text-white text-lg font-bold">Ask about this video</h4>
+        <button onClick={() => onMessagesChange([])} disabled={messages.length === 0 || isAsking} className="text-xs font-bold uppercase text-slate-500 hover:text-white disabled:opacity-30 transition-colors">Clear</button>
+      </div>
+
+      <div ref={threadRef} onClick={handleThreadClick} className="max-h-[420px] overflow-y-auto space-y-3">
+        {messages.length === 0 && (
+          <p className="text-slate-500 text-sm">e.g. "What happened at 02:14?" or "Did the build fail before or after the deploy step?"</p>
+        )}
+        {messages.map((m, i) => (
+          <div key={i} className={`flex ${m.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+            <div className={`max-w-[85%] text-sm p-3 rounded-2xl border ${m.role === 'user' ? 'bg-slate-800/60 border-slate-700 text-slate-200' : 'bg-blue-950/20 border-blue-800/40 text-slate-300'}`}>
+              {m.role === 'user' ? <span className="whitespace-pre-wrap">{m.text}</span> : <Markdown text={linkifyTimestamps(m.text)} />}
+            </div>
+          </div>
+        ))}
+        {isAsking && <p className="text-blue-400 text-xs font-semibold uppercase tracking-widest animate-pulse">Thinking...</p>}
+        {error && <ErrorNotice error={error} onRetry={handleRetry} onDismiss={() => setError(null)} />}
+      </div>
+
+      <div className="flex gap-3">
+        <textarea
+          value={draft}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSend(); }
+          }}
+          rows={Math.min(4, Math.max(1, draft.split('\n').length))}
+          placeholder="Ask a follow-up question..."
+          className="flex-1 bg-slate-950 border border-slate-800 rounded-xl px-3 py-2 text-sm text-slate-200 placeholder:text-slate-600 focus:outline-none focus:border-blue-500/50 resize-none"
+        />
+        {isAsking ? (
+          <button onClick={() => abortRef.current?.abort()} className="px-5 border border-slate-700 text-slate-400 rounded-xl text-xs font-bold uppercase hover:text-white transition-all">Stop</button>
+        ) : (
+          <button onClick={handleSend} disabled={!draft.trim()} className="px-5 bg-blue-600 hover:bg-blue-500 disabled:bg-slate-800 disabled:text-slate-600 text-white rounded-xl text-xs font-bold uppercase transition-all">Ask</button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default VideoChat;
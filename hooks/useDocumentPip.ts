@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+
+interface DocumentPictureInPicture {
+  requestWindow: (options?: { width?: number; height?: number }) => Promise<Window>;
+}
+
+declare global {
+  interface Window {
+    // Chromium-only, and not in the TS DOM lib yet.
+    documentPictureInPicture?: DocumentPictureInPicture;
+  }
+}
+
+const documentPip = () => window.documentPictureInPicture;
+
+export const isDocumentPipSupported = () => !!documentPip();
+
+// The floating window starts as a blank document, so it needs the page's styles.
+function copyStyles(target: Document) {
+  document.head.querySelectorAll('style, link[rel="stylesheet"]').forEach(node => target.head.appendChild(node.cloneNode(true)));
+  // The Tailwind CDN build only generates classes used in the document it runs in, so the window
+  // gets its own instance for classes the main page isn't showing.
+  const tailwind = document.querySelector<HTMLScriptElement>('script[src*="tailwindcss"]');
+  if (tailwind) {
+    const script = target.createElement('script');
+    script.src = tailwind.src;
+    target.head.appendChild(script);
+  }
+}
+
+/**
+ * A Document Picture-in-Picture window to portal React content into. It stays on top of other
+ * applications and closes with the component that opened it.
+ */
+export function useDocumentPip() {
+  const [pipWindow, setPipWindow] = useState<Window | null>(null);
+
+  // Must be called from a user gesture.
+  const open = useCallback(async (width: number, height: number) => {
+    const pip = documentPip();
+    if (!pip) throw new Error('Document Picture-in-Picture is not supported in this browser.');
+    const win = await pip.requestWindow({ width, height });
+    copyStyles(win.document);
+    win.addEventListener('pagehide', () => setPipWindow(current => current === win ? null : current));
+    setPipWindow(win);
+  }, []);
+
+  const close = useCallback(() => pipWindow?.close(), [pipWindow]);
+
+  useEffect(() => () => pipWindow?.close(), [pipWindow]);
+
+  return { pipWindow, open, close };
+}
@@ -0,0 +1,94 @@
+import React, { createContext, useContext, useState, useEffect, useMemo, useCallback } from 'react';
+import { InferenceProvider, ModelCapability, ModelConfig } from '../types';
+import { MODEL_REGISTRY, DEFAULT_CUSTOM_MODELS, DEFAULT_SELECTIONS, modelKey, getProvider } from '../providers/registry';
+
+const STORAGE_KEY = 'ana.engine';
+
+interface StoredEngineState {
+  selections: Record<ModelCapability, string>;
+  customModels: ModelConfig[];
+}
+
+interface EngineContextValue {
+  models: ModelConfig[];
+  customModels: ModelConfig[];
+  modelsFor: (capability: ModelCapability) => ModelConfig[];
+  selectedModel: (capability: ModelCapability) => ModelConfig;
+  selectModel: (capability: ModelCapability, key: string) => void;
+  saveCustomModel: (model: ModelConfig) => void;
+  removeCustomModel: (key: string) => void;
+}
+
+const EngineContext = createContext<EngineContextValue | null>(null);
+
+function loadState(): StoredEngineState {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<StoredEngineState>;
+      return {
+        selections: { ...DEFAULT_SELECTIONS, ...parsed.selections },
+        customModels: parsed.customModels ?? DEFAULT_CUSTOM_MODELS,
+      };
+    }
+  } catch (err) {
+    console.error('Engine settings are corrupt, using defaults:', err);
+  }
+  return { selections: DEFAULT_SELECTIONS, customModels: DEFAULT_CUSTOM_MODELS };
+}
+
+export const EngineProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [state, setState] = useState<StoredEngineState>(loadState);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+  }, [state]);
+
+  const models = useMemo(() => [...MODEL_REGISTRY, ...state.customModels], [state.customModels]);
+
+  const modelsFor = useCallback(
+    (capability: ModelCapability) => models.filter(m => m.capabilities.includes(capability)),
+    [models],
+  );
+
+  const selectedModel = useCallback((capability: ModelCapability) => {
+    const key = state.selections[capability];
+    const match = models.find(m => modelKey(m) === key && m.capabilities.includes(capability));
+    // A removed or edited custom model falls back to the built-in default.
+    return match ?? models.find(m => modelKey(m) === DEFAULT_SELECTIONS[capability])!;
+  }, [models, state.selections]);
+
+  const selectModel = useCallback((capability: ModelCapability, key: string) => {
+    setState(s => ({ ...s, selections: { ...s.selections, [capability]: key } }));
+  }, []);
+
+  const saveCustomModel = useCallback((model: ModelConfig) => {
+    setState(s => ({
+      ...s,
+      customModels: [...s.customModels.filter(m => modelKey(m) !== modelKey(model)), model],
+    }));
+  }, []);
+
+  const removeCustomModel = useCallback((key: string) => {
+    setState(s => ({ ...s, customModels: s.customModels.filter(m => modelKey(m) !== key) }));
+  }, []);
+
+  const value = useMemo<EngineContextValue>(() => ({
+    models, customModels: state.customModels, modelsFor, selectedModel, selectModel, saveCustomModel, removeCustomModel,
+  }), [models, state.customModels, modelsFor, selectedModel, selectModel, saveCustomModel, removeCustomModel]);
+
+  return <EngineContext.Provider value={value}>{children}</EngineContext.Provider>;
+};
+
+export function useEngine(): EngineContextValue {
+  const ctx = useContext(EngineContext);
+  if (!ctx) throw new Error('useEngine must be used inside <EngineProvider>');
+  return ctx;
+}
+
+/** The selected model for a capability together with the provider that serves it. */
+export function useActiveModel(capability: ModelCapability): { model: ModelConfig; provider: InferenceProvider } {
+  const { selectedModel } = useEngine();
+  const model = selectedModel(capability);
+  return { model, provider: getProvider(model) };
+}
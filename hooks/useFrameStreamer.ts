@@ -0,0 +1,85 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { FrameSettings, Region, toLuma, shouldSendFrame, regionToPixels } from '../utils/frame-utils';
+import { fileToBase64 } from '../utils/file-utils';
+
+// Width of the grayscale thumbnail used for change detection.
+const DIFF_WIDTH = 160;
+
+interface FrameStreamerOptions {
+  enabled: boolean;
+  settings: FrameSettings;
+  region: Region | null;
+  onFrame: (base64Jpeg: string, frame: Blob) => void;
+}
+
+export interface FrameStreamerStats {
+  sent: number;
+  skipped: number;
+}
+
+/**
+ * Samples the video at `settings.fps`, and only encodes and emits a JPEG when the
+ * picture (or the region of interest) changed meaningfully or the keep-alive elapsed.
+ */
+export function useFrameStreamer(videoRef: React.RefObject<HTMLVideoElement | null>, options: FrameStreamerOptions): FrameStreamerStats {
+  const [stats, setStats] = useState<FrameStreamerStats>({ sent: 0, skipped: 0 });
+  const latestRef = useRef(options);
+  latestRef.current = options;
+
+  useEffect(() => {
+    if (!options.enabled) return;
+    setStats({ sent: 0, skipped: 0 });
+
+    const canvas = document.createElement('canvas');
+    const thumb = document.createElement('canvas');
+    const thumbCtx = thumb.getContext('2d', { willReadFrequently: true })!;
+    let previous: Uint8Array | null = null;
+    let previousRegion: Region | null = null;
+    let lastSentAt = 0;
+    let encoding = false;
+
+    const tick = () => {
+      const video = videoRef.current;
+      const { settings, region, onFrame } = latestRef.current;
+      if (!video || !video.videoWidth || !video.videoHeight || encoding) return;
+      const { sx, sy, sw, sh } = regionToPixels(region, video.videoWidth, video.videoHeight);
+
+      thumb.width = DIFF_WIDTH;
+      thumb.height = Math.max(1, Math.round(DIFF_WIDTH * (sh / sw)));
+      thumbCtx.drawImage(video, sx, sy, sw, sh, 0, 0, thumb.width, thumb.height);
+      const luma = toLuma(thumbCtx.getImageData(0, 0, thumb.width, thumb.height).data);
+
+      // A new region is a new picture, even if its pixels happen to match.
+      if (region !== previousRegion) { previous = null; previousRegion = region; }
+      const now = Date.now();
+      if (!shouldSendFrame(previous, luma, now - lastSentAt, settings)) {
+        setStats(s => ({ ...s, skipped: s.skipped + 1 }));
+        return;
+      }
+      previous = luma;
+      lastSentAt = now;
+
+      // Regions of interest go out at native resolution so small terminal text stays legible.
+      const width = region ? sw : Math.min(sw, settings.maxWidth);
+      canvas.width = width;
+      canvas.height = Math.round(width * (sh / sw));
+      canvas.getContext('2d')!.drawImage(video, sx, sy, sw, sh, 0, 0, canvas.width, canvas.height);
+      encoding = true;
+      canvas.toBlob(async blob => {
+        try {
+          if (blob) {
+            onFrame(await fileToBase64(blob), blob);
+            setStats(s => ({ ...s, sent: s.sent + 1 }));
+          }
+        } finally {
+          encoding = false;
+        }
+      }, 'image/jpeg', settings.quality);
+    };
+
+    const interval = window.setInterval(tick, 1000 / options.settings.fps);
+    return () => clearInterval(interval);
+  }, [options.enabled, options.settings.fps, videoRef]);
+
+  return stats;
+}
@@ -0,0 +1,109 @@
+import { useState, useEffect, useCallback, useMemo } from 'react';
+import { FrameSettings, DEFAULT_FRAME_SETTINGS } from '../utils/frame-utils';
+import { VisualSource } from '../utils/capture-sources';
+import { InputMode, DEFAULT_PUSH_TO_TALK_KEY, DEFAULT_VAD_THRESHOLD } from '../utils/voice-activity';
+import { InstructionPreset, BUILTIN_PRESETS, DEFAULT_PRESET_ID, composeInstruction } from '../utils/live-presets';
+
+const STORAGE_KEY = 'ana.live-settings';
+
+export interface LiveSettings {
+  presetId: string;
+  // Falls back to the provider's first voice when the live model's provider doesn't offer it.
+  voice: string;
+  language: string;
+  frameSettings: FrameSettings;
+  // Empty device ids mean the system default.
+  micDeviceId: string;
+  visualSource: VisualSource;
+  cameraDeviceId: string;
+  inputMode: InputMode;
+  // Input level (as on the meter) that counts as speech in `vad` mode.
+  vadThreshold: number;
+  // `KeyboardEvent.code` held to talk in `push-to-talk` mode.
+  pushToTalkKey: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  customPresets: InstructionPreset[];
+}
+
+const DEFAULT_SETTINGS: LiveSettings = {
+  presetId: DEFAULT_PRESET_ID,
+  voice: 'Zephyr',
+  language: 'auto',
+  frameSettings: DEFAULT_FRAME_SETTINGS,
+  micDeviceId: '',
+  visualSource: 'screen',
+  cameraDeviceId: '',
+  inputMode: 'always-on',
+  vadThreshold: DEFAULT_VAD_THRESHOLD,
+  pushToTalkKey: DEFAULT_PUSH_TO_TALK_KEY,
+  echoCancellation: true,
+  noiseSuppression: true,
+  customPresets: [],
+};
+
+function loadSettings(): LiveSettings {
+  try {
+    const raw = localStorage.getItem(STORAGE_KEY);
+    if (raw) {
+      const parsed = JSON.parse(raw) as Partial<LiveSettings>;
+      return {
+        ...DEFAULT_SETTINGS,
+        ...parsed,
+        frameSettings: { ...DEFAULT_FRAME_SETTINGS, ...parsed.frameSettings },
+      };
+    }
+  } catch (err) {
+    console.error('Live settings are corrupt, using defaults:', err);
+  }
+  return DEFAULT_SETTINGS;
+}
+
+/** Persisted live-session preferences and the system-instruction preset library. */
+export function useLiveSettings() {
+  const [settings, setSettings] = useState<LiveSettings>(loadSettings);
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  }, [settings]);
+
+  const presets = useMemo(() => [...BUILTIN_PRESETS, ...settings.customPresets], [settings.customPresets]);
+  // A deleted preset falls back to the default one.
+  const activePreset = presets.find(p => p.id === settings.presetId) ?? BUILTIN_PRESETS[0];
+  const systemInstruction = composeInstruction(activePreset, settings.language);
+
+  const update = useCallback((patch: Partial<Omit<LiveSettings, 'customPresets'>>) => {
+    setSettings(s => ({ ...s, ...patch }));
+  }, []);
+
+  const setFrameSettings = useCallback((frameSettings: FrameSettings) => {
+    setSettings(s => ({ ...s, frameSettings }));
+  }, []);
+
+  const savePreset = useCallback((preset: InstructionPreset) => {
+    if (preset.builtin) return;
+    setSettings(s => {
+      const exists = s.customPresets.some(p => p.id === preset.id);
+      return {
+        ...s,
+        customPresets: exists ? s.customPresets.map(p => p.id === preset.id ? preset : p) : [...s.customPresets, preset],
+      };
+    });
+  }, []);
+
+  const deletePreset = useCallback((id: string) => {
+    setSettings(s => ({
+      ...s,
+      customPresets: s.customPresets.filter(p => p.id !== id),
+      presetId: s.presetId === id ? DEFAULT_PRESET_ID : s.presetId,
+    }));
+  }, []);
+
+  const importPresets = useCallback((imported: InstructionPreset[]) => {
+    setSettings(s => ({ ...s, customPresets: [...s.customPresets, ...imported] }));
+  }, []);
+
+  return { settings, presets, activePreset, systemInstruction, update, setFrameSettings, savePreset, deletePreset, importPresets };
+}
+
+export type LiveSettingsController = ReturnType<typeof useLiveSettings>;
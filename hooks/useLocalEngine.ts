@@ -0,0 +1,6 @@
+import { useSyncExternalStore } from 'react';
+import { getLocalEngineState, subscribeLocalEngine, LocalEngineState } from '../providers/local';
+
+export function useLocalEngine(): LocalEngineState {
+  return useSyncExternalStore(subscribeLocalEngine, getLocalEngineState);
+}
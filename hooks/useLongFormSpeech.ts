@@ -0,0 +1,164 @@
+import { useState, useEffect, useRef } from 'react';
+import { InferenceProvider, ModelConfig, SpeechAudio, SpeechRequest } from '../types';
+import { decodeAudioData, encodeWav } from '../utils/audio-utils';
+import { AppError, classifyError } from '../utils/errors';
+import { downloadBlob } from '../utils/file-utils';
+import { runPreflight } from '../utils/preflight';
+import { PlaybackState, SpeechPlayer, createSpeechPlayer } from '../utils/speech-player';
+
+// Chunks requested ahead of the one being waited on.
+const LOOKAHEAD = 2;
+
+/**
+ * Synthesizes a list of speech requests in order, playing each piece as soon as it arrives, and
+ * keeps the PCM so the whole result can be downloaded once it is complete.
+ */
+export function useLongFormSpeech(model: ModelConfig, provider: InferenceProvider) {
+  const [playback, setPlayback] = useState<PlaybackState>('idle');
+  const [position, setPosition] = useState(0);
+  const [duration, setDuration] = useState(0);
+  const [synthesized, setSynthesized] = useState(0);
+  const [total, setTotal] = useState(0);
+  const [isSynthesizing, setIsSynthesizing] = useState(false);
+  const [error, setError] = useState<AppError | null>(null);
+  const ctxRef = useRef<AudioContext | null>(null);
+  const playerRef = useRef<SpeechPlayer | null>(null);
+  const requestsRef = useRef<SpeechRequest[]>([]);
+  const pcmRef = useRef<SpeechAudio[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  useEffect(() => () => {
+    abortRef.current?.abort();
+    playerRef.current?.stop();
+    ctxRef.current?.close();
+  }, []);
+
+  // Follow the playhead while audio is playing.
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player) return;
+    setPosition(player.position());
+    if (playback !== 'playing') return;
+    let frame = requestAnimationFrame(function tick() {
+      setPosition(player.position());
+      frame = requestAnimationFrame(tick);
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [playback]);
+
+  const run = async (from: number) => {
+    const ctx = ctxRef.current!;
+    const player = playerRef.current!;
+    const requests = requestsRef.current;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsSynthesizing(true);
+    setError(null);
+
+    const pending: Promise<SpeechAudio>[] = [];
+    let next = from;
+    try {
+      await runPreflight(provider, model, { capability: 'tts' }, ['web-audio']);
+      for (let i = from; i < requests.length; i++) {
+        while (next < requests.length && next <= i + LOOKAHEAD) {
+          pending[next] = provider.synthesizeSpeech(model, { ...requests[next], signal: controller.signal });
+          // Failures surface when the chunk is awaited, not as unhandled rejections.
+          pending[next].catch(() => {});
+          next++;
+        }
+        const speech = await pending[i];
+        if (controller.signal.aborted) return;
+        pcmRef.current.push(speech);
+        player.append(await decodeAudioData(speech.pcm, ctx, speech.sampleRate, 1));
+        setDuration(player.duration());
+        setSynthesized(i + 1);
+      }
+      player.finish();
+    } catch (err) {
+      // Drop the prefetched chunks; a retry starts again at the one that failed.
+      controller.abort();
+      if (abortRef.current !== controller) return;
+      console.error('TTS Error:', err);
+      setError(classifyError(err));
+    } finally {
+      if (abortRef.current === controller) {
+        abortRef.current = null;
+        setIsSynthesizing(false);
+      }
+    }
+  };
+
+  /** Starts over with new requests; playback begins with the first chunk. */
+  const synthesize = (requests: SpeechRequest[]) => {
+    if (requests.length === 0) return;
+    abortRef.current?.abort();
+    abortRef.current = null;
+    playerRef.current?.stop();
+    if (!ctxRef.current) {
+      ctxRef.current = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    }
+    const player = createSpeechPlayer(ctxRef.current, setPlayback);
+    playerRef.current = player;
+    requestsRef.current = requests;
+    pcmRef.current = [];
+    setTotal(requests.length);
+    setSynthesized(0);
+    setDuration(0);
+    setPosition(0);
+    player.play();
+    run(0);
+  };
+
+  /** Continues after a failed chunk without re-synthesizing what already arrived. */
+  const resume = () => {
+    if (!playerRef.current || isSynthesizing) return;
+    run(pcmRef.current.length);
+  };
+
+  const cancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    setIsSynthesizing(false);
+  };
+
+  const downloadWav = (filename = 'speech.wav') => {
+    const chunks = pcmRef.current;
+    if (chunks.length === 0) return;
+    const pcm = new Uint8Array(chunks.reduce((n, c) => n + c.pcm.byteLength, 0));
+    let offset = 0;
+    for (const chunk of chunks) {
+      pcm.set(chunk.pcm, offset);
+      offset += chunk.pcm.byteLength;
+    }
+    // Every provider returns 24 kHz mono, so the chunks share one format.
+    downloadBlob(new Blob([encodeWav(pcm, chunks[0].sampleRate)], { type: 'audio/wav' }), filename);
+  };
+
+  const seek = (seconds: number) => {
+    playerRef.current?.seek(seconds);
+    setPosition(playerRef.current?.position() ?? 0);
+  };
+
+  return {
+    playback,
+    position,
+    duration,
+    synthesized,
+    total,
+    isSynthesizing,
+    isComplete: total > 0 && synthesized === total,
+    error,
+    dismissError: () => setError(null),
+    synthesize,
+    resume,
+    cancel,
+    downloadWav,
+    play: () => playerRef.current?.play(),
+    pause: () => playerRef.current?.pause(),
+    stop: () => {
+      playerRef.current?.stop();
+      setPosition(0);
+    },
+    seek,
+  };
+}
@@ -0,0 +1,27 @@
+import { useState, useEffect, useCallback } from 'react';
+
+/** Available microphones and cameras, kept current as devices are plugged in or removed. */
+export function useMediaDevices() {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  // Call again after a capture permission is granted; labels are hidden until then.
+  const refresh = useCallback(() => {
+    navigator.mediaDevices?.enumerateDevices()
+      .then(setDevices)
+      .catch(err => console.error('Device enumeration error:', err));
+  }, []);
+
+  useEffect(() => {
+    const mediaDevices = navigator.mediaDevices;
+    if (!mediaDevices) return;
+    refresh();
+    mediaDevices.addEventListener('devicechange', refresh);
+    return () => mediaDevices.removeEventListener('devicechange', refresh);
+  }, [refresh]);
+
+  return {
+    mics: devices.filter(d => d.kind === 'audioinput'),
+    cameras: devices.filter(d => d.kind === 'videoinput'),
+    refresh,
+  };
+}
@@ -0,0 +1,30 @@
+import { useState, useEffect, useCallback } from 'react';
+import { ModuleID, moduleFromPath, pathForModule } from '../utils/routes';
+
+/**
+ * Keeps the active module in sync with `window.location` using the History API,
+ * so each module is URL-addressable and the back/forward buttons work.
+ */
+export function useModuleRoute(): [ModuleID, (id: ModuleID) => void] {
+  const [active, setActive] = useState<ModuleID>(() => moduleFromPath(window.location.pathname));
+
+  useEffect(() => {
+    // Canonicalize "/" and unknown paths without adding a history entry.
+    const canonical = pathForModule(moduleFromPath(window.location.pathname));
+    if (window.location.pathname !== canonical) {
+      window.history.replaceState(null, '', canonical + window.location.search + window.location.hash);
+    }
+
+    const onPopState = () => setActive(moduleFromPath(window.location.pathname));
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const navigate = useCallback((id: ModuleID) => {
+    const path = pathForModule(id);
+    if (window.location.pathname !== path) window.history.pushState(null, '', path);
+    setActive(id);
+  }, []);
+
+  return [active, navigate];
+}
@@ -0,0 +1,147 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { ChatMessage, InferenceProvider, ModelConfig, VideoAnalysisProgress } from '../types';
+import { AppError, classifyError } from '../utils/errors';
+import { runPreflight } from '../utils/preflight';
+import { fileFingerprint, validateVideoFile } from '../utils/video-files';
+import { TIMELINE_SCHEMA, parseTimeline } from '../utils/video-timeline';
+import { QueueStatus, StoredAnalyses, StoredAnalysis, itemsToStart, trimStoredAnalyses } from '../utils/video-queue';
+
+const STORAGE_KEY = 'ana.video-analyses';
+
+export interface QueueItem {
+  id: string;
+  file: File;
+  // fileFingerprint(file); results are stored under it.
+  key: string;
+  status: QueueStatus;
+  progress: VideoAnalysisProgress | null;
+  error: AppError | null;
+  result: StoredAnalysis | null;
+}
+
+function loadStored(): StoredAnalyses {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) ?? '{}');
+  } catch (err) {
+    console.error('Stored video analyses are corrupt, starting fresh:', err);
+    return {};
+  }
+}
+
+let nextId = 0;
+
+/**
+ * Runs video analyses with at most `concurrency` in flight. Finished results are persisted per
+ * file, so adding a file that was already analyzed with the same prompt does not run it again.
+ */
+export function useVideoQueue(model: ModelConfig, provider: InferenceProvider, prompt: string, concurrency: number) {
+  const [items, setItems] = useState<QueueItem[]>([]);
+  const [stored, setStored] = useState<StoredAnalyses>(loadStored);
+  const controllersRef = useRef(new Map<string, AbortController>());
+  // Runs use the model and prompt current when they start, not when they were queued.
+  const latestRef = useRef({ model, provider, prompt });
+  latestRef.current = { model, provider, prompt };
+
+  useEffect(() => {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(trimStoredAnalyses(stored)));
+  }, [stored]);
+
+  useEffect(() => () => controllersRef.current.forEach(c => c.abort()), []);
+
+  const patch = (id: string, changes: Partial<QueueItem>) =>
+    setItems(list => list.map(i => i.id === id ? { ...i, ...changes } : i));
+
+  const run = async (item: QueueItem) => {
+    const { model, provider, prompt } = latestRef.current;
+    const controller = new AbortController();
+    controllersRef.current.set(item.id, controller);
+    try {
+      await runPreflight(provider, model, { capability: 'video', file: item.file });
+      const text = await provider.analyzeVideo(model, {
+        file: item.file,
+        prompt,
+        responseSchema: TIMELINE_SCHEMA,
+        signal: controller.signal,
+        onProgress: progress => patch(item.id, { progress }),
+      });
+      const result: StoredAnalysis = { fileName: item.file.name, prompt, timeline: parseTimeline(text), chat: [], analyzedAt: Date.now() };
+      setStored(s => ({ ...s, [item.key]: result }));
+      patch(item.id, { status: 'done', progress: null, result });
+    } catch (err) {
+      if (controller.signal.aborted) {
+        patch(item.id, { status: 'cancelled', progress: null });
+      } else {
+        console.error('Video Analysis error:', err);
+        patch(item.id, { status: 'failed', progress: null, error: classifyError(err) });
+      }
+    } finally {
+      controllersRef.current.delete(item.id);
+    }
+  };
+
+  // Start queued items as slots free up.
+  useEffect(() => {
+    const ids = itemsToStart(items, concurrency);
+    if (ids.length === 0) return;
+    setItems(list => list.map(i => ids.includes(i.id) ? { ...i, status: 'running', error: null } : i));
+    items.filter(i => ids.includes(i.id)).forEach(run);
+  }, [items, concurrency]);
+
+  /** Queues new files; returns why any of them were rejected. */
+  const addFiles = (files: File[]): AppError[] => {
+    const errors: AppError[] = [];
+    const added: QueueItem[] = [];
+    for (const file of files) {
+      try {
+        validateVideoFile(file);
+      } catch (err) {
+        errors.push(classifyError(err));
+        continue;
+      }
+      const key = fileFingerprint(file);
+      if (items.some(i => i.key === key) || added.some(i => i.key === key)) continue;
+      const previous = stored[key]?.prompt === prompt ? stored[key] : null;
+      added.push({
+        id: `v${++nextId}`,
+        file,
+        key,
+        status: previous ? 'done' : 'queued',
+        progress: null,
+        error: null,
+        result: previous,
+      });
+    }
+    setItems(list => [...list, ...added]);
+    return errors;
+  };
+
+  /** Queues an item again, including finished ones (e.g. after editing the prompt). */
+  const retry = useCallback((id: string) => {
+    patch(id, { status: 'queued', error: null });
+  }, []);
+
+  const retryFailed = useCallback(() => {
+    setItems(list => list.map(i => i.status === 'failed' || i.status === 'cancelled' ? { ...i, status: 'queued', error: null } : i));
+  }, []);
+
+  const cancel = useCallback((id: string) => {
+    const controller = controllersRef.current.get(id);
+    if (controller) controller.abort();
+    else setItems(list => list.map(i => i.id === id && i.status === 'queued' ? { ...i, status: 'cancelled' } : i));
+  }, []);
+
+  const remove = useCallback((id: string) => {
+    controllersRef.current.get(id)?.abort();
+    setItems(list => list.filter(i => i.id !== id));
+  }, []);
+
+  const setChat = (id: string, chat: ChatMessage[]) => {
+    const item = items.find(i => i.id === id);
+    if (!item?.result) return;
+    const result = { ...item.result, chat };
+    setStored(s => ({ ...s, [item.key]: result }));
+    patch(id, { result });
+  };
+
+  return { items, addFiles, retry, retryFailed, cancel, remove, setChat };
+}
@@ -0,0 +1,152 @@
+import { VideoAnalysisProgress } from '../types';
+import { AppError, HttpError } from '../utils/errors';
+import { FileHandleCache, fileFingerprint, lookupHandle, pruneHandles } from '../utils/video-files';
+
+const PROXY_BASE = '/api/gemini';
+const CACHE_KEY = 'ana.video-files';
+const POLL_INTERVAL_MS = 2000;
+// Uploaded files are deleted by the API after 48 hours.
+const FILE_TTL_MS = 48 * 60 * 60 * 1000;
+
+interface GeminiFile {
+  name: string;
+  uri: string;
+  mimeType: string;
+  state?: 'STATE_UNSPECIFIED' | 'PROCESSING' | 'ACTIVE' | 'FAILED';
+  expirationTime?: string;
+  error?: { message?: string };
+}
+
+export interface ResolvedVideoFile {
+  uri: string;
+  mimeType: string;
+  reused: boolean;
+}
+
+type ProgressCallback = (progress: VideoAnalysisProgress) => void;
+
+function loadCache(): FileHandleCache {
+  try {
+    return JSON.parse(localStorage.getItem(CACHE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+const saveCache = (cache: FileHandleCache) =>
+  localStorage.setItem(CACHE_KEY, JSON.stringify(pruneHandles(cache, Date.now())));
+
+async function filesRequest(path: string, init: RequestInit): Promise<Response> {
+  let response: Response;
+  try {
+    response = await fetch(`${PROXY_BASE}${path}`, init);
+  } catch (err) {
+    if (init.signal?.aborted) throw err;
+    throw new AppError('network', 'The ANA server is not reachable. Start it with `npm run dev` or `npm run server`.', err);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => null);
+    throw new HttpError(response.status, body?.error?.message ?? `${path} responded ${response.status}`, body?.error?.status);
+  }
+  return response;
+}
+
+const getFile = async (name: string, signal?: AbortSignal): Promise<GeminiFile> =>
+  (await filesRequest(`/v1beta/${name}`, { signal })).json();
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => { clearTimeout(timer); reject(signal!.reason); };
+    const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+// fetch cannot report upload progress, so the bytes go through XHR.
+function sendBytes(uploadUrl: string, file: File, signal: AbortSignal | undefined, onFraction: (fraction: number) => void): Promise<GeminiFile> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+    xhr.open('POST', uploadUrl);
+    xhr.setRequestHeader('X-Goog-Upload-Command', 'upload, finalize');
+    xhr.setRequestHeader('X-Goog-Upload-Offset', '0');
+    xhr.responseType = 'json';
+    xhr.upload.onprogress = e => { if (e.lengthComputable) onFraction(e.loaded / e.total); };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300 && xhr.response?.file) resolve(xhr.response.file);
+      else reject(new HttpError(xhr.status, xhr.response?.error?.message ?? `The upload responded ${xhr.status}`, xhr.response?.error?.status));
+    };
+    xhr.onerror = () => reject(new AppError('network', `The upload of ${file.name} was interrupted.`));
+    xhr.onabort = () => reject(signal?.reason ?? new DOMException('The upload was cancelled.', 'AbortError'));
+    xhr.onloadend = () => signal?.removeEventListener('abort', abort);
+    signal?.addEventListener('abort', abort, { once: true });
+    xhr.send(file);
+  });
+}
+
+async function upload(file: File, signal: AbortSignal | undefined, onProgress?: ProgressCallback): Promise<GeminiFile> {
+  // Resumable protocol: a metadata request returns the URL the bytes are sent to.
+  const start = await filesRequest('/upload/v1beta/files', {
+    method: 'POST',
+    signal,
+    headers: {
+      'Content-Type': 'application/json',
+      'X-Goog-Upload-Protocol': 'resumable',
+      'X-Goog-Upload-Command': 'start',
+      'X-Goog-Upload-Header-Content-Length': String(file.size),
+      'X-Goog-Upload-Header-Content-Type': file.type,
+    },
+    body: JSON.stringify({ file: { displayName: file.name } }),
+  });
+  const uploadUrl = start.headers.get('x-goog-upload-url');
+  if (!uploadUrl) throw new AppError('unknown', 'The Files API did not return an upload URL.');
+  onProgress?.({ phase: 'uploading', fraction: 0 });
+  return sendBytes(uploadUrl, file, signal, fraction => onProgress?.({ phase: 'uploading', fraction }));
+}
+
+// Videos are transcoded after upload and cannot be referenced until they are ACTIVE.
+async function waitUntilActive(file: GeminiFile, signal?: AbortSignal, onProgress?: ProgressCallback): Promise<GeminiFile> {
+  let current = file;
+  while (current.state === 'PROCESSING') {
+    onProgress?.({ phase: 'processing' });
+    await sleep(POLL_INTERVAL_MS, signal);
+    current = await getFile(current.name, signal);
+  }
+  if (current.state === 'FAILED') {
+    throw new AppError('unsupported-file', current.error?.message ?? 'The Files API could not process this video.');
+  }
+  return current;
+}
+
+/**
+ * Returns a Files API reference for `file`, uploading it only if no live upload of the same
+ * local file is cached. Rejects with the signal's reason when cancelled.
+ */
+export async function resolveVideoFile(file: File, signal?: AbortSignal, onProgress?: ProgressCallback): Promise<ResolvedVideoFile> {
+  const key = fileFingerprint(file);
+  const cache = loadCache();
+  const cached = lookupHandle(cache, key, Date.now());
+  if (cached) {
+    // The API may have dropped the file early; a failed lookup just means uploading again.
+    const remote = await getFile(cached.name, signal).catch(err => {
+      if (signal?.aborted) throw err;
+      return null;
+    });
+    if (remote && remote.state !== 'FAILED') {
+      const active = await waitUntilActive(remote, signal, onProgress);
+      return { uri: active.uri, mimeType: active.mimeType, reused: true };
+    }
+    delete cache[key];
+  }
+
+  const active = await waitUntilActive(await upload(file, signal, onProgress), signal, onProgress);
+  cache[key] = {
+    name: active.name,
+    uri: active.uri,
+    mimeType: active.mimeType,
+    expiresAt: active.expirationTime ? Date.parse(active.expirationTime) : Date.now() + FILE_TTL_MS,
+  };
+  saveCache(cache);
+  return { uri: active.uri, mimeType: active.mimeType, reused: false };
+}
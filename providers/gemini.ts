@@ -0,0 +1,218 @@
+import { GoogleGenAI, LiveServerMessage, Modality, Schema, Type } from '@google/genai';
+import { InferenceProvider, LiveEvent, ToolDeclaration } from '../types';
+import { decode } from '../utils/audio-utils';
+import { AppError, HttpError, classifyModelLookupError } from '../utils/errors';
+import { validateVideoFile } from '../utils/video-files';
+import { resolveVideoFile } from './gemini-files';
+
+// The key lives on the ANA server (server/api.ts). REST calls go through its proxy, which attaches
+// the real key; the SDK only insists that some key is set.
+const createClient = () => new GoogleGenAI({
+  apiKey: 'server-side',
+  httpOptions: { baseUrl: `${window.location.origin}/api/gemini` },
+});
+
+async function apiRequest<T>(path: string, init?: RequestInit): Promise<T> {
+  let response: Response;
+  try {
+    response = await fetch(path, init);
+  } catch (err) {
+    throw new AppError('network', 'The ANA server is not reachable. Start it with `npm run dev` or `npm run server`.', err);
+  }
+  const body = await response.json().catch(() => null);
+  if (!response.ok) throw new HttpError(response.status, body?.error?.message ?? `${path} responded ${response.status}`, body?.error?.status);
+  return body as T;
+}
+
+// Live sessions connect straight to Google over WebSocket, authenticated by a single-use token.
+async function createLiveClient() {
+  const { token } = await apiRequest<{ token: string }>('/api/live-token', { method: 'POST' });
+  return new GoogleGenAI({ apiKey: token, httpOptions: { apiVersion: 'v1alpha' } });
+}
+
+// Models already confirmed to exist for this key; the lookup only needs to happen once per page load.
+const verifiedModels = new Set<string>();
+
+function toLiveEvents(m: LiveServerMessage): LiveEvent[] {
+  const events: LiveEvent[] = [];
+  for (const part of m.serverContent?.modelTurn?.parts ?? []) {
+    if (part.inlineData?.data) events.push({ type: 'audio', data: part.inlineData.data });
+  }
+  if (m.serverContent?.inputTranscription?.text) events.push({ type: 'inputTranscript', text: m.serverContent.inputTranscription.text });
+  if (m.serverContent?.outputTranscription?.text) events.push({ type: 'outputTranscript', text: m.serverContent.outputTranscription.text });
+  // The server follows `interrupted` with `turnComplete`, so keep that order.
+  if (m.serverContent?.interrupted) events.push({ type: 'interrupted' });
+  if (m.serverContent?.turnComplete) events.push({ type: 'turnComplete' });
+  if (m.toolCall?.functionCalls?.length) {
+    events.push({
+      type: 'toolCall',
+      calls: m.toolCall.functionCalls.map(c => ({ id: c.id ?? '', name: c.name ?? '', args: c.args ?? {} })),
+    });
+  }
+  if (m.toolCallCancellation?.ids?.length) events.push({ type: 'toolCallCancellation', ids: m.toolCallCancellation.ids });
+  if (m.sessionResumptionUpdate?.resumable && m.sessionResumptionUpdate.newHandle) {
+    events.push({ type: 'resumptionHandle', handle: m.sessionResumptionUpdate.newHandle });
+  }
+  if (m.goAway) {
+    // `timeLeft` is a protobuf duration string such as "9.5s".
+    const seconds = parseFloat(m.goAway.timeLeft ?? '');
+    events.push({ type: 'goAway', timeLeftMs: Number.isFinite(seconds) ? seconds * 1000 : null });
+  }
+  return events;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const stringArray = (value: unknown): string[] | undefined =>
+  Array.isArray(value) ? value.map(String) : undefined;
+
+// Converts a JSON Schema fragment into Gemini's OpenAPI-style Schema (upper-case type names).
+function toGeminiSchema(schema: Record<string, unknown>): Schema {
+  const result: Schema = {};
+  if (typeof schema.type === 'string') result.type = schema.type.toUpperCase() as Type;
+  if (typeof schema.description === 'string') result.description = schema.description;
+  const enumValues = stringArray(schema.enum);
+  if (enumValues) result.enum = enumValues;
+  const required = stringArray(schema.required);
+  if (required) result.required = required;
+  if (isRecord(schema.items)) result.items = toGeminiSchema(schema.items);
+  if (isRecord(schema.properties)) {
+    result.properties = Object.fromEntries(
+      Object.entries(schema.properties).flatMap(([k, v]) => isRecord(v) ? [[k, toGeminiSchema(v)]] : []),
+    );
+  }
+  return result;
+}
+
+const toFunctionDeclarations = (tools: ToolDeclaration[]) => tools.map(t => ({
+  name: t.name,
+  description: t.description,
+  ...(t.parameters ? { parameters: toGeminiSchema(t.parameters) } : {}),
+}));
+
+export const geminiProvider: InferenceProvider = {
+  id: 'google',
+  label: 'Google',
+  voices: ['Kore', 'Puck', 'Charon', 'Fenrir', 'Zephyr'],
+  maxSpeakers: 2,
+
+  async preflight(model, request) {
+    const { keyConfigured } = await apiRequest<{ keyConfigured: boolean }>('/api/health');
+    if (!keyConfigured) throw new AppError('missing-api-key', 'GEMINI_API_KEY is not set on the ANA server.');
+    if (request.capability === 'video' && request.file) validateVideoFile(request.file);
+    if (verifiedModels.has(model.id)) return;
+    // One metadata lookup validates the key, the model name and connectivity together.
+    try {
+      await createClient().models.get({ model: model.id });
+    } catch (err) {
+      throw classifyModelLookupError(err);
+    }
+    verifiedModels.add(model.id);
+  },
+
+  async connectLive(model, options, callbacks) {
+    const session = await (await createLiveClient()).live.connect({
+      model: model.id,
+      callbacks: {
+        onopen: callbacks.onOpen,
+        onmessage: (m: LiveServerMessage) => toLiveEvents(m).forEach(callbacks.onEvent),
+        onclose: (e: CloseEvent) => callbacks.onClose(e.reason || undefined),
+        onerror: callbacks.onError,
+      },
+      config: {
+        responseModalities: [Modality.AUDIO], inputAudioTranscription: {}, outputAudioTranscription: {},
+        systemInstruction: options.systemInstruction,
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: options.voice } } },
+        sessionResumption: options.resumptionHandle ? { handle: options.resumptionHandle } : {},
+        ...(options.manualActivity ? { realtimeInputConfig: { automaticActivityDetection: { disabled: true } } } : {}),
+        ...(options.tools?.length ? { tools: [{ functionDeclarations: toFunctionDeclarations(options.tools) }] } : {}),
+      },
+    });
+    return {
+      sendAudio: (data, mimeType) => session.sendRealtimeInput({ media: { data, mimeType } }),
+      startActivity: () => session.sendRealtimeInput({ activityStart: {} }),
+      endActivity: () => session.sendRealtimeInput({ activityEnd: {} }),
+      sendImage: (data, mimeType) => session.sendRealtimeInput({ media: { data, mimeType } }),
+      sendText: (text) => session.sendClientContent({ turns: [{ role: 'user', parts: [{ text }] }], turnComplete: true }),
+      sendToolResponses: (responses) => session.sendToolResponse({ functionResponses: responses }),
+      close: () => session.close(),
+    };
+  },
+
+  async generateText(model, request) {
+    const params = {
+      model: model.id,
+      contents: request.messages.map(m => ({ role: m.role, parts: [{ text: m.text }] })),
+      config: request.systemInstruction ? { systemInstruction: request.systemInstruction } : undefined,
+    };
+    if (!request.onChunk) {
+      const response = await createClient().models.generateContent(params);
+      return response.text ?? '';
+    }
+    let text = '';
+    for await (const chunk of await createClient().models.generateContentStream(params)) {
+      if (chunk.text) { text += chunk.text; request.onChunk(chunk.text); }
+    }
+    return text;
+  },
+
+  async synthesizeSpeech(model, request) {
+    const { speakers } = request;
+    const response = await createClient().models.generateContent({
+      model: model.id,
+      contents: [{
+        parts: [{
+          text: speakers
+            ? `Read this conversation between ${speakers.map(s => s.speaker).join(' and ')} naturally:\n${request.text}`
+            : `Say this naturally: ${request.text}`,
+        }],
+      }],
+      config: {
+        responseModalities: [Modality.AUDIO],
+        speechConfig: speakers
+          ? {
+            multiSpeakerVoiceConfig: {
+              speakerVoiceConfigs: speakers.map(s => ({
+                speaker: s.speaker,
+                voiceConfig: { prebuiltVoiceConfig: { voiceName: s.voice } },
+              })),
+            },
+          }
+          : {
+            voiceConfig: {
+              prebuiltVoiceConfig: { voiceName: request.voice },
+            },
+          },
+        abortSignal: request.signal,
+      },
+    });
+    const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
+    if (!base64Audio) throw new Error('Speech synthesis returned no audio.');
+    return { pcm: decode(base64Audio), sampleRate: 24000 };
+  },
+
+  async analyzeVideo(model, request) {
+    const video = await resolveVideoFile(request.file, request.signal, request.onProgress);
+    request.onProgress?.({ phase: 'analyzing', reusedUpload: video.reused });
+    const turns = [...(request.history ?? []), { role: 'user', text: request.prompt }];
+    const response = await createClient().models.generateContent({
+      model: model.id,
+      // The video rides along with the first user turn.
+      contents: turns.map((t, i) => ({
+        role: t.role,
+        parts: [
+          ...(i === 0 ? [{ fileData: { fileUri: video.uri, mimeType: video.mimeType } }] : []),
+          { text: t.text },
+        ],
+      })),
+      config: {
+        systemInstruction: request.systemInstruction,
+        thinkingConfig: { thinkingBudget: 4000 },
+        abortSignal: request.signal,
+        ...(request.responseSchema ? { responseMimeType: 'application/json', responseSchema: toGeminiSchema(request.responseSchema) } : {}),
+      }
+    });
+    return response.text ?? '';
+  },
+};
@@ -0,0 +1,18 @@
+// Messages exchanged between the main thread and the local inference worker.
+
+export type LocalDevice = 'webgpu' | 'wasm';
+
+// Load messages carry the requesting load's key, so replies to a superseded load can be told apart.
+export type LocalEngineRequest =
+  | { type: 'load'; key: string; modelId: string; dtype: string; preferWasm: boolean }
+  | { type: 'generate'; requestId: number; messages: { role: string; content: string }[]; maxNewTokens: number }
+  | { type: 'interrupt' };
+
+export type LocalEngineResponse =
+  | { type: 'loading'; key: string; modelId: string; device: LocalDevice }
+  | { type: 'progress'; key: string; file: string; loaded: number; total: number }
+  | { type: 'ready'; key: string; modelId: string; device: LocalDevice }
+  | { type: 'chunk'; requestId: number; text: string }
+  | { type: 'stats'; requestId: number; tokensPerSecond: number }
+  | { type: 'done'; requestId: number; text: string }
+  | { type: 'error'; requestId?: number; key?: string; message: string };
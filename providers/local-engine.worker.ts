@@ -0,0 +1,121 @@
+/// <reference lib="webworker" />
+import { env, pipeline, TextStreamer, InterruptableStoppingCriteria } from '@huggingface/transformers';
+import type { DataType, ProgressInfo, TextGenerationConfig, TextGenerationOutput, TextGenerationPipeline } from '@huggingface/transformers';
+import { LocalEngineRequest, LocalEngineResponse } from './local-engine-protocol';
+
+// Weights come from the Hugging Face Hub once, then from the browser Cache API.
+env.allowLocalModels = false;
+env.useBrowserCache = true;
+
+let generator: TextGenerationPipeline | null = null;
+let loadedKey: string | null = null;
+// Loads and generations run one at a time, since a load disposes the pipeline a generation may be using.
+let queue: Promise<void> = Promise.resolve();
+// Only the most recently requested load is worth running; earlier ones were superseded while queued.
+let latestLoadKey: string | null = null;
+// Per generation, so interrupting or finishing one never affects another.
+const activeGenerations = new Map<number, InterruptableStoppingCriteria>();
+
+const post = (message: LocalEngineResponse) => self.postMessage(message);
+
+// The pipeline forwards these to `generate`, though its option type only lists generation config.
+type GenerateOptions = Partial<TextGenerationConfig> & {
+  streamer: TextStreamer;
+  stopping_criteria: InterruptableStoppingCriteria;
+};
+
+// WebGPU types aren't in the TS lib yet; this is the one call made here.
+interface GpuNavigator {
+  gpu?: { requestAdapter(): Promise<unknown | null> };
+}
+
+async function detectDevice(preferWasm: boolean): Promise<'webgpu' | 'wasm'> {
+  if (preferWasm) return 'wasm';
+  const { gpu } = navigator as GpuNavigator;
+  if (!gpu) return 'wasm';
+  try {
+    return (await gpu.requestAdapter()) ? 'webgpu' : 'wasm';
+  } catch {
+    return 'wasm';
+  }
+}
+
+async function load(key: string, modelId: string, dtype: string, preferWasm: boolean) {
+  if (key !== latestLoadKey) return;
+  const device = await detectDevice(preferWasm);
+  const pipelineKey = `${modelId}:${dtype}:${device}`;
+  if (generator && loadedKey === pipelineKey) {
+    post({ type: 'ready', key, modelId, device });
+    return;
+  }
+  await generator?.dispose();
+  generator = null;
+  loadedKey = null;
+
+  post({ type: 'loading', key, modelId, device });
+  generator = await pipeline<'text-generation'>('text-generation', modelId, {
+    device,
+    // Registry ids such as 'q4'; Transformers.js validates them when loading.
+    dtype: dtype as DataType,
+    progress_callback: (info: ProgressInfo) => {
+      if (info.status === 'progress') {
+        post({ type: 'progress', key, file: info.file, loaded: info.loaded, total: info.total });
+      }
+    },
+  });
+  loadedKey = pipelineKey;
+  post({ type: 'ready', key, modelId, device });
+}
+
+async function generate(requestId: number, messages: { role: string; content: string }[], maxNewTokens: number) {
+  if (!generator) throw new Error('No local model is loaded.');
+  const stoppingCriteria = new InterruptableStoppingCriteria();
+  activeGenerations.set(requestId, stoppingCriteria);
+
+  let tokens = 0;
+  let firstTokenAt = 0;
+  const streamer = new TextStreamer(generator.tokenizer, {
+    skip_prompt: true,
+    skip_special_tokens: true,
+    callback_function: (text: string) => post({ type: 'chunk', requestId, text }),
+    token_callback_function: () => {
+      const now = performance.now();
+      if (tokens === 0) firstTokenAt = now;
+      tokens++;
+      const elapsed = (now - firstTokenAt) / 1000;
+      if (elapsed > 0) post({ type: 'stats', requestId, tokensPerSecond: (tokens - 1) / elapsed });
+    },
+  });
+
+  const options: GenerateOptions = {
+    max_new_tokens: maxNewTokens,
+    do_sample: false,
+    streamer,
+    stopping_criteria: stoppingCriteria,
+  };
+  const output = await generator(messages, options).finally(() => activeGenerations.delete(requestId));
+  // A single chat gives a single output list, whose text is the chat with the reply appended.
+  const generated = (output as TextGenerationOutput)[0].generated_text;
+  const text = Array.isArray(generated) ? generated.at(-1)?.content ?? '' : generated;
+  post({ type: 'done', requestId, text });
+}
+
+const enqueue = (task: () => Promise<void>, onError: (message: string) => void) => {
+  queue = queue.then(task).catch(err => onError(err instanceof Error ? err.message : String(err)));
+};
+
+self.onmessage = (e: MessageEvent<LocalEngineRequest>) => {
+  const msg = e.data;
+  switch (msg.type) {
+    case 'load':
+      latestLoadKey = msg.key;
+      enqueue(() => load(msg.key, msg.modelId, msg.dtype, msg.preferWasm), message => post({ type: 'error', key: msg.key, message }));
+      break;
+    case 'generate':
+      enqueue(() => generate(msg.requestId, msg.messages, msg.maxNewTokens), message => post({ type: 'error', requestId: msg.requestId, message }));
+      break;
+    case 'interrupt':
+      activeGenerations.forEach(criteria => criteria.interrupt());
+      break;
+  }
+};
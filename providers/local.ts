@@ -0,0 +1,198 @@
+import { InferenceProvider, ModelConfig } from '../types';
+import { LocalDevice, LocalEngineRequest, LocalEngineResponse } from './local-engine-protocol';
+import { AppError } from '../utils/errors';
+
+const PREFER_WASM_KEY = 'ana.localEngine.preferWasm';
+const MAX_NEW_TOKENS = 1024;
+
+export type LocalEngineStatus = 'idle' | 'loading' | 'ready' | 'generating' | 'error';
+
+export interface LocalEngineState {
+  status: LocalEngineStatus;
+  modelId: string | null;
+  device: LocalDevice | null;
+  // Aggregate download progress across all weight files, 0..1.
+  progress: number;
+  tokensPerSecond: number | null;
+  preferWasm: boolean;
+  error: string | null;
+}
+
+function loadPreferWasm(): boolean {
+  try {
+    return localStorage.getItem(PREFER_WASM_KEY) === 'true';
+  } catch {
+    return false;
+  }
+}
+
+// Created on first use, so importing the provider registry never touches storage.
+let state: LocalEngineState | null = null;
+
+const listeners = new Set<() => void>();
+const fileProgress = new Map<string, { loaded: number; total: number }>();
+
+let worker: Worker | null = null;
+let nextRequestId = 1;
+let pendingLoad: { key: string; promise: Promise<void>; resolve: () => void; reject: (e: Error) => void } | null = null;
+const pendingGenerations = new Map<number, { resolve: (text: string) => void; reject: (e: Error) => void; onChunk?: (text: string) => void }>();
+
+function setState(patch: Partial<LocalEngineState>) {
+  state = { ...getLocalEngineState(), ...patch };
+  listeners.forEach(l => l());
+}
+
+export function subscribeLocalEngine(listener: () => void): () => void {
+  listeners.add(listener);
+  return () => listeners.delete(listener);
+}
+
+export function getLocalEngineState(): LocalEngineState {
+  state ??= {
+    status: 'idle',
+    modelId: null,
+    device: null,
+    progress: 0,
+    tokensPerSecond: null,
+    preferWasm: loadPreferWasm(),
+    error: null,
+  };
+  return state;
+}
+
+function handleResponse(msg: LocalEngineResponse) {
+  // A superseded load may still report in; its promise was already rejected.
+  if ('key' in msg && msg.key !== undefined && msg.key !== pendingLoad?.key) return;
+  switch (msg.type) {
+    case 'loading':
+      fileProgress.clear();
+      setState({ status: 'loading', modelId: msg.modelId, device: msg.device, progress: 0, error: null });
+      break;
+    case 'progress': {
+      fileProgress.set(msg.file, { loaded: msg.loaded, total: msg.total });
+      let loaded = 0, total = 0;
+      fileProgress.forEach(f => { loaded += f.loaded; total += f.total; });
+      setState({ progress: total ? loaded / total : 0 });
+      break;
+    }
+    case 'ready':
+      setState({ status: 'ready', modelId: msg.modelId, device: msg.device, progress: 1 });
+      pendingLoad?.resolve();
+      pendingLoad = null;
+      break;
+    case 'chunk':
+      pendingGenerations.get(msg.requestId)?.onChunk?.(msg.text);
+      break;
+    case 'stats':
+      setState({ tokensPerSecond: msg.tokensPerSecond });
+      break;
+    case 'done':
+      pendingGenerations.get(msg.requestId)?.resolve(msg.text);
+      pendingGenerations.delete(msg.requestId);
+      setState({ status: 'ready' });
+      break;
+    case 'error': {
+      const error = new Error(msg.message);
+      if (msg.requestId !== undefined) {
+        pendingGenerations.get(msg.requestId)?.reject(error);
+        pendingGenerations.delete(msg.requestId);
+        setState({ status: 'ready', error: msg.message });
+      } else {
+        pendingLoad?.reject(error);
+        pendingLoad = null;
+        setState({ status: 'error', error: msg.message });
+      }
+      break;
+    }
+  }
+}
+
+// The worker script failed to load or crashed: nothing pending will be answered, so fail it all
+// and start a fresh worker on the next request.
+function handleWorkerFailure(e: ErrorEvent) {
+  const error = new Error(e.message || 'The local inference worker failed to start.');
+  worker?.terminate();
+  worker = null;
+  pendingLoad?.reject(error);
+  pendingLoad = null;
+  pendingGenerations.forEach(g => g.reject(error));
+  pendingGenerations.clear();
+  setState({ status: 'error', error: error.message });
+}
+
+function getWorker(): Worker {
+  if (!worker) {
+    worker = new Worker(new URL('./local-engine.worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (e: MessageEvent<LocalEngineResponse>) => handleResponse(e.data);
+    worker.onerror = handleWorkerFailure;
+  }
+  return worker;
+}
+
+const send = (msg: LocalEngineRequest) => getWorker().postMessage(msg);
+
+/** Downloads (or reads from cache) and initializes a model. Resolves immediately if it is already loaded. */
+export function loadLocalModel(model: ModelConfig): Promise<void> {
+  const { preferWasm } = getLocalEngineState();
+  const key = `${model.id}:${model.dtype ?? 'q4'}:${preferWasm}`;
+  if (pendingLoad?.key === key) return pendingLoad.promise;
+  let resolve!: () => void, reject!: (e: Error) => void;
+  const promise = new Promise<void>((res, rej) => { resolve = res; reject = rej; });
+  pendingLoad?.reject(new Error('Superseded by another model load.'));
+  pendingLoad = { key, promise, resolve, reject };
+  send({ type: 'load', key, modelId: model.id, dtype: model.dtype ?? 'q4', preferWasm });
+  return promise;
+}
+
+export function setPreferWasm(preferWasm: boolean) {
+  localStorage.setItem(PREFER_WASM_KEY, String(preferWasm));
+  // Force the next request to reload on the chosen backend.
+  const { status } = getLocalEngineState();
+  setState({ preferWasm, status: status === 'ready' ? 'idle' : status });
+}
+
+export function interruptLocalGeneration() {
+  if (worker) send({ type: 'interrupt' });
+}
+
+/**
+ * Runs small instruction-tuned models fully in the browser through Transformers.js.
+ * Inference happens in a dedicated worker on WebGPU when available, otherwise WASM (CPU).
+ */
+export const localProvider: InferenceProvider = {
+  id: 'local',
+  label: 'Local',
+  voices: [],
+  maxSpeakers: 1,
+
+  async preflight() {
+    if (typeof Worker === 'undefined') throw new AppError('unsupported-browser', 'Web Workers are not available.');
+  },
+
+  async connectLive(model) {
+    throw new Error(`${model.name} does not support live audio sessions.`);
+  },
+
+  async generateText(model, request) {
+    const { status, modelId } = getLocalEngineState();
+    if (status !== 'ready' || modelId !== model.id) await loadLocalModel(model);
+    const requestId = nextRequestId++;
+    const messages = [
+      ...(request.systemInstruction ? [{ role: 'system', content: request.systemInstruction }] : []),
+      ...request.messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text })),
+    ];
+    setState({ status: 'generating', tokensPerSecond: null, error: null });
+    return new Promise<string>((resolve, reject) => {
+      pendingGenerations.set(requestId, { resolve, reject, onChunk: request.onChunk });
+      send({ type: 'generate', requestId, messages, maxNewTokens: MAX_NEW_TOKENS });
+    });
+  },
+
+  async synthesizeSpeech(model) {
+    throw new Error(`${model.name} does not support speech synthesis.`);
+  },
+
+  async analyzeVideo(model) {
+    throw new Error(`${model.name} does not support video analysis.`);
+  },
+};
@@ -0,0 +1,104 @@
+import { InferenceProvider, ModelConfig } from '../types';
+import { extractVideoFrames } from '../utils/file-utils';
+import { AppError, HttpError, classifyError } from '../utils/errors';
+
+// Frames sampled from a video for endpoints that only understand images.
+const VIDEO_FRAME_COUNT = 8;
+
+async function request(model: ModelConfig, path: string, body?: unknown, signal?: AbortSignal): Promise<Response> {
+  if (!model.endpoint) throw new AppError('unknown-model', `Model "${model.name}" has no endpoint configured.`);
+  const { baseUrl, apiKey } = model.endpoint;
+  const response = await fetch(`${baseUrl.replace(/\/+$/, '')}${path}`, {
+    method: body === undefined ? 'GET' : 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+    },
+    ...(body === undefined ? {} : { body: JSON.stringify(body) }),
+    signal,
+  });
+  if (!response.ok) {
+    const detail = await response.text().catch(() => '');
+    throw new HttpError(response.status, `${baseUrl}${path} responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+  }
+  return response;
+}
+
+async function chatCompletion(model: ModelConfig, messages: unknown[], signal?: AbortSignal, responseSchema?: Record<string, unknown>): Promise<string> {
+  const response = await request(model, '/chat/completions', {
+    model: model.id,
+    messages,
+    ...(responseSchema ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } } } : {}),
+  }, signal);
+  const json = await response.json();
+  return json.choices?.[0]?.message?.content ?? '';
+}
+
+/**
+ * Adapter for servers that speak the OpenAI REST dialect (llama.cpp server, Ollama, vLLM, LM Studio...).
+ * Live audio sessions have no equivalent in that API and are rejected.
+ */
+export const openAICompatibleProvider: InferenceProvider = {
+  id: 'openai-compatible',
+  label: 'OpenAI-compatible',
+  voices: ['alloy', 'echo', 'fable', 'onyx', 'nova', 'shimmer'],
+  maxSpeakers: 1,
+
+  async preflight(model) {
+    let json: { data?: { id?: string }[] };
+    try {
+      json = await (await request(model, '/models')).json().catch(() => ({}));
+    } catch (err) {
+      // Not every server implements the listing; only unreachable or unauthorised ones are fatal.
+      if (err instanceof HttpError && err.status === 404) return;
+      throw classifyError(err);
+    }
+    const ids = json.data?.map(m => m.id) ?? [];
+    if (ids.length && !ids.includes(model.id)) {
+      throw new AppError('unknown-model', `${model.endpoint?.baseUrl} does not serve "${model.id}" (available: ${ids.slice(0, 5).join(', ')}).`);
+    }
+  },
+
+  async connectLive(model) {
+    throw new Error(`${model.name} does not support live audio sessions.`);
+  },
+
+  async generateText(model, req) {
+    const messages = [
+      ...(req.systemInstruction ? [{ role: 'system', content: req.systemInstruction }] : []),
+      ...req.messages.map(m => ({ role: m.role === 'model' ? 'assistant' : 'user', content: m.text })),
+    ];
+    return chatCompletion(model, messages);
+  },
+
+  async synthesizeSpeech(model, req) {
+    // `pcm` is raw 24 kHz mono PCM16, the same format Gemini TTS returns.
+    const response = await request(model, '/audio/speech', {
+      model: model.id,
+      input: req.text,
+      voice: req.voice,
+      response_format: 'pcm',
+    }, req.signal);
+    return { pcm: new Uint8Array(await response.arrayBuffer()), sampleRate: 24000 };
+  },
+
+  async analyzeVideo(model, req) {
+    const frames = await extractVideoFrames(req.file, VIDEO_FRAME_COUNT);
+    req.signal?.throwIfAborted();
+    req.onProgress?.({ phase: 'analyzing', reusedUpload: false });
+    const turns = [...(req.history ?? []), { role: 'user', text: req.prompt }];
+    const messages = turns.map((t, i) => i === 0
+      ? {
+        role: 'user',
+        content: [
+          { type: 'text', text: `The following ${frames.length} images are evenly spaced frames from a video, in order.\n\n${t.text}` },
+          ...frames.map(url => ({ type: 'image_url', image_url: { url } })),
+        ],
+      }
+      : { role: t.role === 'model' ? 'assistant' : 'user', content: t.text });
+    return chatCompletion(model, [
+      ...(req.systemInstruction ? [{ role: 'system', content: req.systemInstruction }] : []),
+      ...messages,
+    ], req.signal, req.responseSchema);
+  },
+};
@@ -0,0 +1,49 @@
+import { InferenceProvider, ModelCapability, ModelConfig, ProviderID } from '../types';
+import { geminiProvider } from './gemini';
+import { openAICompatibleProvider } from './openai-compatible';
+import { localProvider } from './local';
+
+export const PROVIDERS: Record<ProviderID, InferenceProvider> = {
+  'google': geminiProvider,
+  'openai-compatible': openAICompatibleProvider,
+  'local': localProvider,
+};
+
+export const MODEL_REGISTRY: ModelConfig[] = [
+  { id: 'gemini-2.5-flash-native-audio-preview-12-2025', name: 'Gemini 2.5 Flash Native Audio', provider: 'google', capabilities: ['live'] },
+  { id: 'gemini-2.5-flash', name: 'Gemini 2.5 Flash', provider: 'google', capabilities: ['text', 'video'] },
+  { id: 'gemini-2.5-flash-preview-tts', name: 'Gemini 2.5 Flash TTS', provider: 'google', capabilities: ['tts'] },
+  { id: 'gemini-3-pro-preview', name: 'Gemini 3 Pro', provider: 'google', capabilities: ['text', 'video'] },
+  // In-browser models, small enough to run on CPU-only machines through WASM.
+  { id: 'onnx-community/gemma-3-1b-it-ONNX', name: 'Gemma 3 1B (in-browser)', provider: 'local', capabilities: ['text'], dtype: 'q4' },
+  { id: 'onnx-community/Qwen2.5-0.5B-Instruct', name: 'Qwen2.5 0.5B (in-browser)', provider: 'local', capabilities: ['text'], dtype: 'q4' },
+  { id: 'HuggingFaceTB/SmolLM2-360M-Instruct', name: 'SmolLM2 360M (in-browser)', provider: 'local', capabilities: ['text'], dtype: 'q4' },
+];
+
+// Seed entry for a self-hosted server; users edit or add their own from the model picker.
+export const DEFAULT_CUSTOM_MODELS: ModelConfig[] = [
+  { id: 'llama3.2', name: 'Ollama (localhost)', provider: 'openai-compatible', capabilities: ['text'], endpoint: { baseUrl: 'http://localhost:11434/v1' } },
+];
+
+export const DEFAULT_SELECTIONS: Record<ModelCapability, string> = {
+  live: 'google:gemini-2.5-flash-native-audio-preview-12-2025',
+  text: 'google:gemini-2.5-flash',
+  tts: 'google:gemini-2.5-flash-preview-tts',
+  video: 'google:gemini-3-pro-preview',
+};
+
+export const modelKey = (model: ModelConfig) => `${model.provider}:${model.id}`;
+
+export const getProvider = (model: ModelConfig): InferenceProvider => PROVIDERS[model.provider];
+
+/** Short label describing where inference runs, shown in the header badge. */
+export function locationLabel(model: ModelConfig): string {
+  if (model.provider === 'local') return 'ON-DEVICE';
+  if (!model.endpoint) return 'CLOUD';
+  try {
+    const host = new URL(model.endpoint.baseUrl).hostname;
+    return host === 'localhost' || host === '127.0.0.1' || host.endsWith('.local') ? 'LOCAL SERVER' : 'SELF-HOSTED';
+  } catch {
+    return 'SELF-HOSTED';
+  }
+}
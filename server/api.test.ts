@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeAll, afterAll, afterEach } from 'vitest';
+import { createServer, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createApiMiddleware, isProxiedPath, isSameOrigin } from './api';
+
+describe('isProxiedPath', () => {
+  it('allows model metadata, generation and the Files API', () => {
+    expect(isProxiedPath('/v1beta/models/gemini-2.5-flash')).toBe(true);
+    expect(isProxiedPath('/v1beta/models/gemini-2.5-flash:generateContent')).toBe(true);
+    expect(isProxiedPath('/v1beta/models/gemini-2.5-flash:streamGenerateContent')).toBe(true);
+    expect(isProxiedPath('/upload/v1beta/files')).toBe(true);
+    expect(isProxiedPath('/v1beta/files/abc-123')).toBe(true);
+  });
+
+  it('rejects everything else', () => {
+    expect(isProxiedPath('/v1beta/models/gemini-2.5-flash:countTokens')).toBe(false);
+    expect(isProxiedPath('/v1beta/models')).toBe(false);
+    expect(isProxiedPath('/v1beta/tunedModels/x')).toBe(false);
+    expect(isProxiedPath('/v1beta/files/../cachedContents')).toBe(false);
+  });
+});
+
+describe('isSameOrigin', () => {
+  it('trusts Sec-Fetch-Site when the browser sends it', () => {
+    expect(isSameOrigin({ 'sec-fetch-site': 'same-origin' })).toBe(true);
+    expect(isSameOrigin({ 'sec-fetch-site': 'cross-site', origin: 'http://localhost:3000', host: 'localhost:3000' })).toBe(false);
+  });
+
+  it('falls back to comparing Origin with Host', () => {
+    expect(isSameOrigin({ origin: 'http://localhost:3000', host: 'localhost:3000' })).toBe(true);
+    expect(isSameOrigin({ origin: 'http://evil.test', host: 'localhost:3000' })).toBe(false);
+    expect(isSameOrigin({ origin: 'null', host: 'localhost:3000' })).toBe(false);
+  });
+
+  it('refuses requests carrying neither header', () => {
+    expect(isSameOrigin({ host: 'localhost:3000' })).toBe(false);
+  });
+});
+
+describe('createApiMiddleware', () => {
+  const clientFetch = globalThis.fetch;
+  const upstream = vi.fn<typeof fetch>();
+  let server: Server;
+  let base: string;
+
+  beforeAll(async () => {
+    const api = createApiMiddleware('test-key');
+    server = createServer((req, res) => api(req, res, () => {
+      res.writeHead(200, { 'Content-Type': 'text/plain' });
+      res.end('static');
+    }));
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    vi.stubGlobal('fetch', upstream);
+  });
+
+  afterAll(async () => {
+    vi.unstubAllGlobals();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  afterEach(() => upstream.mockReset());
+
+  const call = (path: string, init: RequestInit = {}) =>
+    clientFetch(`${base}${path}`, { ...init, headers: { 'Sec-Fetch-Site': 'same-origin', ...init.headers } });
+
+  it('leaves non-API paths to the next handler', async () => {
+    expect(await (await call('/live')).text()).toBe('static');
+  });
+
+  it('answers the health check for any origin', async () => {
+    const res = await clientFetch(`${base}/api/health`);
+    expect(await res.json()).toEqual({ keyConfigured: true });
+  });
+
+  it('refuses cross-origin API calls without reaching Google', async () => {
+    const res = await call('/api/live-token', { method: 'POST', headers: { 'Sec-Fetch-Site': 'cross-site' } });
+    expect(res.status).toBe(403);
+    expect((await res.json()).error.status).toBe('ANA_CROSS_ORIGIN');
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it('refuses paths outside the allowlist', async () => {
+    const res = await call('/api/gemini/v1beta/models/gemini-2.5-flash:countTokens', { method: 'POST', body: '{}' });
+    expect(res.status).toBe(404);
+    expect((await res.json()).error.message).toContain('is not proxied');
+    expect(upstream).not.toHaveBeenCalled();
+  });
+
+  it('streams uploads through with the key and points follow-ups back at the proxy', async () => {
+    let sent: { url: string; headers: Record<string, string>; duplex?: string; body: string } | null = null;
+    upstream.mockImplementation(async (url, init) => {
+      const { duplex } = init as RequestInit & { duplex?: string };
+      sent = { url: String(url), headers: init?.headers as Record<string, string>, duplex, body: await new Response(init?.body).text() };
+      return new Response('{}', {
+        headers: {
+          'content-type': 'application/json',
+          'x-goog-upload-url': 'https://generativelanguage.googleapis.com/upload/v1beta/files?upload_id=42',
+          'x-goog-upload-status': 'active',
+        },
+      });
+    });
+
+    const res = await call('/api/gemini/upload/v1beta/files?uploadType=resumable', {
+      method: 'POST',
+      headers: { 'Content-Type': 'video/mp4', 'X-Goog-Upload-Command': 'upload, finalize', 'X-Goog-Upload-Offset': '0' },
+      body: 'frame-bytes',
+    });
+
+    expect(res.status).toBe(200);
+    expect(res.headers.get('x-goog-upload-url')).toBe('/api/gemini/upload/v1beta/files?upload_id=42');
+    expect(res.headers.get('x-goog-upload-status')).toBe('active');
+    expect(sent).toMatchObject({
+      url: 'https://generativelanguage.googleapis.com/upload/v1beta/files?uploadType=resumable',
+      duplex: 'half',
+      body: 'frame-bytes',
+      headers: {
+        'Content-Type': 'video/mp4',
+        'x-goog-api-key': 'test-key',
+        'x-goog-upload-command': 'upload, finalize',
+        'x-goog-upload-offset': '0',
+      },
+    });
+  });
+});
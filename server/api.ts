@@ -0,0 +1,173 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { GoogleGenAI } from '@google/genai';
+import { CROSS_ORIGIN_STATUS } from '../utils/errors';
+
+const GEMINI_ORIGIN = 'https://generativelanguage.googleapis.com';
+
+// Only what the app needs: model metadata (preflight), content generation (text, TTS, video)
+// and the Files API (resumable video uploads, processing-state polls).
+const PROXY_ALLOWLIST = [
+  /^\/(v1beta|v1alpha|v1)\/models\/[\w.-]+(:generateContent|:streamGenerateContent)?$/,
+  /^\/upload\/v1beta\/files$/,
+  /^\/v1beta\/files\/[\w-]+$/,
+];
+
+// Applies to buffered JSON bodies; file uploads are streamed through unbuffered.
+const MAX_BODY_BYTES = 32 * 1024 * 1024;
+
+// A live token may open one session within a minute and stays valid for messages for 30.
+const TOKEN_NEW_SESSION_MS = 60 * 1000;
+const TOKEN_LIFETIME_MS = 30 * 60 * 1000;
+
+type Next = (err?: unknown) => void;
+
+class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly reason?: string) {
+    super(message);
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown) {
+  res.writeHead(status, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+  res.end(JSON.stringify(body));
+}
+
+// Errors use Google's `{ error: { code, message } }` envelope so the SDK surfaces the message unchanged.
+const sendError = (res: ServerResponse, status: number, message: string, reason?: string) =>
+  sendJson(res, status, { error: { code: status, message, ...(reason ? { status: reason } : {}) } });
+
+/**
+ * Whether a request comes from a page served by this same server. Browsers send `Sec-Fetch-Site`
+ * on every fetch, and older ones at least send `Origin` on POSTs. Requests carrying neither, such
+ * as scripts on another machine, are refused. Both headers can be forged outside a browser, so this
+ * keeps other sites from spending the key; binding to loopback is what keeps other hosts out.
+ */
+export function isSameOrigin(headers: IncomingMessage['headers']): boolean {
+  const site = headers['sec-fetch-site'];
+  if (site) return site === 'same-origin';
+  if (!headers.origin || !headers.host) return false;
+  try {
+    return new URL(headers.origin).host === headers.host;
+  } catch {
+    return false;
+  }
+}
+
+async function readBody(req: IncomingMessage): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) throw new HttpError(413, `Request payload size exceeds the limit: ${MAX_BODY_BYTES} bytes.`);
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+}
+
+async function mintLiveToken(apiKey: string) {
+  const client = new GoogleGenAI({ apiKey, httpOptions: { apiVersion: 'v1alpha' } });
+  const now = Date.now();
+  const token = await client.authTokens.create({
+    config: {
+      uses: 1,
+      newSessionExpireTime: new Date(now + TOKEN_NEW_SESSION_MS).toISOString(),
+      expireTime: new Date(now + TOKEN_LIFETIME_MS).toISOString(),
+    },
+  });
+  if (!token.name) throw new Error('The token service returned no token.');
+  return { token: token.name, expiresAt: now + TOKEN_LIFETIME_MS };
+}
+
+/** Whether a path under `/api/gemini` is one the proxy forwards. */
+export const isProxiedPath = (pathname: string) => PROXY_ALLOWLIST.some(pattern => pattern.test(pathname));
+
+// Node's fetch streams a web ReadableStream body only in half-duplex mode, which the DOM typings don't list.
+interface StreamingRequestInit extends RequestInit {
+  duplex?: 'half';
+}
+
+/** Streams a request body without buffering it, for uploads of up to 2 GB. */
+function streamBody(req: IncomingMessage): ReadableStream<Uint8Array> {
+  const chunks = req[Symbol.asyncIterator]();
+  return new ReadableStream({
+    async pull(controller) {
+      const { value, done } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(value);
+    },
+    cancel() {
+      req.destroy();
+    },
+  });
+}
+
+async function proxyToGemini(req: IncomingMessage, res: ServerResponse, apiKey: string, path: string) {
+  const url = new URL(path, 'http://local');
+  if (!isProxiedPath(url.pathname)) throw new HttpError(404, `${url.pathname} is not proxied.`);
+  if (req.method !== 'GET' && req.method !== 'POST') throw new HttpError(405, `${req.method} is not allowed.`);
+
+  const headers: Record<string, string> = {
+    'Content-Type': req.headers['content-type'] ?? 'application/json',
+    'x-goog-api-key': apiKey,
+  };
+  // The resumable upload protocol is driven entirely by these headers.
+  for (const [name, value] of Object.entries(req.headers)) {
+    if (name.startsWith('x-goog-upload-') && typeof value === 'string') headers[name] = value;
+  }
+  const isUpload = url.pathname.startsWith('/upload/');
+  if (isUpload && req.headers['content-length']) headers['Content-Length'] = req.headers['content-length'];
+
+  const init: StreamingRequestInit = { method: req.method, headers };
+  if (req.method === 'POST' && isUpload) {
+    init.body = streamBody(req);
+    init.duplex = 'half';
+  } else if (req.method === 'POST') {
+    init.body = await readBody(req);
+  }
+  const upstream = await fetch(`${GEMINI_ORIGIN}${url.pathname}${url.search}`, init);
+
+  const responseHeaders: Record<string, string> = {
+    'Content-Type': upstream.headers.get('content-type') ?? 'application/json',
+    'Cache-Control': 'no-store',
+  };
+  const uploadUrl = upstream.headers.get('x-goog-upload-url');
+  // Point follow-up upload requests back at this proxy so they carry the key too.
+  if (uploadUrl) responseHeaders['x-goog-upload-url'] = uploadUrl.replace(GEMINI_ORIGIN, '/api/gemini');
+  const uploadStatus = upstream.headers.get('x-goog-upload-status');
+  if (uploadStatus) responseHeaders['x-goog-upload-status'] = uploadStatus;
+  res.writeHead(upstream.status, responseHeaders);
+  if (!upstream.body) return void res.end();
+  // Streamed generations (alt=sse) are relayed chunk by chunk.
+  Readable.fromWeb(upstream.body as import('node:stream/web').ReadableStream).pipe(res);
+}
+
+/**
+ * Connect-style middleware holding the Gemini key server-side. Mounted by the Vite dev server
+ * and by the standalone server in `server/index.ts`.
+ *
+ * - `GET  /api/health`      whether a key is configured
+ * - `POST /api/live-token`  a single-use ephemeral token for one Live API session
+ * - `*    /api/gemini/...`  REST calls forwarded to generativelanguage.googleapis.com with the key attached
+ *
+ * Everything except the health check is only answered for same-origin requests.
+ */
+export function createApiMiddleware(apiKey: string | undefined) {
+  return async (req: IncomingMessage, res: ServerResponse, next: Next) => {
+    const path = req.url ?? '/';
+    if (!path.startsWith('/api/')) return next();
+    try {
+      if (path === '/api/health') return sendJson(res, 200, { keyConfigured: !!apiKey });
+      if (!isSameOrigin(req.headers)) throw new HttpError(403, 'API routes only accept requests from the ANA app itself.', CROSS_ORIGIN_STATUS);
+      if (!apiKey) throw new HttpError(503, 'GEMINI_API_KEY is not set on the server.');
+
+      if (path === '/api/live-token' && req.method === 'POST') return sendJson(res, 200, await mintLiveToken(apiKey));
+      if (path.startsWith('/api/gemini/')) return await proxyToGemini(req, res, apiKey, path.slice('/api/gemini'.length));
+      throw new HttpError(404, `${path} not found.`);
+    } catch (err) {
+      if (res.headersSent) return void res.destroy(err as Error);
+      const status = err instanceof HttpError ? err.status : (err as { status?: number }).status ?? 502;
+      sendError(res, status, err instanceof Error ? err.message : String(err), err instanceof HttpError ? err.reason : undefined);
+    }
+  };
+}
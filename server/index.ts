@@ -0,0 +1,65 @@
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, createReadStream } from 'node:fs';
+import { extname, join, resolve } from 'node:path';
+import { createApiMiddleware } from './api';
+import { decodePathname, isFile, isInside } from './static';
+
+const ROOT = resolve(import.meta.dirname, '..');
+const DIST = join(ROOT, 'dist');
+
+const MIME_TYPES: Record<string, string> = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript',
+  '.css': 'text/css',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.wasm': 'application/wasm',
+};
+
+// Same files Vite reads, so one .env.local serves both `npm run dev` and `npm run server`.
+function loadEnvFiles() {
+  for (const file of ['.env', '.env.local']) {
+    const path = join(ROOT, file);
+    if (!existsSync(path)) continue;
+    for (const line of readFileSync(path, 'utf8').split(/\r?\n/)) {
+      const match = line.match(/^\s*([\w.]+)\s*=\s*(.*?)\s*$/);
+      if (match && process.env[match[1]] === undefined) process.env[match[1]] = match[2].replace(/^(['"])(.*)\1$/, '$2');
+    }
+  }
+}
+
+loadEnvFiles();
+const api = createApiMiddleware(process.env.GEMINI_API_KEY || process.env.API_KEY);
+const port = Number(process.env.PORT) || 8787;
+// Loopback only unless HOST says otherwise, since the API routes spend the server's key.
+const host = process.env.HOST || '127.0.0.1';
+
+const server = createServer((req, res) => {
+  api(req, res, () => {
+    // Serve the production build, falling back to index.html for client-side routes.
+    const pathname = decodePathname(req.url);
+    if (pathname === null) {
+      res.writeHead(400, { 'Content-Type': 'text/plain' });
+      res.end('Malformed URL.');
+      return;
+    }
+    const candidate = resolve(DIST, `.${pathname}`);
+    const file = isInside(DIST, candidate) && isFile(candidate)
+      ? candidate
+      : join(DIST, 'index.html');
+    if (!existsSync(file)) {
+      res.writeHead(404, { 'Content-Type': 'text/plain' });
+      res.end('No build found. Run `npm run build`, or use `npm run dev` during development.');
+      return;
+    }
+    res.writeHead(200, { 'Content-Type': MIME_TYPES[extname(file)] ?? 'application/octet-stream' });
+    createReadStream(file).on('error', () => res.destroy()).pipe(res);
+  });
+});
+
+server.listen(port, host, () => {
+  console.log(`ANA server listening on http://${host.includes(':') ? `[${host}]` : host}:${port}`);
+  if (!process.env.GEMINI_API_KEY && !process.env.API_KEY) console.warn('GEMINI_API_KEY is not set; API routes will return 503.');
+});
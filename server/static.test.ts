@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { join, resolve } from 'node:path';
+import { decodePathname, isFile, isInside } from './static';
+
+const DIST = resolve('/srv/ana/dist');
+const resolveIn = (pathname: string) => resolve(DIST, `.${pathname}`);
+
+describe('decodePathname', () => {
+  it('decodes escapes and drops the query', () => {
+    expect(decodePathname('/assets/a%20b.js?v=1')).toBe('/assets/a b.js');
+    expect(decodePathname(undefined)).toBe('/');
+  });
+
+  it('returns null for malformed escapes instead of throwing', () => {
+    expect(decodePathname('/%E0%A4%A')).toBeNull();
+  });
+});
+
+describe('isInside', () => {
+  it('accepts files under the root', () => {
+    expect(isInside(DIST, resolveIn('/assets/index.js'))).toBe(true);
+  });
+
+  it('rejects the root itself, parents and prefix-sharing siblings', () => {
+    expect(isInside(DIST, resolveIn('/'))).toBe(false);
+    expect(isInside(DIST, resolveIn(decodePathname('/..%2f..%2fetc%2fpasswd')!))).toBe(false);
+    expect(isInside(DIST, resolveIn(decodePathname('/..%2fdist-old%2fsecret')!))).toBe(false);
+  });
+});
+
+describe('isFile', () => {
+  it('reports misses instead of throwing', () => {
+    expect(isFile(join(import.meta.dirname, 'static.ts'))).toBe(true);
+    expect(isFile(import.meta.dirname)).toBe(false);
+    expect(isFile(join(import.meta.dirname, 'static.ts', 'x'))).toBe(false);
+    expect(isFile(join(import.meta.dirname, 'a\0b'))).toBe(false);
+  });
+});
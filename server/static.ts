@@ -0,0 +1,26 @@
+import { statSync } from 'node:fs';
+import { isAbsolute, relative, sep } from 'node:path';
+
+// Null for malformed escapes such as `%E0%A4%A`.
+export function decodePathname(url: string | undefined): string | null {
+  try {
+    return decodeURIComponent(new URL(url ?? '/', 'http://local').pathname);
+  } catch {
+    return null;
+  }
+}
+
+// Inside `root` and not `root` itself; a sibling such as `dist-old` shares the prefix but not the separator.
+export function isInside(root: string, path: string) {
+  const rel = relative(root, path);
+  return rel !== '' && rel !== '..' && !rel.startsWith(`..${sep}`) && !isAbsolute(rel);
+}
+
+// Paths like `/index.html/x` or ones containing NUL make stat throw rather than report a miss.
+export function isFile(path: string) {
+  try {
+    return statSync(path).isFile();
+  } catch {
+    return false;
+  }
+}
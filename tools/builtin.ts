@@ -0,0 +1,120 @@
+import { TranscriptionEntry } from '../types';
+import { LiveTool } from './types';
+import { MAX_MATCHES, MAX_PATTERN_LENGTH, TranscriptSearchResult, compileSearchPattern } from './transcript-search';
+
+// Keeps tool responses well inside the live session's context budget.
+const MAX_TOOL_TEXT = 20000;
+
+const truncate = (text: string) =>
+  text.length > MAX_TOOL_TEXT ? `${text.slice(0, MAX_TOOL_TEXT)}\n[truncated ${text.length - MAX_TOOL_TEXT} characters]` : text;
+
+export const readClipboardTool: LiveTool = {
+  declaration: {
+    name: 'read_clipboard',
+    description: "Reads the text currently on the user's clipboard, e.g. a copied stack trace or config.",
+  },
+  requiresApproval: true,
+  handler: async () => {
+    const text = await navigator.clipboard.readText();
+    return { text: truncate(text) };
+  },
+};
+
+// The File System Access picker is Chromium-only and not in the TS DOM lib yet.
+interface FilePickerWindow {
+  showOpenFilePicker?: (options?: { multiple?: boolean }) => Promise<{ getFile(): Promise<File> }[]>;
+}
+
+export const readLocalFileTool: LiveTool = {
+  declaration: {
+    name: 'read_local_file',
+    description: 'Asks the user to pick a local text file (source, log or config) and returns its contents.',
+    parameters: {
+      type: 'object',
+      properties: {
+        reason: { type: 'string', description: 'Why the file is needed, shown to the user.' },
+      },
+    },
+  },
+  requiresApproval: true,
+  handler: async () => {
+    const { showOpenFilePicker } = window as FilePickerWindow;
+    if (!showOpenFilePicker) throw new Error('The File System Access API is not supported in this browser.');
+    const [handle] = await showOpenFilePicker({ multiple: false });
+    const file = await handle.getFile();
+    return { name: file.name, size: file.size, text: truncate(await file.text()) };
+  },
+};
+
+// A search that hasn't finished by then is assumed to be backtracking and is stopped.
+const SEARCH_TIMEOUT_MS = 1000;
+
+function searchInWorker(entries: TranscriptionEntry[], pattern: string, flags: string): Promise<TranscriptSearchResult> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./transcript-search.worker.ts', import.meta.url), { type: 'module' });
+    const timer = setTimeout(() => {
+      worker.terminate();
+      reject(new Error(`The search took longer than ${SEARCH_TIMEOUT_MS} ms and was stopped; use a simpler pattern.`));
+    }, SEARCH_TIMEOUT_MS);
+    const finish = () => {
+      clearTimeout(timer);
+      worker.terminate();
+    };
+    worker.onmessage = (e: MessageEvent<{ result?: TranscriptSearchResult; error?: string }>) => {
+      finish();
+      if (e.data.result) resolve(e.data.result);
+      else reject(new Error(e.data.error ?? 'The search failed.'));
+    };
+    worker.onerror = e => {
+      finish();
+      reject(new Error(e.message || 'The search worker failed to start.'));
+    };
+    worker.postMessage({ entries, pattern, flags });
+  });
+}
+
+export const searchTranscriptTool: LiveTool = {
+  declaration: {
+    name: 'search_transcript',
+    description: `Runs a regular expression over the current session transcript and returns the matching lines (at most ${MAX_MATCHES}).`,
+    parameters: {
+      type: 'object',
+      properties: {
+        pattern: { type: 'string', description: `JavaScript regular expression source, up to ${MAX_PATTERN_LENGTH} characters.` },
+        flags: { type: 'string', description: "Regular expression flags, e.g. 'i'." },
+      },
+      required: ['pattern'],
+    },
+  },
+  requiresApproval: false,
+  handler: async (args, ctx) => {
+    const pattern = String(args.pattern ?? '');
+    const flags = String(args.flags ?? '');
+    // Bad patterns fail here, before a worker is started.
+    compileSearchPattern(pattern, flags);
+    return searchInWorker(ctx.getTranscript(), pattern, flags);
+  },
+};
+
+export const pinNoteTool: LiveTool = {
+  declaration: {
+    name: 'pin_note',
+    description: 'Pins a short note (a finding, a command to run, a follow-up) to the top of the activity stream.',
+    parameters: {
+      type: 'object',
+      properties: {
+        text: { type: 'string', description: 'The note to pin.' },
+      },
+      required: ['text'],
+    },
+  },
+  requiresApproval: true,
+  handler: async (args, ctx) => {
+    const text = String(args.text ?? '').trim();
+    if (!text) throw new Error('Note text is empty.');
+    ctx.pinNote(text);
+    return { pinned: true };
+  },
+};
+
+export const BUILTIN_TOOLS: LiveTool[] = [readClipboardTool, readLocalFileTool, searchTranscriptTool, pinNoteTool];
@@ -0,0 +1,29 @@
+import { ToolCall, ToolDeclaration, ToolResponse } from '../types';
+import { LiveTool, ToolContext } from './types';
+import { BUILTIN_TOOLS } from './builtin';
+
+export interface ToolRegistry {
+  declarations: () => ToolDeclaration[];
+  get: (name: string) => LiveTool | undefined;
+  execute: (call: ToolCall, ctx: ToolContext) => Promise<ToolResponse>;
+}
+
+export function createToolRegistry(tools: LiveTool[] = BUILTIN_TOOLS): ToolRegistry {
+  const byName = new Map(tools.map(t => [t.declaration.name, t]));
+  return {
+    declarations: () => tools.map(t => t.declaration),
+    get: name => byName.get(name),
+    async execute(call, ctx) {
+      const tool = byName.get(call.name);
+      if (!tool) return { id: call.id, name: call.name, response: { error: `Unknown tool "${call.name}".` } };
+      try {
+        return { id: call.id, name: call.name, response: { output: await tool.handler(call.args, ctx) } };
+      } catch (err) {
+        return { id: call.id, name: call.name, response: { error: err instanceof Error ? err.message : String(err) } };
+      }
+    },
+  };
+}
+
+export const denialResponse = (call: ToolCall): ToolResponse =>
+  ({ id: call.id, name: call.name, response: { error: 'The user denied this tool call.' } });
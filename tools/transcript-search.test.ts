@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { MAX_MATCHES, compileSearchPattern, searchTranscript } from './transcript-search';
+
+describe('compileSearchPattern', () => {
+  it('keeps only stateless flags', () => {
+    expect(compileSearchPattern('err(or)?', 'gyi').flags).toBe('i');
+  });
+
+  it('explains patterns it refuses', () => {
+    expect(() => compileSearchPattern('')).toThrow('empty');
+    expect(() => compileSearchPattern('a'.repeat(201))).toThrow('longer than 200');
+    expect(() => compileSearchPattern('(unclosed')).toThrow('Invalid regular expression');
+  });
+});
+
+describe('searchTranscript', () => {
+  const entries = [
+    { role: 'user' as const, text: 'exit code 137\nsecond line', timestamp: 0 },
+    { role: 'model' as const, text: 'Exit 137 means OOM', timestamp: 1000 },
+  ];
+
+  it('returns matching lines with their speaker and time', () => {
+    expect(searchTranscript(entries, compileSearchPattern('exit \\w*\\s?137', 'i'))).toEqual({
+      count: 2,
+      matches: [
+        { role: 'user', timestamp: '1970-01-01T00:00:00.000Z', line: 'exit code 137' },
+        { role: 'model', timestamp: '1970-01-01T00:00:01.000Z', line: 'Exit 137 means OOM' },
+      ],
+    });
+  });
+
+  it('counts every match but returns only the first batch', () => {
+    const many = [{ role: 'user' as const, text: Array(150).fill('hit').join('\n'), timestamp: 0 }];
+    const result = searchTranscript(many, /hit/);
+    expect(result.count).toBe(150);
+    expect(result.matches).toHaveLength(MAX_MATCHES);
+  });
+});
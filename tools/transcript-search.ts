@@ -0,0 +1,45 @@
+import { TranscriptionEntry } from '../types';
+
+// Long patterns are where runaway backtracking hides; real searches are a few words.
+export const MAX_PATTERN_LENGTH = 200;
+export const MAX_MATCHES = 100;
+
+export interface TranscriptMatch {
+  role: TranscriptionEntry['role'];
+  timestamp: string;
+  line: string;
+}
+
+export interface TranscriptSearchResult {
+  // Total matching lines; only the first MAX_MATCHES are returned.
+  count: number;
+  matches: TranscriptMatch[];
+}
+
+/**
+ * Compiles a model-supplied pattern, or throws an Error explaining why it can't be used.
+ * Only flags that keep `test` stateless are kept (no `g` or `y`).
+ */
+export function compileSearchPattern(pattern: string, flags = ''): RegExp {
+  if (!pattern) throw new Error('The search pattern is empty.');
+  if (pattern.length > MAX_PATTERN_LENGTH) throw new Error(`The search pattern is longer than ${MAX_PATTERN_LENGTH} characters.`);
+  try {
+    return new RegExp(pattern, flags.replace(/[^imsu]/g, ''));
+  } catch (err) {
+    throw new Error(`Invalid regular expression: ${err instanceof Error ? err.message : String(err)}`);
+  }
+}
+
+/** Matching transcript lines, oldest first. */
+export function searchTranscript(entries: TranscriptionEntry[], regex: RegExp): TranscriptSearchResult {
+  const matches: TranscriptMatch[] = [];
+  let count = 0;
+  for (const entry of entries) {
+    for (const line of entry.text.split('\n')) {
+      if (!regex.test(line)) continue;
+      count++;
+      if (matches.length < MAX_MATCHES) matches.push({ role: entry.role, timestamp: new Date(entry.timestamp).toISOString(), line });
+    }
+  }
+  return { count, matches };
+}
@@ -0,0 +1,13 @@
+/// <reference lib="webworker" />
+import { TranscriptionEntry } from '../types';
+import { compileSearchPattern, searchTranscript } from './transcript-search';
+
+// Runs off the main thread so a pathological pattern can be terminated instead of freezing the session.
+self.onmessage = (e: MessageEvent<{ entries: TranscriptionEntry[]; pattern: string; flags: string }>) => {
+  const { entries, pattern, flags } = e.data;
+  try {
+    self.postMessage({ result: searchTranscript(entries, compileSearchPattern(pattern, flags)) });
+  } catch (err) {
+    self.postMessage({ error: err instanceof Error ? err.message : String(err) });
+  }
+};
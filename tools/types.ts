@@ -0,0 +1,15 @@
+import { ToolDeclaration, TranscriptionEntry } from '../types';
+
+/** Session state a tool handler may read or change. */
+export interface ToolContext {
+  getTranscript: () => TranscriptionEntry[];
+  pinNote: (text: string) => void;
+}
+
+export interface LiveTool {
+  declaration: ToolDeclaration;
+  // Tools with side effects, or that read data from outside the session, run only after the user approves each call.
+  requiresApproval: boolean;
+  // Must not await anything before using APIs that need the approving click's user activation.
+  handler: (args: Record<string, unknown>, ctx: ToolContext) => Promise<unknown>;
+}
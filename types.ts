@@ -1,13 +1,227 @@
-export type ModelID = 'gemini-2.5-flash';
+export type ModelID = string;
+
+export type ProviderID = 'google' | 'openai-compatible' | 'local';
+
+export type ModelCapability = 'live' | 'text' | 'tts' | 'video';
 
 export interface TranscriptionEntry {
   role: 'user' | 'model';
   text: string;
   timestamp: number;
+  // Wall-clock bounds of the utterance, captured as transcription chunks stream in.
+  // Absent on entries recorded before per-utterance timing existed.
+  startedAt?: number;
+  endedAt?: number;
+  // Set on model turns cut short by barge-in or the local stop control.
+  interrupted?: boolean;
+}
+
+export interface EndpointConfig {
+  baseUrl: string;
+  apiKey?: string;
 }
 
 export interface ModelConfig {
   id: ModelID;
   name: string;
-  provider: 'google';
-}
\ No newline at end of file
+  provider: ProviderID;
+  capabilities: ModelCapability[];
+  // Only used by HTTP providers that are not tied to a fixed host.
+  endpoint?: EndpointConfig;
+  // Weight quantization for in-browser models (e.g. 'q4', 'q4f16').
+  dtype?: string;
+}
+
+export interface SessionRecord {
+  id: string;
+  startedAt: number;
+  endedAt: number | null;
+  // Absent on sessions recorded before engine selection existed.
+  model?: ModelID;
+  voice: string;
+  systemInstruction: string;
+  transcript: TranscriptionEntry[];
+  pinnedNotes?: string[];
+  // A replayable recording is stored alongside (see RecordingManifest).
+  recorded?: boolean;
+}
+
+/**
+ * The JSON half of a session recording bundle. Frame and transcript times share the WebM's
+ * clock: `startedAt` is the wall-clock time of its first sample.
+ */
+export interface RecordingManifest {
+  version: 1;
+  sessionId: string;
+  startedAt: number;
+  durationMs: number;
+  mimeType: string;
+  model?: ModelID;
+  voice: string;
+  systemInstruction: string;
+  transcript: TranscriptionEntry[];
+  // Offsets (ms) at which a frame sent to the model was written to the video.
+  frames: number[];
+}
+
+export interface SessionRecording {
+  // See recordingId(); a session may have several.
+  id: string;
+  sessionId: string;
+  video: Blob;
+  manifest: RecordingManifest;
+}
+
+
+// --- Provider contracts ---
+
+export interface ChatMessage {
+  role: 'user' | 'model';
+  text: string;
+}
+
+export interface TextGenerationRequest {
+  messages: ChatMessage[];
+  systemInstruction?: string;
+  // Called with each new piece of text by providers that can stream; others only resolve the final text.
+  onChunk?: (text: string) => void;
+}
+
+export interface SpeakerVoice {
+  speaker: string;
+  voice: string;
+}
+
+export interface SpeechRequest {
+  text: string;
+  voice: string;
+  // When set, `text` is a `Speaker: line` script and each speaker is voiced separately.
+  speakers?: SpeakerVoice[];
+  signal?: AbortSignal;
+}
+
+export interface SpeechAudio {
+  // Mono PCM16 little-endian samples.
+  pcm: Uint8Array;
+  sampleRate: number;
+}
+
+/** Where a video analysis is; `uploading` is only reported by providers that upload the file. */
+export type VideoAnalysisProgress =
+  | { phase: 'uploading'; fraction: number }
+  | { phase: 'processing' }
+  | { phase: 'analyzing'; reusedUpload: boolean };
+
+export interface VideoAnalysisRequest {
+  file: File;
+  prompt: string;
+  // Earlier turns of a conversation about the video; `prompt` is the newest user turn.
+  history?: ChatMessage[];
+  systemInstruction?: string;
+  // JSON Schema the answer must follow; the result is then JSON text.
+  responseSchema?: Record<string, unknown>;
+  signal?: AbortSignal;
+  onProgress?: (progress: VideoAnalysisProgress) => void;
+}
+
+export type SegmentImportance = 'low' | 'medium' | 'high';
+
+/** One stretch of an analyzed video; times are in seconds. */
+export interface VideoSegment {
+  start: number;
+  end: number;
+  description: string;
+  objects: string[];
+  people: string[];
+  importance: SegmentImportance;
+}
+
+export interface VideoTimeline {
+  summary: string;
+  segments: VideoSegment[];
+}
+
+/** Provider-neutral function declaration; `parameters` is a JSON Schema object. */
+export interface ToolDeclaration {
+  name: string;
+  description: string;
+  parameters?: Record<string, unknown>;
+}
+
+export interface ToolCall {
+  id: string;
+  name: string;
+  args: Record<string, unknown>;
+}
+
+export interface ToolResponse {
+  id: string;
+  name: string;
+  // `{ output }` on success or `{ error }` on failure.
+  response: Record<string, unknown>;
+}
+
+export interface LiveConnectOptions {
+  systemInstruction: string;
+  voice: string;
+  tools?: ToolDeclaration[];
+  // Resume a previous connection's context instead of starting fresh.
+  resumptionHandle?: string;
+  // The client marks where speech starts and ends instead of the server detecting it.
+  manualActivity?: boolean;
+}
+
+/** Provider-neutral events emitted by a live audio session. */
+export type LiveEvent =
+  | { type: 'audio'; data: string }
+  | { type: 'inputTranscript'; text: string }
+  | { type: 'outputTranscript'; text: string }
+  | { type: 'turnComplete' }
+  // The user spoke over the model; queued playback for the current turn is stale.
+  | { type: 'interrupted' }
+  | { type: 'toolCall'; calls: ToolCall[] }
+  | { type: 'toolCallCancellation'; ids: string[] }
+  // A handle that a later connection can pass back to resume this session's context.
+  | { type: 'resumptionHandle'; handle: string }
+  // The server will close the connection soon; `timeLeftMs` is null when it did not say when.
+  | { type: 'goAway'; timeLeftMs: number | null };
+
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onEvent: (event: LiveEvent) => void;
+  // `reason` is the server's close reason, when it gave one.
+  onClose: (reason?: string) => void;
+  onError: (error: unknown) => void;
+}
+
+export interface LiveSessionHandle {
+  sendAudio: (base64: string, mimeType: string) => void;
+  // Bracket user speech when connected with `manualActivity`.
+  startActivity: () => void;
+  endActivity: () => void;
+  sendImage: (base64: string, mimeType: string) => void;
+  // Sends a typed user turn; the model answers as it would to speech.
+  sendText: (text: string) => void;
+  sendToolResponses: (responses: ToolResponse[]) => void;
+  close: () => void;
+}
+
+/** What is about to be asked of a provider, so it can fail fast before any media is captured. */
+export interface PreflightRequest {
+  capability: ModelCapability;
+  file?: File;
+}
+
+export interface InferenceProvider {
+  id: ProviderID;
+  label: string;
+  voices: string[];
+  // Speakers one speech request can voice; scripts with more are stitched from separate requests.
+  maxSpeakers: number;
+  // Rejects with an AppError describing why the request cannot succeed.
+  preflight: (model: ModelConfig, request: PreflightRequest) => Promise<void>;
+  connectLive: (model: ModelConfig, options: LiveConnectOptions, callbacks: LiveCallbacks) => Promise<LiveSessionHandle>;
+  generateText: (model: ModelConfig, request: TextGenerationRequest) => Promise<string>;
+  synthesizeSpeech: (model: ModelConfig, request: SpeechRequest) => Promise<SpeechAudio>;
+  analyzeVideo: (model: ModelConfig, request: VideoAnalysisRequest) => Promise<string>;
+}
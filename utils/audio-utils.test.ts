@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import { encode, decode, floatTo16BitPCM, createResampler, encodeWav } from './audio-utils';
+
+const sine = (freq: number, rate: number, seconds: number, amplitude = 1) =>
+  Float32Array.from({ length: Math.round(rate * seconds) }, (_, i) => amplitude * Math.sin((2 * Math.PI * freq * i) / rate));
+
+// RMS of the middle of a signal, away from filter start-up and tail effects.
+const steadyRms = (x: Float32Array) => {
+  const from = Math.floor(x.length * 0.25);
+  const to = Math.floor(x.length * 0.75);
+  let sum = 0;
+  for (let i = from; i < to; i++) sum += x[i] * x[i];
+  return Math.sqrt(sum / (to - from));
+};
+
+const concat = (chunks: Float32Array[]) => {
+  const out = new Float32Array(chunks.reduce((n, c) => n + c.length, 0));
+  let offset = 0;
+  for (const c of chunks) { out.set(c, offset); offset += c.length; }
+  return out;
+};
+
+describe('encode / decode', () => {
+  it('round-trips arbitrary bytes through base64', () => {
+    const bytes = Uint8Array.from({ length: 256 }, (_, i) => i);
+    expect(decode(encode(bytes))).toEqual(bytes);
+  });
+});
+
+describe('floatTo16BitPCM', () => {
+  it('scales full-range samples to the PCM16 limits', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([1, -1, 0])))).toEqual([32767, -32768, 0]);
+  });
+
+  it('clips out-of-range samples instead of wrapping', () => {
+    expect(Array.from(floatTo16BitPCM(Float32Array.from([1.5, -3, 20])))).toEqual([32767, -32768, 32767]);
+  });
+
+  it('keeps mid-range values proportional', () => {
+    const [half] = floatTo16BitPCM(Float32Array.from([0.5]));
+    expect(half).toBe(16383);
+  });
+});
+
+describe('createResampler', () => {
+  it('passes audio through untouched when the rates match', () => {
+    const input = sine(440, 16000, 0.1);
+    expect(createResampler(16000, 16000).process(input)).toBe(input);
+  });
+
+  it.each([48000, 44100])('produces the expected number of samples from %i Hz to 16 kHz', fromRate => {
+    const resampler = createResampler(fromRate, 16000);
+    const out = resampler.process(new Float32Array(fromRate));
+    // Everything except the filter's look-ahead is emitted immediately.
+    expect(out.length).toBeGreaterThan(16000 - 64);
+    expect(out.length).toBeLessThanOrEqual(16000);
+  });
+
+  it('preserves a 1 kHz tone inside the speech band', () => {
+    const out = createResampler(48000, 16000).process(sine(1000, 48000, 0.5));
+    expect(steadyRms(out)).toBeCloseTo(Math.SQRT1_2, 2);
+    // The kernel is zero-phase, so the output lines up sample for sample with a tone generated at 16 kHz.
+    const reference = sine(1000, 16000, out.length / 16000);
+    let err = 0;
+    for (let i = 2000; i < 6000; i++) err = Math.max(err, Math.abs(out[i] - reference[i]));
+    expect(err).toBeLessThan(0.02);
+  });
+
+  it('removes tones above the 8 kHz target Nyquist instead of aliasing them', () => {
+    const out = createResampler(48000, 16000).process(sine(12000, 48000, 0.5));
+    const attenuationDb = 20 * Math.log10(steadyRms(out) / Math.SQRT1_2);
+    expect(attenuationDb).toBeLessThan(-60);
+  });
+
+  it('gives identical output whether audio arrives in one block or in 128-sample render quanta', () => {
+    const input = sine(700, 48000, 0.25);
+    const whole = createResampler(48000, 16000).process(input);
+    const streaming = createResampler(48000, 16000);
+    const chunks: Float32Array[] = [];
+    for (let i = 0; i < input.length; i += 128) chunks.push(streaming.process(input.subarray(i, i + 128)));
+    const chunked = concat(chunks);
+    expect(chunked.length).toBe(whole.length);
+    for (let i = 0; i < whole.length; i++) expect(chunked[i]).toBeCloseTo(whole[i], 5);
+  });
+});
+
+describe('encodeWav', () => {
+  it('writes a PCM16 header describing the samples', () => {
+    const pcm = Uint8Array.from({ length: 8 }, (_, i) => i);
+    const wav = encodeWav(pcm, 24000);
+    const view = new DataView(wav.buffer);
+    const ascii = (offset: number) => String.fromCharCode(...wav.slice(offset, offset + 4));
+    expect(wav.length).toBe(52);
+    expect([ascii(0), ascii(8), ascii(12), ascii(36)]).toEqual(['RIFF', 'WAVE', 'fmt ', 'data']);
+    expect(view.getUint32(4, true)).toBe(44);
+    expect(view.getUint16(22, true)).toBe(1);
+    expect(view.getUint32(24, true)).toBe(24000);
+    expect(view.getUint32(28, true)).toBe(48000);
+    expect(view.getUint16(34, true)).toBe(16);
+    expect(view.getUint32(40, true)).toBe(8);
+    expect(wav.slice(44)).toEqual(pcm);
+  });
+});
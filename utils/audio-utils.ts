@@ -36,3 +36,115 @@ export async function decodeAudioData(
   }
   return buffer;
 }
+
+
+/** Converts float samples to PCM16, clipping anything outside [-1, 1] instead of letting it wrap. */
+export function floatTo16BitPCM(samples: Float32Array): Int16Array {
+  const out = new Int16Array(samples.length);
+  for (let i = 0; i < samples.length; i++) {
+    const s = Math.max(-1, Math.min(1, samples[i]));
+    out[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
+  }
+  return out;
+}
+
+export interface Resampler {
+  // Returns every output sample that can be produced so far; remaining input is kept for the next call.
+  process: (input: Float32Array) => Float32Array;
+}
+
+export interface ResamplerOptions {
+  // Zero crossings of the sinc kernel on each side; more means a sharper low-pass and more latency.
+  zeroCrossings?: number;
+  // Fraction of the output Nyquist frequency kept by the anti-aliasing filter.
+  passband?: number;
+}
+
+// Kernel table resolution per input sample, interpolated linearly between entries.
+const KERNEL_PHASES = 256;
+
+const blackman = (x: number) => 0.42 + 0.5 * Math.cos(Math.PI * x) + 0.08 * Math.cos(2 * Math.PI * x);
+
+/**
+ * Streaming windowed-sinc resampler. When downsampling, the kernel doubles as a
+ * low-pass filter at the target Nyquist frequency so content above it is removed
+ * rather than aliased into the speech band.
+ */
+export function createResampler(fromRate: number, toRate: number, options: ResamplerOptions = {}): Resampler {
+  const { zeroCrossings = 16, passband = 0.9 } = options;
+  const step = fromRate / toRate;
+  if (Math.abs(step - 1) < 1e-9) return { process: input => input };
+
+  // Cutoff in cycles per input sample.
+  const cutoff = 0.5 * Math.min(1, toRate / fromRate) * passband;
+  const halfWidth = zeroCrossings / (2 * cutoff);
+  const tableSize = Math.ceil(halfWidth * KERNEL_PHASES) + 2;
+  const table = new Float32Array(tableSize);
+  for (let i = 0; i < tableSize; i++) {
+    const x = i / KERNEL_PHASES;
+    if (x >= halfWidth) break;
+    const arg = 2 * cutoff * x;
+    const sinc = arg === 0 ? 1 : Math.sin(Math.PI * arg) / (Math.PI * arg);
+    table[i] = 2 * cutoff * sinc * blackman(x / halfWidth);
+  }
+  const kernel = (distance: number) => {
+    const t = Math.abs(distance) * KERNEL_PHASES;
+    const i = Math.floor(t);
+    if (i + 1 >= tableSize) return 0;
+    return table[i] + (table[i + 1] - table[i]) * (t - i);
+  };
+
+  const reach = Math.ceil(halfWidth);
+  // Starts with `reach` zeros of history so the first output sample is centred on input sample 0.
+  let buffer = new Float32Array(reach);
+  let position = reach;
+
+  return {
+    process(input) {
+      const merged = new Float32Array(buffer.length + input.length);
+      merged.set(buffer);
+      merged.set(input, buffer.length);
+
+      const out: number[] = [];
+      while (position + reach < merged.length) {
+        const center = Math.floor(position);
+        let acc = 0;
+        for (let j = center - reach + 1; j <= center + reach; j++) {
+          acc += merged[j] * kernel(position - j);
+        }
+        out.push(acc);
+        position += step;
+      }
+
+      const keepFrom = Math.max(0, Math.floor(position) - reach);
+      buffer = merged.slice(keepFrom);
+      position -= keepFrom;
+      return Float32Array.from(out);
+    },
+  };
+}
+
+/** Wraps PCM16 little-endian samples in a WAV (RIFF) container. */
+export function encodeWav(pcm: Uint8Array, sampleRate: number, numChannels = 1): Uint8Array {
+  const out = new Uint8Array(44 + pcm.byteLength);
+  const view = new DataView(out.buffer);
+  const ascii = (offset: number, text: string) => {
+    for (let i = 0; i < text.length; i++) out[offset + i] = text.charCodeAt(i);
+  };
+  const blockAlign = numChannels * 2;
+  ascii(0, 'RIFF');
+  view.setUint32(4, 36 + pcm.byteLength, true);
+  ascii(8, 'WAVE');
+  ascii(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, numChannels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true);
+  ascii(36, 'data');
+  view.setUint32(40, pcm.byteLength, true);
+  out.set(pcm, 44);
+  return out;
+}
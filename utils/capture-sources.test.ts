@@ -0,0 +1,32 @@
+import { describe, it, expect } from 'vitest';
+import { captureFeatures, displayMediaOptions, deviceLabel, micConstraints } from './capture-sources';
+
+describe('captureFeatures', () => {
+  it('only requires screen capture for display sources', () => {
+    expect(captureFeatures('window')).toContain('screen-capture');
+    expect(captureFeatures('camera')).not.toContain('screen-capture');
+    expect(captureFeatures('none')).toEqual(['microphone', 'web-audio', 'audio-worklet']);
+  });
+});
+
+describe('displayMediaOptions', () => {
+  it('hints the share dialog towards the requested surface', () => {
+    expect(displayMediaOptions('screen')).toEqual({ video: { displaySurface: 'monitor' }, audio: false });
+    expect(displayMediaOptions('tab')).toMatchObject({ video: { displaySurface: 'browser' }, selfBrowserSurface: 'exclude' });
+  });
+});
+
+describe('deviceLabel', () => {
+  it('numbers devices whose labels are hidden before permission is granted', () => {
+    const device = (kind: MediaDeviceKind, label = '') => ({ kind, label, deviceId: 'x', groupId: 'g' }) as MediaDeviceInfo;
+    expect(deviceLabel(device('audioinput', 'USB Mic'), 0)).toBe('USB Mic');
+    expect(deviceLabel(device('videoinput'), 1)).toBe('Camera 2');
+  });
+});
+
+describe('micConstraints', () => {
+  it('passes processing flags and only pins a chosen device', () => {
+    expect(micConstraints('', { echoCancellation: true, noiseSuppression: false })).toEqual({ echoCancellation: true, noiseSuppression: false });
+    expect(micConstraints('abc', { echoCancellation: false, noiseSuppression: true })).toMatchObject({ deviceId: 'abc' });
+  });
+});
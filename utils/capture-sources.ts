@@ -0,0 +1,76 @@
+import { BrowserFeature } from './preflight';
+import { classifyError } from './errors';
+
+export type VisualSource = 'screen' | 'window' | 'tab' | 'camera' | 'none';
+
+export const VISUAL_SOURCES: { id: VisualSource; label: string }[] = [
+  { id: 'screen', label: 'Screen' },
+  { id: 'window', label: 'Window' },
+  { id: 'tab', label: 'Tab' },
+  { id: 'camera', label: 'Webcam' },
+  { id: 'none', label: 'None' },
+];
+
+const DISPLAY_SURFACES: Partial<Record<VisualSource, string>> = {
+  screen: 'monitor',
+  window: 'window',
+  tab: 'browser',
+};
+
+export const isDisplaySource = (source: VisualSource) => source in DISPLAY_SURFACES;
+
+/** Browser features a session needs for the given visual source (the mic is always captured). */
+export function captureFeatures(source: VisualSource): BrowserFeature[] {
+  const features: BrowserFeature[] = ['microphone', 'web-audio', 'audio-worklet'];
+  return isDisplaySource(source) ? [...features, 'screen-capture'] : features;
+}
+
+/**
+ * getDisplayMedia options that open the share dialog on the requested surface. Browsers treat
+ * `displaySurface` as a hint, so the user can still pick something else.
+ */
+export function displayMediaOptions(source: VisualSource): DisplayMediaStreamOptions {
+  const options: Record<string, unknown> = {
+    video: { displaySurface: DISPLAY_SURFACES[source] },
+    audio: false,
+  };
+  // Sharing ANA's own tab would feed the model its own transcript.
+  if (source === 'tab') options.selfBrowserSurface = 'exclude';
+  return options as DisplayMediaStreamOptions;
+}
+
+// A bare deviceId is only a preference, so an unplugged device falls back to the default.
+const deviceConstraint = (deviceId: string) => (deviceId ? { deviceId } : true);
+
+// Browser voice processing; echo cancellation keeps ANA's own voice out of the mic.
+export interface MicProcessing {
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+}
+
+export const micConstraints = (deviceId: string, processing: MicProcessing): MediaTrackConstraints => ({
+  ...(deviceId ? { deviceId } : {}),
+  echoCancellation: processing.echoCancellation,
+  noiseSuppression: processing.noiseSuppression,
+});
+
+export function acquireMic(deviceId: string, processing: MicProcessing): Promise<MediaStream> {
+  return navigator.mediaDevices.getUserMedia({ audio: micConstraints(deviceId, processing) })
+    .catch(err => { throw classifyError(err, 'mic'); });
+}
+
+/** Prompts for the visual source; resolves to null for audio-only. Rejects with an AppError. */
+export async function acquireVisual(source: VisualSource, cameraDeviceId: string): Promise<MediaStream | null> {
+  if (source === 'none') return null;
+  if (source === 'camera') {
+    return navigator.mediaDevices.getUserMedia({ video: deviceConstraint(cameraDeviceId) })
+      .catch(err => { throw classifyError(err, 'camera'); });
+  }
+  // Cancelling the picker and a blocked capture look the same (NotAllowedError)
+  return navigator.mediaDevices.getDisplayMedia(displayMediaOptions(source))
+    .catch(err => { throw classifyError(err, 'screen'); });
+}
+
+/** Device labels are empty until a capture permission has been granted. */
+export const deviceLabel = (device: MediaDeviceInfo, index: number) =>
+  device.label || `${device.kind === 'videoinput' ? 'Camera' : 'Microphone'} ${index + 1}`;
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { AppError, CROSS_ORIGIN_STATUS, HttpError, classifyError, classifyModelLookupError } from './errors';
+
+const domError = (name: string, message = '') => Object.assign(new Error(message), { name });
+
+describe('classifyError', () => {
+  it('passes AppErrors through unchanged', () => {
+    const err = new AppError('quota', 'slow down');
+    expect(classifyError(err)).toBe(err);
+  });
+
+  it('attributes permission errors to the capture that raised them', () => {
+    expect(classifyError(domError('NotAllowedError'), 'mic').kind).toBe('mic-denied');
+    expect(classifyError(domError('NotAllowedError'), 'screen').kind).toBe('screen-denied');
+    expect(classifyError(domError('NotReadableError'), 'camera').kind).toBe('camera-denied');
+  });
+
+  it('maps HTTP statuses', () => {
+    expect(classifyError(new HttpError(401, 'nope')).kind).toBe('invalid-api-key');
+    expect(classifyError(new HttpError(413, 'nope')).kind).toBe('payload-too-large');
+    expect(classifyError(new HttpError(429, 'nope')).kind).toBe('quota');
+  });
+
+  it('does not blame the key for the ANA server refusing another origin', () => {
+    expect(classifyError(new HttpError(403, 'API routes only accept requests from the ANA app itself.', CROSS_ORIGIN_STATUS)).kind).toBe('cross-origin');
+    // The SDK folds the response body into its message.
+    const sdkError = Object.assign(new Error(`got status: 403. {"error":{"code":403,"status":"${CROSS_ORIGIN_STATUS}"}}`), { status: 403 });
+    expect(classifyError(sdkError).kind).toBe('cross-origin');
+    expect(classifyError(new HttpError(403, 'Permission denied.', 'PERMISSION_DENIED')).kind).toBe('invalid-api-key');
+  });
+
+  it('only blames the model for a 404 from the model lookup', () => {
+    const notProxied = classifyError(new HttpError(404, '/v1beta/models/gemini-2.5-flash:countTokens is not proxied.'));
+    expect(notProxied.kind).toBe('unknown');
+    expect(notProxied.message).toBe('/v1beta/models/gemini-2.5-flash:countTokens is not proxied.');
+    expect(classifyModelLookupError(new HttpError(404, 'Not Found')).kind).toBe('unknown-model');
+    expect(classifyModelLookupError(new HttpError(429, 'slow down')).kind).toBe('quota');
+  });
+
+  it('reads the reason out of overloaded 400s and WebSocket close reasons', () => {
+    expect(classifyError(new HttpError(400, 'API key not valid. Please pass a valid API key.')).kind).toBe('invalid-api-key');
+    expect(classifyError(new HttpError(400, 'Request payload size exceeds the limit: 20971520 bytes.')).kind).toBe('payload-too-large');
+    expect(classifyError('models/gemini-nope is not found for API version v1beta').kind).toBe('unknown-model');
+    expect(classifyError('You exceeded your current quota').kind).toBe('quota');
+  });
+
+  it('recognises fetch failures as network errors', () => {
+    expect(classifyError(new TypeError('Failed to fetch')).kind).toBe('network');
+  });
+
+  it('keeps the original message for unrecognised errors', () => {
+    const err = classifyError(new Error('boom'));
+    expect(err.kind).toBe('unknown');
+    expect(err.message).toBe('boom');
+  });
+});
@@ -0,0 +1,167 @@
+export type AppErrorKind =
+  | 'missing-api-key'
+  | 'invalid-api-key'
+  | 'quota'
+  | 'unknown-model'
+  | 'mic-denied'
+  | 'screen-denied'
+  | 'camera-denied'
+  | 'unsupported-browser'
+  | 'payload-too-large'
+  | 'unsupported-file'
+  | 'network'
+  | 'cross-origin'
+  | 'unknown';
+
+/** An error the UI knows how to explain. `message` carries the underlying detail. */
+export class AppError extends Error {
+  constructor(readonly kind: AppErrorKind, message: string, readonly cause?: unknown) {
+    super(message);
+    this.name = 'AppError';
+  }
+}
+
+// The `error.status` the ANA server answers with when it refuses a request from another origin.
+export const CROSS_ORIGIN_STATUS = 'ANA_CROSS_ORIGIN';
+
+/** A non-2xx HTTP response from a REST endpoint. `reason` is the body's `error.status`, if any. */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly reason?: string) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export interface ErrorGuide {
+  title: string;
+  remedy: string;
+}
+
+export const ERROR_GUIDES: Record<AppErrorKind, ErrorGuide> = {
+  'missing-api-key': {
+    title: 'API key missing',
+    remedy: 'Add GEMINI_API_KEY to .env.local in the project root and restart the ANA server (npm run dev or npm run server).',
+  },
+  'invalid-api-key': {
+    title: 'API key rejected',
+    remedy: 'Check that the key in .env.local is complete, not revoked, and has the Generative Language API enabled.',
+  },
+  quota: {
+    title: 'Quota exceeded',
+    remedy: 'The key hit its rate or usage limit. Wait a minute and retry, or check your quota in Google AI Studio.',
+  },
+  'unknown-model': {
+    title: 'Model unavailable',
+    remedy: 'The selected model does not exist or is not available to this key. Pick another one from the header badge.',
+  },
+  'mic-denied': {
+    title: 'Microphone blocked',
+    remedy: 'Allow microphone access from the lock icon in the address bar (and in your OS privacy settings), then retry.',
+  },
+  'screen-denied': {
+    title: 'Screen share blocked',
+    remedy: 'Choose a screen, window or tab in the share dialog. On macOS, also allow screen recording for your browser in System Settings.',
+  },
+  'camera-denied': {
+    title: 'Camera blocked',
+    remedy: 'Allow camera access from the lock icon in the address bar, close other apps using the webcam, or pick another visual source.',
+  },
+  'unsupported-browser': {
+    title: 'Browser not supported',
+    remedy: 'Use a recent Chrome, Edge or Firefox over HTTPS or localhost.',
+  },
+  'payload-too-large': {
+    title: 'File too large',
+    remedy: 'Trim or re-encode the file to a smaller size and try again.',
+  },
+  'unsupported-file': {
+    title: 'Unsupported file',
+    remedy: 'Choose a video in MP4, MOV, WEBM, MPEG, AVI, FLV, WMV or 3GP format.',
+  },
+  network: {
+    title: 'Network error',
+    remedy: 'Check your connection, VPN or firewall, then retry.',
+  },
+  'cross-origin': {
+    title: 'Request refused by the ANA server',
+    remedy: 'The server only answers pages it served itself. Open ANA at the address the server prints, and make sure a reverse proxy in front of it passes the Host header through unchanged.',
+  },
+  unknown: {
+    title: 'Something went wrong',
+    remedy: 'Retry; if it keeps failing, the browser console has the full error.',
+  },
+};
+
+export type CaptureSource = 'mic' | 'screen' | 'camera';
+
+const DENIED_KINDS: Record<CaptureSource, AppErrorKind> = {
+  mic: 'mic-denied',
+  screen: 'screen-denied',
+  camera: 'camera-denied',
+};
+
+// 404 is left to the message: behind the ANA proxy it can also mean a route that isn't proxied or
+// a server that doesn't run the API, and those aren't fixed by picking another model.
+function kindFromStatus(status: number): AppErrorKind | null {
+  if (status === 401 || status === 403) return 'invalid-api-key';
+  if (status === 413) return 'payload-too-large';
+  if (status === 429) return 'quota';
+  return null;
+}
+
+// Gemini packs the reason into the message (REST bodies and WebSocket close reasons alike).
+const MESSAGE_PATTERNS: [RegExp, AppErrorKind][] = [
+  [/GEMINI_API_KEY is not set/, 'missing-api-key'],
+  [/api key not valid|api_key_invalid|invalid api key|unauthenticated|permission[_ ]denied/i, 'invalid-api-key'],
+  [/quota|resource[_ ]exhausted|rate limit|too many requests/i, 'quota'],
+  [/payload size exceeds|too large|request entity/i, 'payload-too-large'],
+  [/models\/\S+ is not found|not supported for (bidigeneratecontent|generatecontent)|model .*not found|unknown model|not_found/i, 'unknown-model'],
+  [/failed to fetch|fetch failed|networkerror|network error|load failed|err_internet|err_network|websocket/i, 'network'],
+];
+
+const messageOf = (err: unknown) =>
+  err instanceof Error ? err.message : typeof err === 'string' ? err : String((err as { message?: unknown })?.message ?? err);
+
+/**
+ * Maps anything thrown by media APIs, provider SDKs or fetch onto an AppErrorKind.
+ * `source` says which capture call produced the error, since permission errors don't.
+ */
+export function classifyError(err: unknown, source?: CaptureSource): AppError {
+  if (err instanceof AppError) return err;
+  const message = messageOf(err);
+  const name = (err as { name?: unknown })?.name;
+
+  if (name === 'NotAllowedError' || name === 'PermissionDeniedError' || name === 'SecurityError') {
+    return new AppError(DENIED_KINDS[source ?? 'mic'], message, err);
+  }
+  if (name === 'NotFoundError' || name === 'NotReadableError' || name === 'OverconstrainedError') {
+    // No device, or the device is held by another app.
+    if (source) return new AppError(DENIED_KINDS[source], message, err);
+  }
+  if (name === 'NotSupportedError') return new AppError('unsupported-browser', message, err);
+
+  // Checked before the status: it is a 403, but no fault of the API key. SDK errors carry the body in the message.
+  if ((err as { reason?: unknown })?.reason === CROSS_ORIGIN_STATUS || message.includes(CROSS_ORIGIN_STATUS)) {
+    return new AppError('cross-origin', message, err);
+  }
+
+  const status = (err as { status?: unknown })?.status;
+  if (typeof status === 'number') {
+    // 400 is overloaded (bad key, oversized payload...); fall through to the message for those.
+    const kind = kindFromStatus(status);
+    if (kind) return new AppError(kind, message, err);
+  }
+
+  for (const [pattern, kind] of MESSAGE_PATTERNS) {
+    if (pattern.test(message)) return new AppError(kind, message, err);
+  }
+  if (typeof navigator !== 'undefined' && navigator.onLine === false) return new AppError('network', message, err);
+  return new AppError('unknown', message, err);
+}
+
+/** classifyError for a model-metadata lookup, where a 404 can only mean the model id is unknown. */
+export function classifyModelLookupError(err: unknown): AppError {
+  if (err instanceof AppError) return err;
+  if ((err as { status?: unknown })?.status === 404) return new AppError('unknown-model', messageOf(err), err);
+  return classifyError(err);
+}
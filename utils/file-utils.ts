@@ -0,0 +1,50 @@
+export function fileToBase64(file: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.readAsDataURL(file);
+    reader.onload = () => resolve((reader.result as string).split(',')[1]);
+    reader.onerror = () => reject(reader.error);
+  });
+}
+
+/**
+ * Samples `count` evenly spaced JPEG frames from a video file as data URLs.
+ * Used by providers that accept images but not video.
+ */
+export async function extractVideoFrames(file: Blob, count: number, width = 768): Promise<string[]> {
+  const url = URL.createObjectURL(file);
+  const video = document.createElement('video');
+  video.muted = true;
+  video.preload = 'auto';
+  video.src = url;
+  try {
+    await new Promise<void>((resolve, reject) => {
+      video.onloadedmetadata = () => resolve();
+      video.onerror = () => reject(new Error('Unable to decode video file.'));
+    });
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = Math.round(width * (video.videoHeight / video.videoWidth));
+    const ctx = canvas.getContext('2d')!;
+    const frames: string[] = [];
+    for (let i = 0; i < count; i++) {
+      video.currentTime = (video.duration * (i + 0.5)) / count;
+      await new Promise<void>(resolve => { video.onseeked = () => resolve(); });
+      ctx.drawImage(video, 0, 0, canvas.width, canvas.height);
+      frames.push(canvas.toDataURL('image/jpeg', 0.7));
+    }
+    return frames;
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+/** Saves a blob through a temporary download link. */
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  a.click();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
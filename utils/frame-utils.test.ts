@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { toLuma, changedFraction, shouldSendFrame, regionToPixels, elementPointToVideo, DEFAULT_FRAME_SETTINGS } from './frame-utils';
+
+const flat = (length: number, value: number) => new Uint8Array(length).fill(value);
+
+describe('toLuma', () => {
+  it('weights RGB with Rec. 601 coefficients and ignores alpha', () => {
+    const rgba = Uint8ClampedArray.from([255, 255, 255, 0, 255, 0, 0, 255, 0, 0, 0, 255]);
+    expect(Array.from(toLuma(rgba))).toEqual([255, 76, 0]);
+  });
+});
+
+describe('changedFraction', () => {
+  it('ignores small per-pixel noise', () => {
+    expect(changedFraction(flat(100, 100), flat(100, 110))).toBe(0);
+  });
+
+  it('counts pixels that changed beyond the noise floor', () => {
+    const next = flat(100, 100);
+    next.fill(200, 0, 5);
+    expect(changedFraction(flat(100, 100), next)).toBeCloseTo(0.05);
+  });
+
+  it('treats a resolution change as a full change', () => {
+    expect(changedFraction(flat(100, 0), flat(50, 0))).toBe(1);
+  });
+});
+
+describe('shouldSendFrame', () => {
+  const settings = DEFAULT_FRAME_SETTINGS;
+
+  it('always sends the first frame', () => {
+    expect(shouldSendFrame(null, flat(10, 0), 0, settings)).toBe(true);
+  });
+
+  it('skips unchanged frames until the keep-alive interval elapses', () => {
+    const frame = flat(1000, 50);
+    expect(shouldSendFrame(frame, frame, 1000, settings)).toBe(false);
+    expect(shouldSendFrame(frame, frame, settings.keepAliveSeconds * 1000, settings)).toBe(true);
+  });
+
+  it('sends as soon as enough of the picture changes', () => {
+    const next = flat(1000, 50);
+    next.fill(255, 0, 10);
+    expect(shouldSendFrame(flat(1000, 50), next, 0, settings)).toBe(true);
+  });
+});
+
+describe('regionToPixels', () => {
+  it('returns the whole frame without a region', () => {
+    expect(regionToPixels(null, 1920, 1080)).toEqual({ sx: 0, sy: 0, sw: 1920, sh: 1080 });
+  });
+
+  it('clamps a region to the frame bounds', () => {
+    expect(regionToPixels({ x: 0.5, y: 0.5, width: 0.8, height: 0.8 }, 1000, 500)).toEqual({ sx: 500, sy: 250, sw: 500, sh: 250 });
+  });
+});
+
+describe('elementPointToVideo', () => {
+  it('accounts for letterboxing of a wide video in a square element', () => {
+    // 200x100 video in a 100x100 box is drawn 100x50 with 25px bars above and below.
+    expect(elementPointToVideo(50, 50, 100, 100, 200, 100)).toEqual({ x: 0.5, y: 0.5 });
+    expect(elementPointToVideo(0, 25, 100, 100, 200, 100)).toEqual({ x: 0, y: 0 });
+    expect(elementPointToVideo(100, 10, 100, 100, 200, 100)).toEqual({ x: 1, y: 0 });
+  });
+});
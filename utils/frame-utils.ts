@@ -0,0 +1,105 @@
+/** A rectangle in normalized (0..1) video coordinates. */
+export interface Region {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface FrameSettings {
+  fps: number;
+  // Output width for full-screen frames; regions of interest are sent at native resolution.
+  maxWidth: number;
+  quality: number;
+  // Fraction of thumbnail pixels that must change for a frame to count as new.
+  changeThreshold: number;
+  // A frame is sent at least this often even when nothing changed, so the model keeps context.
+  keepAliveSeconds: number;
+}
+
+export const DEFAULT_FRAME_SETTINGS: FrameSettings = {
+  fps: 1,
+  maxWidth: 1024,
+  quality: 0.6,
+  changeThreshold: 0.004,
+  keepAliveSeconds: 10,
+};
+
+// Luma change (0..255) below which a pixel is treated as compression or cursor noise.
+const PIXEL_NOISE_FLOOR = 24;
+
+/** Rec. 601 luma of every pixel in an RGBA buffer. */
+export function toLuma(rgba: Uint8ClampedArray): Uint8Array {
+  const out = new Uint8Array(rgba.length / 4);
+  for (let i = 0, p = 0; p < out.length; i += 4, p++) {
+    out[p] = (rgba[i] * 299 + rgba[i + 1] * 587 + rgba[i + 2] * 114) / 1000;
+  }
+  return out;
+}
+
+/** Fraction (0..1) of pixels whose luma moved by more than the noise floor. */
+export function changedFraction(previous: Uint8Array, current: Uint8Array): number {
+  if (previous.length !== current.length || current.length === 0) return 1;
+  let changed = 0;
+  for (let i = 0; i < current.length; i++) {
+    if (Math.abs(current[i] - previous[i]) > PIXEL_NOISE_FLOOR) changed++;
+  }
+  return changed / current.length;
+}
+
+export function shouldSendFrame(
+  previous: Uint8Array | null,
+  current: Uint8Array,
+  msSinceLastSend: number,
+  settings: Pick<FrameSettings, 'changeThreshold' | 'keepAliveSeconds'>,
+): boolean {
+  if (!previous) return true;
+  if (msSinceLastSend >= settings.keepAliveSeconds * 1000) return true;
+  return changedFraction(previous, current) >= settings.changeThreshold;
+}
+
+/** Converts a normalized region into a whole-pixel source rectangle clamped to the video bounds. */
+export function regionToPixels(region: Region | null, videoWidth: number, videoHeight: number) {
+  if (!region) return { sx: 0, sy: 0, sw: videoWidth, sh: videoHeight };
+  const sx = Math.max(0, Math.floor(region.x * videoWidth));
+  const sy = Math.max(0, Math.floor(region.y * videoHeight));
+  const sw = Math.max(1, Math.min(videoWidth - sx, Math.round(region.width * videoWidth)));
+  const sh = Math.max(1, Math.min(videoHeight - sy, Math.round(region.height * videoHeight)));
+  return { sx, sy, sw, sh };
+}
+
+/**
+ * Maps a point inside an element showing a video with `object-fit: contain`
+ * to normalized video coordinates, clamped to the picture.
+ */
+export function elementPointToVideo(
+  px: number, py: number,
+  elementWidth: number, elementHeight: number,
+  videoWidth: number, videoHeight: number,
+): { x: number; y: number } {
+  const scale = Math.min(elementWidth / videoWidth, elementHeight / videoHeight);
+  const offsetX = (elementWidth - videoWidth * scale) / 2;
+  const offsetY = (elementHeight - videoHeight * scale) / 2;
+  const clamp = (v: number) => Math.max(0, Math.min(1, v));
+  return {
+    x: clamp((px - offsetX) / (videoWidth * scale)),
+    y: clamp((py - offsetY) / (videoHeight * scale)),
+  };
+}
+
+/** Inverse of `elementPointToVideo` for a whole region, as CSS percentages of the element box. */
+export function regionToElementPercent(
+  region: Region,
+  elementWidth: number, elementHeight: number,
+  videoWidth: number, videoHeight: number,
+) {
+  const scale = Math.min(elementWidth / videoWidth, elementHeight / videoHeight);
+  const offsetX = (elementWidth - videoWidth * scale) / 2;
+  const offsetY = (elementHeight - videoHeight * scale) / 2;
+  return {
+    left: ((offsetX + region.x * videoWidth * scale) / elementWidth) * 100,
+    top: ((offsetY + region.y * videoHeight * scale) / elementHeight) * 100,
+    width: ((region.width * videoWidth * scale) / elementWidth) * 100,
+    height: ((region.height * videoHeight * scale) / elementHeight) * 100,
+  };
+}
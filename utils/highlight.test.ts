@@ -0,0 +1,36 @@
+import { describe, it, expect } from 'vitest';
+import { highlight } from './highlight';
+
+const typesOf = (code: string, language: string) =>
+  highlight(code, language).filter(t => t.type !== 'plain').map(t => [t.type, t.text]);
+
+describe('highlight', () => {
+  it('colours keywords, strings, numbers and calls in TypeScript', () => {
+    expect(typesOf('const x = load("a", 42); // done', 'ts')).toEqual([
+      ['keyword', 'const'],
+      ['operator', '='],
+      ['function', 'load'],
+      ['string', '"a"'],
+      ['number', '42'],
+      ['comment', '// done'],
+    ]);
+  });
+
+  it('does not treat shell flags or # inside words as comments', () => {
+    expect(typesOf('git log --oneline a#b # note', 'bash')).toEqual([
+      ['function', 'git'],
+      ['attribute', '--oneline'],
+      ['comment', '# note'],
+    ]);
+  });
+
+  it('distinguishes JSON keys from values', () => {
+    expect(typesOf('{"ok": true}', 'json')).toEqual([['property', '"ok"'], ['keyword', 'true']]);
+  });
+
+  it('returns unknown languages as one plain token and never loses text', () => {
+    expect(highlight('a < b', 'brainfuck')).toEqual([{ type: 'plain', text: 'a < b' }]);
+    const code = 'def f(x):\n    """doc\n    return x';
+    expect(highlight(code, 'python').map(t => t.text).join('')).toBe(code);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Lightweight, regex-driven syntax highlighting for the languages ANA tends to emit while
+ * troubleshooting. It tokenizes rather than parses: good enough to colour keywords, strings,
+ * comments and numbers, and safe on partial (still-streaming) code.
+ */
+
+export type TokenType =
+  | 'plain'
+  | 'keyword'
+  | 'string'
+  | 'comment'
+  | 'number'
+  | 'function'
+  | 'type'
+  | 'property'
+  | 'variable'
+  | 'operator'
+  | 'tag'
+  | 'attribute'
+  | 'meta';
+
+export interface Token {
+  type: TokenType;
+  text: string;
+}
+
+interface Rule {
+  pattern: RegExp;
+  type: TokenType | ((match: string, next: string) => TokenType);
+}
+
+interface LanguageDef {
+  rules: Rule[];
+  caseInsensitiveKeywords?: boolean;
+  keywords?: Set<string>;
+  // Words highlighted as built-in types/constants rather than keywords.
+  builtins?: Set<string>;
+}
+
+const words = (list: string) => new Set(list.split(/\s+/).filter(Boolean));
+
+const NUMBER: Rule = { pattern: /0x[\da-f]+|\d[\d_]*(\.\d+)?(e[+-]?\d+)?/iy, type: 'number' };
+const DQ_STRING: Rule = { pattern: /"(?:\\.|[^"\\\n])*"?/y, type: 'string' };
+const SQ_STRING: Rule = { pattern: /'(?:\\.|[^'\\\n])*'?/y, type: 'string' };
+const SLASH_COMMENT: Rule = { pattern: /\/\/.*/y, type: 'comment' };
+// Unterminated block comments run to the end, which is what streaming code needs.
+const BLOCK_COMMENT: Rule = { pattern: /\/\*[\s\S]*?(\*\/|$)/y, type: 'comment' };
+const HASH_COMMENT: Rule = { pattern: /#.*/y, type: 'comment' };
+const OPERATOR: Rule = { pattern: /[+\-*/%=<>!&|^~?:]+/y, type: 'operator' };
+
+function identifierRule(def: () => LanguageDef): Rule {
+  return {
+    pattern: /[A-Za-z_$][\w$]*/y,
+    type: (word, next) => {
+      const { keywords, builtins, caseInsensitiveKeywords } = def();
+      const key = caseInsensitiveKeywords ? word.toLowerCase() : word;
+      if (keywords?.has(key)) return 'keyword';
+      if (builtins?.has(key)) return 'type';
+      if (next === '(') return 'function';
+      if (/^[A-Z][a-z]/.test(word)) return 'type';
+      return 'plain';
+    },
+  };
+}
+
+function cLike(keywords: string, builtins: string, extra: Rule[] = []): LanguageDef {
+  const def: LanguageDef = { keywords: words(keywords), builtins: words(builtins), rules: [] };
+  def.rules = [SLASH_COMMENT, BLOCK_COMMENT, ...extra, DQ_STRING, SQ_STRING, NUMBER, identifierRule(() => def), OPERATOR];
+  return def;
+}
+
+const JS = cLike(
+  'async await break case catch class const continue debugger default delete do else export extends finally for from function if import in instanceof let new of return static super switch this throw try typeof var void while with yield as implements interface type enum declare readonly private protected public abstract keyof satisfies',
+  'true false null undefined NaN Infinity string number boolean any unknown never object symbol bigint',
+  [{ pattern: /`(?:\\[\s\S]|[^`\\])*`?/y, type: 'string' }],
+);
+
+const PYTHON: LanguageDef = { keywords: words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case'), builtins: words('True False None self cls int str float bool list dict set tuple bytes print len range'), rules: [] };
+PYTHON.rules = [
+  HASH_COMMENT,
+  { pattern: /[rbfu]{0,2}("""[\s\S]*?("""|$)|'''[\s\S]*?('''|$))/iy, type: 'string' },
+  { pattern: /[rbfu]{0,2}("(?:\\.|[^"\\\n])*"?|'(?:\\.|[^'\\\n])*'?)/iy, type: 'string' },
+  { pattern: /@[\w.]+/y, type: 'meta' },
+  NUMBER, identifierRule(() => PYTHON), OPERATOR,
+];
+
+const SHELL: LanguageDef = { keywords: words('if then else elif fi for while until do done case esac in function return export local readonly set unset source alias exit'), builtins: words('sudo cd ls cat echo grep sed awk curl wget git npm npx yarn pnpm node python pip docker kubectl helm make chmod chown mkdir rm cp mv tail head ps kill systemctl journalctl ssh'), rules: [] };
+SHELL.rules = [
+  { pattern: /(^|\s)#.*/y, type: 'comment' },
+  DQ_STRING, SQ_STRING,
+  { pattern: /\$\{[^}\n]*\}?|\$[\w@#?*!$-]/y, type: 'variable' },
+  { pattern: /(^|\s)--?[\w-]+(=)?/y, type: 'attribute' },
+  NUMBER, { pattern: /[\w.-]+/y, type: word => SHELL.keywords!.has(word) ? 'keyword' : SHELL.builtins!.has(word) ? 'function' : 'plain' },
+  { pattern: /[|&;<>]+/y, type: 'operator' },
+];
+
+const JSON_DEF: LanguageDef = {
+  rules: [
+    { pattern: /"(?:\\.|[^"\\\n])*"(?=\s*:)/y, type: 'property' },
+    DQ_STRING, NUMBER,
+    { pattern: /\b(true|false|null)\b/y, type: 'keyword' },
+  ],
+};
+
+const YAML: LanguageDef = {
+  rules: [
+    HASH_COMMENT,
+    { pattern: /[\w.-]+(?=\s*:(\s|$))/y, type: 'property' },
+    DQ_STRING, SQ_STRING,
+    { pattern: /\b(true|false|null|yes|no|on|off)\b/iy, type: 'keyword' },
+    NUMBER,
+    { pattern: /[&*][\w-]+|!![\w]+/y, type: 'meta' },
+  ],
+};
+
+const SQL: LanguageDef = { caseInsensitiveKeywords: true, keywords: words('select from where and or not insert into values update set delete create table index view drop alter add column primary key foreign references join left right inner outer full on group by order having limit offset as distinct union all case when then else end null is in like between exists returning with begin commit rollback grant revoke'), builtins: words('int integer bigint text varchar char boolean date timestamp timestamptz json jsonb uuid serial count sum avg min max now coalesce'), rules: [] };
+SQL.rules = [{ pattern: /--.*/y, type: 'comment' }, BLOCK_COMMENT, SQ_STRING, DQ_STRING, NUMBER, identifierRule(() => SQL), OPERATOR];
+
+const MARKUP: LanguageDef = {
+  rules: [
+    { pattern: /<!--[\s\S]*?(-->|$)/y, type: 'comment' },
+    { pattern: /<\/?[\w:-]+/y, type: 'tag' },
+    { pattern: /\/?>/y, type: 'tag' },
+    { pattern: /[\w:-]+(?==)/y, type: 'attribute' },
+    DQ_STRING, SQ_STRING,
+  ],
+};
+
+const CSS: LanguageDef = {
+  rules: [
+    BLOCK_COMMENT,
+    { pattern: /[\w-]+(?=\s*:[^{]*;)/y, type: 'property' },
+    { pattern: /[.#]?[\w-]+(?=[^;{}]*\{)/y, type: 'tag' },
+    DQ_STRING, SQ_STRING,
+    { pattern: /#[\da-f]{3,8}\b|-?\d+(\.\d+)?(px|em|rem|%|vh|vw|s|ms)?/iy, type: 'number' },
+    { pattern: /@[\w-]+/y, type: 'keyword' },
+  ],
+};
+
+const DOCKERFILE: LanguageDef = {
+  rules: [
+    HASH_COMMENT,
+    { pattern: /^\s*(FROM|RUN|CMD|LABEL|EXPOSE|ENV|ADD|COPY|ENTRYPOINT|VOLUME|USER|WORKDIR|ARG|ONBUILD|STOPSIGNAL|HEALTHCHECK|SHELL|AS)\b/imy, type: 'keyword' },
+    DQ_STRING, SQ_STRING,
+    { pattern: /\$\{[^}\n]*\}?|\$\w+/y, type: 'variable' },
+  ],
+};
+
+const LANGUAGES: Record<string, LanguageDef> = {
+  js: JS, javascript: JS, jsx: JS, ts: JS, typescript: JS, tsx: JS, mjs: JS, cjs: JS,
+  py: PYTHON, python: PYTHON,
+  sh: SHELL, bash: SHELL, shell: SHELL, zsh: SHELL, console: SHELL, terminal: SHELL,
+  json: JSON_DEF, jsonc: JSON_DEF,
+  yaml: YAML, yml: YAML,
+  sql: SQL, postgres: SQL, postgresql: SQL,
+  html: MARKUP, xml: MARKUP, svg: MARKUP,
+  css: CSS, scss: CSS,
+  dockerfile: DOCKERFILE, docker: DOCKERFILE,
+  go: cLike('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var', 'true false nil iota bool byte error float32 float64 int int32 int64 rune string uint uint8 uint32 uint64 any', [{ pattern: /`[^`]*`?/y, type: 'string' }]),
+  rust: cLike('as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while', 'true false Some None Ok Err bool char str String i8 i16 i32 i64 u8 u16 u32 u64 usize isize f32 f64 Vec Option Result Box', [{ pattern: /#!?\[[^\]\n]*\]?/y, type: 'meta' }]),
+  java: cLike('abstract assert break case catch class continue default do else enum extends final finally for if implements import instanceof interface native new package private protected public return static super switch synchronized this throw throws try void volatile while var record', 'true false null boolean byte char double float int long short String', [{ pattern: /@\w+/y, type: 'meta' }]),
+  c: cLike('auto break case const continue default do else enum extern for goto if inline register return sizeof static struct switch typedef union volatile while', 'char double float int long short signed unsigned void size_t NULL true false', [{ pattern: /#\s*\w+/y, type: 'meta' }]),
+  cpp: cLike('auto break case catch class const constexpr continue default delete do else enum explicit extern for friend goto if inline namespace new noexcept operator private protected public return sizeof static struct switch template this throw try typedef typename union using virtual volatile while', 'bool char double float int long short signed unsigned void size_t nullptr true false std string vector', [{ pattern: /#\s*\w+/y, type: 'meta' }]),
+  cs: cLike('abstract as async await base break case catch class const continue default delegate do else enum event explicit extern finally fixed for foreach if implicit in interface internal is lock namespace new operator out override params private protected public readonly ref return sealed sizeof static struct switch this throw try typeof using var virtual void while', 'true false null bool byte char decimal double float int long object sbyte short string uint ulong ushort', [{ pattern: /\[\w+[^\]\n]*\]?/y, type: 'meta' }]),
+};
+LANGUAGES['c++'] = LANGUAGES.cpp;
+LANGUAGES.csharp = LANGUAGES['c#'] = LANGUAGES.cs;
+LANGUAGES.rs = LANGUAGES.rust;
+LANGUAGES.golang = LANGUAGES.go;
+LANGUAGES.h = LANGUAGES.c;
+
+export const isHighlightable = (language: string) => language.toLowerCase() in LANGUAGES;
+
+export function highlight(code: string, language: string): Token[] {
+  const def = LANGUAGES[language.toLowerCase()];
+  if (!def) return [{ type: 'plain', text: code }];
+
+  const tokens: Token[] = [];
+  const push = (type: TokenType, text: string) => {
+    const last = tokens[tokens.length - 1];
+    if (last && last.type === type) last.text += text;
+    else tokens.push({ type, text });
+  };
+
+  let i = 0;
+  outer: while (i < code.length) {
+    for (const rule of def.rules) {
+      rule.pattern.lastIndex = i;
+      const match = rule.pattern.exec(code);
+      if (!match || !match[0]) continue;
+      const text = match[0];
+      const type = typeof rule.type === 'function' ? rule.type(text, code[i + text.length] ?? '') : rule.type;
+      // Rules that may swallow a leading space (e.g. shell comments) keep it plain.
+      const lead = text.match(/^\s*/)![0];
+      if (lead && type !== 'plain') push('plain', lead);
+      push(type, text.slice(lead.length));
+      i += text.length;
+      continue outer;
+    }
+    push('plain', code[i]);
+    i++;
+  }
+  return tokens;
+}
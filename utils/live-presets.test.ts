@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { BUILTIN_PRESETS, composeInstruction, parsePresets, serializePresets } from './live-presets';
+
+describe('composeInstruction', () => {
+  const preset = BUILTIN_PRESETS[0];
+
+  it('leaves the instruction alone when matching the user', () => {
+    expect(composeInstruction(preset, 'auto')).toBe(preset.instruction);
+  });
+
+  it('appends a fixed response language', () => {
+    expect(composeInstruction(preset, 'de-DE')).toMatch(/Always respond in German/);
+  });
+});
+
+describe('parsePresets', () => {
+  it('round-trips exported presets with fresh ids', () => {
+    const custom = [{ id: 'custom:a', name: 'Mine', instruction: 'Be brief.' }];
+    const [imported] = parsePresets(serializePresets(custom));
+    expect(imported).toMatchObject({ name: 'Mine', instruction: 'Be brief.' });
+    expect(imported.id).not.toBe('custom:a');
+    expect(imported.builtin).toBeUndefined();
+  });
+
+  it('accepts a bare array', () => {
+    expect(parsePresets('[{"name":"A","instruction":"B"}]')).toHaveLength(1);
+  });
+
+  it('rejects malformed files with a readable message', () => {
+    expect(() => parsePresets('not json')).toThrow(/not valid JSON/);
+    expect(() => parsePresets('{"presets":[{"name":"A"}]}')).toThrow(/Preset 1/);
+    expect(() => parsePresets('{}')).toThrow(/presets/);
+  });
+});
@@ -0,0 +1,122 @@
+export interface InstructionPreset {
+  id: string;
+  name: string;
+  instruction: string;
+  // Shipped with the app; can be duplicated but not edited or deleted.
+  builtin?: boolean;
+}
+
+export const BUILTIN_PRESETS: InstructionPreset[] = [
+  {
+    id: 'builtin:troubleshooter',
+    name: 'Troubleshooter',
+    builtin: true,
+    instruction: `You are ANA, a Senior Technical Solutions Architect.
+Your goal is to help the user troubleshoot AI setups, coding errors, and infrastructure bugs using the provided visual data.
+When a screen share is active:
+1. Scan the screen for Terminal windows, VS Code errors, or Tracebacks.
+2. If you see an error, describe exactly why it is happening and how to fix it.
+3. Keep responses extremely concise and technical.
+4. If you see code, format it nicely in markdown code blocks.
+5. If you don't see any issues, monitor for performance bottlenecks or bad configurations.`,
+  },
+  {
+    id: 'builtin:code-reviewer',
+    name: 'Code Reviewer',
+    builtin: true,
+    instruction: `You are ANA, a meticulous senior code reviewer.
+Review the code visible on the user's screen as they scroll through a diff or file:
+1. Point out bugs, race conditions, missing error handling and security issues first.
+2. Then mention readability, naming and test coverage, briefly.
+3. Quote the exact line you are talking about and suggest a concrete replacement in a markdown code block.
+4. Do not nitpick formatting a linter would catch.
+5. Say so plainly when the code looks good.`,
+  },
+  {
+    id: 'builtin:on-call',
+    name: 'Infra / On-call',
+    builtin: true,
+    instruction: `You are ANA, a calm site reliability engineer helping the user through an incident.
+Use the dashboards, logs and terminals on screen:
+1. Establish impact and the most likely failing component before suggesting fixes.
+2. Prefer safe, reversible mitigations (rollback, scale out, fail over) over risky changes.
+3. Give exact commands in markdown code blocks and say what each one changes.
+4. Call out anything on screen that contradicts the current theory.
+5. Keep a running summary the user can paste into the incident channel when asked.`,
+  },
+  {
+    id: 'builtin:tutor',
+    name: 'Pair-programming Tutor',
+    builtin: true,
+    instruction: `You are ANA, a patient pair-programming tutor.
+Watch the user's editor and terminal while they code:
+1. Guide with questions and hints before giving full answers.
+2. Explain why an error happens, not just how to silence it.
+3. Keep code examples short and in markdown code blocks.
+4. Encourage small steps: write a test, run it, read the output.
+5. Adapt the depth of explanations to how the user responds.`,
+  },
+];
+
+export const DEFAULT_PRESET_ID = BUILTIN_PRESETS[0].id;
+
+export const RESPONSE_LANGUAGES: { code: string; label: string }[] = [
+  { code: 'auto', label: 'Match the user' },
+  { code: 'en-US', label: 'English' },
+  { code: 'es-ES', label: 'Spanish' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'nl-NL', label: 'Dutch' },
+  { code: 'pl-PL', label: 'Polish' },
+  { code: 'ru-RU', label: 'Russian' },
+  { code: 'tr-TR', label: 'Turkish' },
+  { code: 'hi-IN', label: 'Hindi' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'zh-CN', label: 'Chinese (Mandarin)' },
+];
+
+/**
+ * The system instruction actually sent. Native-audio models pick their spoken language
+ * themselves, so a fixed response language is requested in the instruction.
+ */
+export function composeInstruction(preset: InstructionPreset, language: string): string {
+  const match = RESPONSE_LANGUAGES.find(l => l.code === language);
+  if (!match || match.code === 'auto') return preset.instruction;
+  return `${preset.instruction}\n\nAlways respond in ${match.label}, regardless of the language the user speaks.`;
+}
+
+export const createPresetId = () => `custom:${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+const EXPORT_VERSION = 1;
+
+export function serializePresets(presets: InstructionPreset[]): string {
+  return JSON.stringify({
+    version: EXPORT_VERSION,
+    presets: presets.map(({ name, instruction }) => ({ name, instruction })),
+  }, null, 2);
+}
+
+/**
+ * Parses an exported preset file (or a bare array of presets). Imported presets always get
+ * fresh ids so they never collide with, or overwrite, existing ones.
+ */
+export function parsePresets(json: string): InstructionPreset[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error('The file is not valid JSON.');
+  }
+  const list = Array.isArray(data) ? data : (data as { presets?: unknown })?.presets;
+  if (!Array.isArray(list)) throw new Error('Expected a "presets" array.');
+  return list.map((item, i) => {
+    const { name, instruction } = (item ?? {}) as Record<string, unknown>;
+    if (typeof name !== 'string' || !name.trim() || typeof instruction !== 'string' || !instruction.trim()) {
+      throw new Error(`Preset ${i + 1} needs a non-empty "name" and "instruction".`);
+    }
+    return { id: createPresetId(), name: name.trim(), instruction };
+  });
+}
@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { parseMarkdown, parseInline, sanitizeHref } from './markdown';
+
+const blocks = (text: string) => parseMarkdown(text).map(b => b.block);
+
+describe('parseInline', () => {
+  it('parses emphasis, inline code and links', () => {
+    expect(parseInline('**bold** and `x*y` see [docs](https://example.com)')).toEqual([
+      { type: 'strong', children: [{ type: 'text', text: 'bold' }] },
+      { type: 'text', text: ' and ' },
+      { type: 'code', text: 'x*y' },
+      { type: 'text', text: ' see ' },
+      { type: 'link', href: 'https://example.com', children: [{ type: 'text', text: 'docs' }] },
+    ]);
+  });
+
+  it('leaves snake_case and unclosed markers alone', () => {
+    expect(parseInline('my_var_name **partial')).toEqual([{ type: 'text', text: 'my_var_name **partial' }]);
+  });
+
+  it('drops unsafe link targets but keeps the label', () => {
+    expect(parseInline('[click](javascript:alert(1))')).toEqual([{ type: 'text', text: 'click' }, { type: 'text', text: ')' }]);
+  });
+
+  it('links bare URLs without trailing punctuation', () => {
+    expect(parseInline('see https://x.dev/a.')[1]).toEqual({ type: 'link', href: 'https://x.dev/a', children: [{ type: 'text', text: 'https://x.dev/a' }] });
+  });
+});
+
+describe('sanitizeHref', () => {
+  it('allows web, mail and in-page links only', () => {
+    expect(sanitizeHref('https://a.b')).toBe('https://a.b');
+    expect(sanitizeHref('mailto:a@b.c')).toBe('mailto:a@b.c');
+    expect(sanitizeHref('#t=10')).toBe('#t=10');
+    expect(sanitizeHref('//evil.com')).toBeNull();
+    expect(sanitizeHref('/\\evil.example')).toBeNull();
+    expect(sanitizeHref('/\\/evil.example')).toBeNull();
+    expect(sanitizeHref('/\t/evil.example')).toBeNull();
+    expect(sanitizeHref('/video')).toBe('/video');
+    expect(sanitizeHref('data:text/html,<script>')).toBeNull();
+    expect(sanitizeHref(' JavaScript:alert(1)')).toBeNull();
+  });
+});
+
+describe('parseMarkdown', () => {
+  it('splits headings, paragraphs and fenced code', () => {
+    expect(blocks('# Fix\nRun this:\n```bash\nnpm ci\n```')).toEqual([
+      { type: 'heading', level: 1, children: [{ type: 'text', text: 'Fix' }] },
+      { type: 'paragraph', children: [{ type: 'text', text: 'Run this:' }] },
+      { type: 'code', language: 'bash', code: 'npm ci', open: false },
+    ]);
+  });
+
+  it('marks an unclosed fence as open so streaming code renders as code', () => {
+    expect(blocks('```ts\nconst a')[0]).toEqual({ type: 'code', language: 'ts', code: 'const a', open: true });
+  });
+
+  it('parses nested lists', () => {
+    const [list] = blocks('1. first\n   - nested\n2. second');
+    expect(list).toMatchObject({ type: 'list', ordered: true, start: 1 });
+    if (list.type !== 'list') throw new Error('expected a list');
+    expect(list.items).toHaveLength(2);
+    expect(list.items[0][1]).toMatchObject({ type: 'list', ordered: false });
+  });
+
+  it('parses GFM tables with alignment', () => {
+    const [table] = blocks('| a | b |\n|:--|--:|\n| 1 | `x|y` |');
+    expect(table).toMatchObject({ type: 'table', align: ['left', 'right'] });
+    if (table.type !== 'table') throw new Error('expected a table');
+    expect(table.rows[0][1]).toEqual([{ type: 'code', text: 'x|y' }]);
+  });
+
+  it('keeps each top-level block\'s source for memoised rendering', () => {
+    expect(parseMarkdown('one\n\ntwo').map(b => b.source)).toEqual(['one', 'two']);
+  });
+});
@@ -0,0 +1,360 @@
+/**
+ * A small markdown parser for model output: headings, paragraphs, emphasis, inline code,
+ * fenced code, lists, blockquotes, GFM tables and links. It produces a tree that is rendered
+ * as React elements, so no model-supplied HTML ever reaches the DOM; link targets are
+ * restricted to http(s), mailto and in-page URLs.
+ */
+
+export type Inline =
+  | { type: 'text'; text: string }
+  | { type: 'code'; text: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'link'; href: string; children: Inline[] }
+  | { type: 'break' };
+
+export type TableAlign = 'left' | 'center' | 'right' | null;
+
+export type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  // `open` marks a fence that has not been closed yet, i.e. code still streaming in.
+  | { type: 'code'; language: string; code: string; open: boolean }
+  | { type: 'list'; ordered: boolean; start: number; items: Block[][] }
+  | { type: 'blockquote'; children: Block[] }
+  | { type: 'table'; align: TableAlign[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'hr' };
+
+/** A top-level block with the source it was parsed from, so renderers can skip unchanged blocks. */
+export interface ParsedBlock {
+  block: Block;
+  source: string;
+}
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+#.-]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?\s*#*\s*$/;
+const HR = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?(.*)$/;
+const LIST_ITEM = /^( *)([-*+]|\d{1,9}[.)])(?:\s+(.*))?$/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-+:?\s*(\|\s*:?-+:?\s*)*\|?\s*$/;
+
+const isBlank = (line: string) => !line.trim();
+const leadingSpaces = (line: string) => line.length - line.trimStart().length;
+
+export function sanitizeHref(href: string): string | null {
+  const url = href.trim();
+  if (/^(https?:|mailto:)/i.test(url)) return url;
+  // Browsers read `\` as `/` and drop tabs and newlines, so `/\host` and `/<tab>/host` are protocol-relative too.
+  if (/^[#/]/.test(url) && !/^\/[/\\]/.test(url) && !/[\t\n\r]/.test(url)) return url;
+  return null;
+}
+
+// ---------------------------------------------------------------------------
+// Inline
+// ---------------------------------------------------------------------------
+
+const ESCAPABLE = /[\\`*_{}[\]()#+\-.!|~<>]/;
+const AUTOLINK = /^<((?:https?:\/\/|mailto:)[^\s>]+)>/i;
+const BARE_URL = /^https?:\/\/[^\s<]*[^\s<.,:;"')\]!?*_~]/i;
+const isWordChar = (ch: string | undefined) => !!ch && /[\p{L}\p{N}]/u.test(ch);
+
+function findClosing(text: string, delimiter: string, from: number): number {
+  let i = from;
+  while ((i = text.indexOf(delimiter, i)) !== -1) {
+    // Closers can't follow whitespace, and `_` can't close inside a word (snake_case).
+    const before = text[i - 1];
+    const after = text[i + delimiter.length];
+    if (i > from && before !== ' ' && !(delimiter[0] === '_' && isWordChar(after))) {
+      // A single `*` must not be half of a `**`.
+      if (delimiter.length === 1 && (after === delimiter || before === delimiter)) { i += 1; continue; }
+      return i;
+    }
+    i += delimiter.length;
+  }
+  return -1;
+}
+
+function findLinkEnd(text: string, from: number): { label: string; href: string; end: number } | null {
+  let depth = 0;
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '[') depth++;
+    if (text[i] === ']' && depth-- === 0) {
+      if (text[i + 1] !== '(') return null;
+      const close = text.indexOf(')', i + 2);
+      if (close === -1) return null;
+      // Drop an optional "title".
+      const href = text.slice(i + 2, close).trim().replace(/\s+"[^"]*"$/, '');
+      return { label: text.slice(from, i), href, end: close + 1 };
+    }
+  }
+  return null;
+}
+
+export function parseInline(text: string): Inline[] {
+  const out: Inline[] = [];
+  let buffer = '';
+  const flush = () => { if (buffer) { out.push({ type: 'text', text: buffer }); buffer = ''; } };
+  const push = (node: Inline) => { flush(); out.push(node); };
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+    const rest = text.slice(i);
+
+    if (ch === '\\' && ESCAPABLE.test(text[i + 1] ?? '')) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = rest.match(/^`+/)![0];
+      const close = text.indexOf(run, i + run.length);
+      if (close !== -1) {
+        let code = text.slice(i + run.length, close);
+        if (code.startsWith(' ') && code.endsWith(' ') && code.trim()) code = code.slice(1, -1);
+        push({ type: 'code', text: code });
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (ch === '*' || ch === '_' || ch === '~') {
+      const double = text[i + 1] === ch;
+      const delimiter = double ? ch + ch : ch;
+      const canOpen = text[i + delimiter.length] !== undefined && text[i + delimiter.length] !== ' '
+        && !(ch === '_' && isWordChar(text[i - 1]))
+        && (ch !== '~' || double);
+      const close = canOpen ? findClosing(text, delimiter, i + delimiter.length) : -1;
+      if (close !== -1) {
+        const type = ch === '~' ? 'del' : double ? 'strong' : 'em';
+        push({ type, children: parseInline(text.slice(i + delimiter.length, close)) });
+        i = close + delimiter.length;
+        continue;
+      }
+      buffer += delimiter;
+      i += delimiter.length;
+      continue;
+    }
+
+    if (ch === '[') {
+      const link = findLinkEnd(text, i + 1);
+      if (link) {
+        const href = sanitizeHref(link.href);
+        const children = parseInline(link.label);
+        if (href) push({ type: 'link', href, children });
+        else { flush(); out.push(...children); }
+        i = link.end;
+        continue;
+      }
+    }
+
+    if (ch === '<') {
+      const auto = rest.match(AUTOLINK);
+      if (auto) {
+        push({ type: 'link', href: auto[1], children: [{ type: 'text', text: auto[1] }] });
+        i += auto[0].length;
+        continue;
+      }
+    }
+
+    if ((ch === 'h' || ch === 'H') && !isWordChar(text[i - 1])) {
+      const url = rest.match(BARE_URL);
+      if (url) {
+        push({ type: 'link', href: url[0], children: [{ type: 'text', text: url[0] }] });
+        i += url[0].length;
+        continue;
+      }
+    }
+
+    buffer += ch;
+    i++;
+  }
+  flush();
+  return out;
+}
+
+// ---------------------------------------------------------------------------
+// Blocks
+// ---------------------------------------------------------------------------
+
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let cell = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === '\\' && row[i + 1] === '|') { cell += '|'; i++; continue; }
+    if (ch === '`') inCode = !inCode;
+    if (ch === '|' && !inCode) { cells.push(cell.trim()); cell = ''; continue; }
+    cell += ch;
+  }
+  cells.push(cell.trim());
+  return cells;
+}
+
+function parseAlign(cell: string): TableAlign {
+  const left = cell.startsWith(':');
+  const right = cell.endsWith(':');
+  return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+}
+
+const isTableStart = (lines: string[], i: number) =>
+  lines[i].includes('|') && i + 1 < lines.length && lines[i + 1].includes('-') && TABLE_SEPARATOR.test(lines[i + 1]);
+
+// Lines that end a paragraph without a blank line in between.
+const interruptsParagraph = (lines: string[], i: number) => {
+  const line = lines[i];
+  return FENCE.test(line) || HEADING.test(line) || HR.test(line) || QUOTE.test(line)
+    || (LIST_ITEM.test(line) && !!line.match(LIST_ITEM)![3]) || isTableStart(lines, i);
+};
+
+interface LineBlock {
+  block: Block;
+  start: number;
+  end: number;
+}
+
+function parseList(lines: string[], start: number): { block: Block; end: number } {
+  const first = lines[start].match(LIST_ITEM)!;
+  const indent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: string[][] = [];
+  let current: string[] = [];
+  let contentIndent = 0;
+  let i = start;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const item = line.match(LIST_ITEM);
+    if (item && item[1].length === indent && /\d/.test(item[2]) === ordered && !HR.test(line)) {
+      if (i !== start) items.push(current);
+      current = [item[3] ?? ''];
+      contentIndent = indent + item[2].length + 1;
+      i++;
+      continue;
+    }
+    if (isBlank(line)) {
+      // A blank line continues the list only if more indented content or another item follows.
+      let next = i + 1;
+      while (next < lines.length && isBlank(lines[next])) next++;
+      const following = lines[next];
+      const sibling = following?.match(LIST_ITEM);
+      if (following === undefined || (leadingSpaces(following) < contentIndent && !(sibling && sibling[1].length === indent))) break;
+      current.push('');
+      i++;
+      continue;
+    }
+    if (leadingSpaces(line) >= contentIndent || (leadingSpaces(line) > indent && item)) {
+      current.push(line.slice(Math.min(leadingSpaces(line), contentIndent)));
+      i++;
+      continue;
+    }
+    // Lazy continuation of the item's paragraph.
+    if (!item && !interruptsParagraph(lines, i) && current.length && !isBlank(current[current.length - 1])) {
+      current.push(line.trim());
+      i++;
+      continue;
+    }
+    break;
+  }
+  items.push(current);
+
+  return {
+    block: {
+      type: 'list',
+      ordered,
+      start: ordered ? parseInt(first[2], 10) : 1,
+      items: items.map(itemLines => parseLines(itemLines).map(b => b.block)),
+    },
+    end: i,
+  };
+}
+
+function parseLines(lines: string[]): LineBlock[] {
+  const blocks: LineBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    const start = i;
+
+    if (isBlank(line)) { i++; continue; }
+
+    const fence = line.match(FENCE);
+    if (fence) {
+      const marker = fence[1];
+      const closing = new RegExp(`^ {0,3}${marker[0] === '`' ? '`' : '~'}{${marker.length},}\\s*$`);
+      let end = i + 1;
+      while (end < lines.length && !closing.test(lines[end])) end++;
+      const open = end >= lines.length;
+      blocks.push({ block: { type: 'code', language: fence[2].toLowerCase(), code: lines.slice(i + 1, end).join('\n'), open }, start, end: Math.min(end + 1, lines.length) });
+      i = end + 1;
+      continue;
+    }
+
+    const heading = line.match(HEADING);
+    if (heading) {
+      blocks.push({ block: { type: 'heading', level: heading[1].length, children: parseInline(heading[2] ?? '') }, start, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (HR.test(line)) {
+      blocks.push({ block: { type: 'hr' }, start, end: i + 1 });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align = splitRow(lines[i + 1]).map(parseAlign);
+      const rows: Inline[][][] = [];
+      i += 2;
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(cells[c] ?? '')));
+        i++;
+      }
+      blocks.push({ block: { type: 'table', align: header.map((_, c) => align[c] ?? null), header: header.map(h => parseInline(h)), rows }, start, end: i });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && QUOTE.test(lines[i])) quoted.push(lines[i++].match(QUOTE)![1]);
+      blocks.push({ block: { type: 'blockquote', children: parseLines(quoted).map(b => b.block) }, start, end: i });
+      continue;
+    }
+
+    if (LIST_ITEM.test(line)) {
+      const list = parseList(lines, i);
+      blocks.push({ block: list.block, start, end: list.end });
+      i = list.end;
+      continue;
+    }
+
+    const paragraph = [line.trim()];
+    i++;
+    while (i < lines.length && !isBlank(lines[i]) && !interruptsParagraph(lines, i)) paragraph.push(lines[i++].trim());
+    blocks.push({ block: { type: 'paragraph', children: parseInline(paragraph.join('\n')) }, start, end: i });
+  }
+  return blocks;
+}
+
+export function parseMarkdown(text: string): ParsedBlock[] {
+  const lines = text.replace(/\r\n?/g, '\n').split('\n');
+  return parseLines(lines).map(({ block, start, end }) => ({ block, source: lines.slice(start, end).join('\n') }));
+}
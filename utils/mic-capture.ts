@@ -0,0 +1,38 @@
+import workletUrl from './pcm-capture.worklet.ts?worker&url';
+
+export interface MicCaptureOptions {
+  targetSampleRate: number;
+  // Samples per emitted chunk at the target rate; smaller chunks lower latency at the cost of more messages.
+  chunkSize: number;
+  onChunk: (pcm16: Int16Array) => void;
+}
+
+export interface MicCapture {
+  stop: () => void;
+}
+
+const loadedContexts = new WeakSet<BaseAudioContext>();
+
+/** Streams PCM16 chunks from `source` through the `pcm-capture` AudioWorklet. */
+export async function startMicCapture(ctx: AudioContext, source: AudioNode, options: MicCaptureOptions): Promise<MicCapture> {
+  if (!ctx.audioWorklet) throw new Error('AudioWorklet is not supported in this browser.');
+  if (!loadedContexts.has(ctx)) {
+    await ctx.audioWorklet.addModule(workletUrl);
+    loadedContexts.add(ctx);
+  }
+  const node = new AudioWorkletNode(ctx, 'pcm-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: { targetSampleRate: options.targetSampleRate, chunkSize: options.chunkSize },
+  });
+  node.port.onmessage = (e: MessageEvent<ArrayBuffer>) => options.onChunk(new Int16Array(e.data));
+  source.connect(node);
+  return {
+    stop: () => {
+      node.port.onmessage = null;
+      try { source.disconnect(node); } catch (e) {}
+    },
+  };
+}
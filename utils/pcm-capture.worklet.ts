@@ -0,0 +1,52 @@
+import { createResampler, floatTo16BitPCM, Resampler } from './audio-utils';
+
+// AudioWorkletGlobalScope members, which the DOM lib does not declare.
+declare const sampleRate: number;
+declare function registerProcessor(name: string, processorCtor: unknown): void;
+declare class AudioWorkletProcessor {
+  readonly port: MessagePort;
+  constructor(options?: unknown);
+}
+
+interface PcmCaptureOptions {
+  targetSampleRate: number;
+  chunkSize: number;
+}
+
+/**
+ * Resamples the first input channel to `targetSampleRate` off the main thread and posts
+ * PCM16 chunks of exactly `chunkSize` samples (as transferable ArrayBuffers) to the port.
+ */
+class PcmCaptureProcessor extends AudioWorkletProcessor {
+  private resampler: Resampler;
+  private chunk: Float32Array;
+  private filled = 0;
+
+  constructor(options: { processorOptions: PcmCaptureOptions }) {
+    super(options);
+    const { targetSampleRate, chunkSize } = options.processorOptions;
+    this.resampler = createResampler(sampleRate, targetSampleRate);
+    this.chunk = new Float32Array(chunkSize);
+  }
+
+  process(inputs: Float32Array[][]): boolean {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+    const resampled = this.resampler.process(channel);
+    let offset = 0;
+    while (offset < resampled.length) {
+      const n = Math.min(this.chunk.length - this.filled, resampled.length - offset);
+      this.chunk.set(resampled.subarray(offset, offset + n), this.filled);
+      this.filled += n;
+      offset += n;
+      if (this.filled === this.chunk.length) {
+        const pcm = floatTo16BitPCM(this.chunk);
+        this.port.postMessage(pcm.buffer, [pcm.buffer]);
+        this.filled = 0;
+      }
+    }
+    return true;
+  }
+}
+
+registerProcessor('pcm-capture', PcmCaptureProcessor);
@@ -0,0 +1,47 @@
+import { InferenceProvider, ModelConfig, PreflightRequest } from '../types';
+import { AppError } from './errors';
+
+export type BrowserFeature = 'microphone' | 'screen-capture' | 'web-audio' | 'audio-worklet';
+
+const FEATURE_CHECKS: Record<BrowserFeature, { supported: () => boolean; missing: string }> = {
+  microphone: {
+    supported: () => !!navigator.mediaDevices?.getUserMedia,
+    missing: 'Microphone capture (getUserMedia) is unavailable. It requires HTTPS or localhost.',
+  },
+  'screen-capture': {
+    supported: () => !!navigator.mediaDevices?.getDisplayMedia,
+    missing: 'Screen capture (getDisplayMedia) is unavailable in this browser.',
+  },
+  'web-audio': {
+    supported: () => !!(window.AudioContext || (window as any).webkitAudioContext),
+    missing: 'The Web Audio API is unavailable in this browser.',
+  },
+  'audio-worklet': {
+    supported: () => typeof AudioWorkletNode !== 'undefined',
+    missing: 'AudioWorklet is unavailable. It requires HTTPS or localhost.',
+  },
+};
+
+export function checkBrowserSupport(features: BrowserFeature[]) {
+  for (const feature of features) {
+    const check = FEATURE_CHECKS[feature];
+    if (!check.supported()) throw new AppError('unsupported-browser', check.missing);
+  }
+}
+
+/**
+ * Runs before anything is captured or uploaded: browser support, connectivity, then the
+ * provider's own checks (key, model, payload size). Rejects with an AppError.
+ */
+export async function runPreflight(
+  provider: InferenceProvider,
+  model: ModelConfig,
+  request: PreflightRequest,
+  features: BrowserFeature[] = [],
+) {
+  checkBrowserSupport(features);
+  if (provider.id === 'google' && navigator.onLine === false) {
+    throw new AppError('network', 'The browser reports that it is offline.');
+  }
+  await provider.preflight(model, request);
+}
@@ -0,0 +1,29 @@
+import { describe, it, expect } from 'vitest';
+import { activeEntryIndex, entryOffset } from './recording-bundle';
+import { TranscriptionEntry } from '../types';
+
+const START = 1_000_000;
+const entry = (role: 'user' | 'model', at: number, timestamp = at + 500): TranscriptionEntry =>
+  ({ role, text: `${role}@${at}`, timestamp, startedAt: START + at, endedAt: START + at + 400 });
+
+describe('entryOffset', () => {
+  it('measures from the recording start and clamps turns begun before it', () => {
+    expect(entryOffset(entry('user', 2500), START)).toBe(2500);
+    expect(entryOffset(entry('user', -800), START)).toBe(0);
+  });
+
+  it('falls back to the timestamp for entries without a span', () => {
+    expect(entryOffset({ role: 'model', text: 'x', timestamp: START + 700 }, START)).toBe(700);
+  });
+});
+
+describe('activeEntryIndex', () => {
+  const transcript = [entry('user', 1000), entry('model', 3000), entry('user', 8000)];
+
+  it('returns the last entry that has started at the given time', () => {
+    expect(activeEntryIndex(transcript, START, 0)).toBe(-1);
+    expect(activeEntryIndex(transcript, START, 1000)).toBe(0);
+    expect(activeEntryIndex(transcript, START, 7999)).toBe(1);
+    expect(activeEntryIndex(transcript, START, 60_000)).toBe(2);
+  });
+});
@@ -0,0 +1,48 @@
+import { RecordingManifest, SessionRecording, TranscriptionEntry } from '../types';
+import { downloadBlob } from './file-utils';
+import { recordingId } from './session-store';
+
+const bundleStem = (manifest: RecordingManifest) =>
+  `ana-recording-${new Date(manifest.startedAt).toISOString().replace(/[:.]/g, '-').slice(0, 19)}`;
+
+/** Downloads the bundle as two files sharing a name: the WebM and its JSON manifest. */
+export function exportRecording(recording: SessionRecording): void {
+  const stem = bundleStem(recording.manifest);
+  downloadBlob(recording.video, `${stem}.webm`);
+  downloadBlob(new Blob([JSON.stringify(recording.manifest, null, 2)], { type: 'application/json' }), `${stem}.json`);
+}
+
+function isManifest(value: unknown): value is RecordingManifest {
+  const m = value as Partial<RecordingManifest> | null;
+  return !!m && m.version === 1 && typeof m.startedAt === 'number' && typeof m.durationMs === 'number'
+    && Array.isArray(m.transcript) && Array.isArray(m.frames);
+}
+
+/** Reassembles a bundle picked from disk (one .webm and one .json, in any order). */
+export async function readRecordingBundle(files: File[]): Promise<SessionRecording> {
+  const video = files.find(f => f.type.startsWith('video/') || f.name.endsWith('.webm'));
+  const json = files.find(f => f.type === 'application/json' || f.name.endsWith('.json'));
+  if (!video || !json) throw new Error('Select both the .webm and the .json file of a recording.');
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await json.text());
+  } catch {
+    throw new Error(`${json.name} is not valid JSON.`);
+  }
+  if (!isManifest(manifest)) throw new Error(`${json.name} is not an ANA recording manifest.`);
+  return { id: recordingId(manifest.sessionId, manifest.startedAt), sessionId: manifest.sessionId, video, manifest };
+}
+
+/** Start of an entry on the recording's clock, in ms (never negative). */
+export function entryOffset(entry: TranscriptionEntry, startedAt: number): number {
+  return Math.max(0, (entry.startedAt ?? entry.timestamp) - startedAt);
+}
+
+/** Index of the transcript entry being spoken at `timeMs`, i.e. the last one that has started. */
+export function activeEntryIndex(transcript: TranscriptionEntry[], startedAt: number, timeMs: number): number {
+  let active = -1;
+  transcript.forEach((entry, i) => {
+    if (entryOffset(entry, startedAt) <= timeMs) active = i;
+  });
+  return active;
+}
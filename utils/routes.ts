@@ -0,0 +1,34 @@
+import { ModelCapability } from '../types';
+
+export type ModuleID = 'live' | 'chat' | 'tts' | 'video';
+
+export interface ModuleRoute {
+  id: ModuleID;
+  path: string;
+  label: string;
+  capability: ModelCapability;
+}
+
+export const MODULE_ROUTES: ModuleRoute[] = [
+  { id: 'live', path: '/live', label: 'Live Session', capability: 'live' },
+  { id: 'chat', path: '/chat', label: 'Neural Chat', capability: 'text' },
+  { id: 'tts', path: '/tts', label: 'Voice Synthesis', capability: 'tts' },
+  { id: 'video', path: '/video', label: 'Video Analysis', capability: 'video' },
+];
+
+export const DEFAULT_MODULE: ModuleID = 'live';
+
+// Unknown paths (including "/") resolve to the default module.
+export function moduleFromPath(pathname: string): ModuleID {
+  const normalized = pathname.replace(/\/+$/, '') || '/';
+  const route = MODULE_ROUTES.find(r => r.path === normalized);
+  return route ? route.id : DEFAULT_MODULE;
+}
+
+export function pathForModule(id: ModuleID): string {
+  return MODULE_ROUTES.find(r => r.id === id)?.path ?? '/';
+}
+
+export function capabilityForModule(id: ModuleID): ModelCapability {
+  return MODULE_ROUTES.find(r => r.id === id)?.capability ?? 'live';
+}
@@ -0,0 +1,100 @@
+// Output size of the recorded video; sent frames are letterboxed into it.
+const VIDEO_WIDTH = 1280;
+const VIDEO_HEIGHT = 720;
+
+const MIME_CANDIDATES = ['video/webm;codecs=vp9,opus', 'video/webm;codecs=vp8,opus', 'video/webm'];
+
+export interface RecordingResult {
+  video: Blob;
+  mimeType: string;
+  durationMs: number;
+  frames: number[];
+}
+
+export interface SessionRecorder {
+  // Wall-clock time of the recording's first sample.
+  startedAt: number;
+  addFrame: (frame: Blob) => void;
+  // For sources that appear mid-recording, e.g. after switching microphones.
+  addAudioSource: (node: AudioNode) => void;
+  stop: () => Promise<RecordingResult>;
+}
+
+export const isRecordingSupported = () =>
+  typeof MediaRecorder !== 'undefined' && MIME_CANDIDATES.some(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Records the given audio nodes and the frames passed to `addFrame` into one WebM, so audio,
+ * video and the caller's timestamps all share the recorder's clock. The video only advances
+ * when a frame is added, which mirrors exactly what the model saw.
+ */
+export function startSessionRecorder(ctx: AudioContext, initialSources: AudioNode[]): SessionRecorder {
+  const audioSources = [...initialSources];
+  const destination = ctx.createMediaStreamDestination();
+  audioSources.forEach(node => node.connect(destination));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = VIDEO_WIDTH;
+  canvas.height = VIDEO_HEIGHT;
+  const canvasCtx = canvas.getContext('2d')!;
+  const videoStream = canvas.captureStream(0);
+  const videoTrack = videoStream.getVideoTracks()[0] as CanvasCaptureMediaStreamTrack;
+
+  const paint = (draw: () => void) => {
+    canvasCtx.fillStyle = '#000';
+    canvasCtx.fillRect(0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+    draw();
+    videoTrack.requestFrame?.();
+  };
+  // A first frame so audio-only stretches still produce a playable video track.
+  paint(() => {});
+
+  const mimeType = MIME_CANDIDATES.find(type => MediaRecorder.isTypeSupported(type)) ?? 'video/webm';
+  const recorder = new MediaRecorder(new MediaStream([...videoStream.getVideoTracks(), ...destination.stream.getAudioTracks()]), { mimeType });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = e => { if (e.data.size) chunks.push(e.data); };
+
+  const frames: number[] = [];
+  const startedAt = Date.now();
+  const clockStart = performance.now();
+  let stopped = false;
+  recorder.start(1000);
+
+  return {
+    startedAt,
+
+    addFrame(frame) {
+      const offset = Math.round(performance.now() - clockStart);
+      createImageBitmap(frame).then(bitmap => {
+        if (stopped) return bitmap.close();
+        const scale = Math.min(VIDEO_WIDTH / bitmap.width, VIDEO_HEIGHT / bitmap.height);
+        const w = bitmap.width * scale;
+        const h = bitmap.height * scale;
+        paint(() => canvasCtx.drawImage(bitmap, (VIDEO_WIDTH - w) / 2, (VIDEO_HEIGHT - h) / 2, w, h));
+        bitmap.close();
+        frames.push(offset);
+      }).catch(err => console.error('Recording frame error:', err));
+    },
+
+    addAudioSource(node) {
+      if (stopped) return;
+      node.connect(destination);
+      audioSources.push(node);
+    },
+
+    stop() {
+      stopped = true;
+      const durationMs = Math.round(performance.now() - clockStart);
+      return new Promise(resolve => {
+        const finish = () => {
+          audioSources.forEach(node => { try { node.disconnect(destination); } catch (e) {} });
+          videoStream.getTracks().forEach(t => t.stop());
+          resolve({ video: new Blob(chunks, { type: mimeType }), mimeType, durationMs, frames });
+        };
+        if (recorder.state === 'inactive') return finish();
+        recorder.onstop = finish;
+        recorder.stop();
+      });
+    },
+  };
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { SessionRecord } from '../types';
+import { matchesQuery } from './session-store';
+
+const record: SessionRecord = {
+  id: 'a',
+  startedAt: 0,
+  endedAt: 1000,
+  voice: 'Kore',
+  systemInstruction: 'You are an infra on-call assistant.',
+  transcript: [
+    { role: 'user', text: 'The deploy failed with exit code 137', timestamp: 0 },
+    { role: 'model', text: 'That is usually the OOM killer.', timestamp: 500 },
+  ],
+};
+
+describe('matchesQuery', () => {
+  it('matches everything on an empty or blank query', () => {
+    expect(matchesQuery(record, '')).toBe(true);
+    expect(matchesQuery(record, '   \n')).toBe(true);
+  });
+
+  it('searches the transcript, the system instruction and the voice', () => {
+    expect(matchesQuery(record, 'exit code')).toBe(true);
+    expect(matchesQuery(record, 'on-call')).toBe(true);
+    expect(matchesQuery(record, 'kore')).toBe(true);
+    expect(matchesQuery(record, 'segfault')).toBe(false);
+  });
+
+  it('ignores case in both the query and the text', () => {
+    expect(matchesQuery(record, 'oom KILLER')).toBe(true);
+    expect(matchesQuery(record, 'DEPLOY')).toBe(true);
+  });
+
+  it('requires every term, which may come from different fields', () => {
+    expect(matchesQuery(record, 'infra 137')).toBe(true);
+    expect(matchesQuery(record, 'infra segfault')).toBe(false);
+  });
+});
@@ -0,0 +1,128 @@
+import { SessionRecord, SessionRecording } from '../types';
+
+const DB_NAME = 'ana-ai';
+const DB_VERSION = 3;
+const SESSIONS_STORE = 'sessions';
+// Recordings are large blobs, kept apart so listing sessions never loads them.
+const RECORDINGS_STORE = 'recordings';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = e => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+        const store = db.createObjectStore(SESSIONS_STORE, { keyPath: 'id' });
+        store.createIndex('startedAt', 'startedAt');
+      }
+      const createRecordingsStore = () => {
+        const store = db.createObjectStore(RECORDINGS_STORE, { keyPath: 'id' });
+        store.createIndex('sessionId', 'sessionId');
+        return store;
+      };
+      if (!db.objectStoreNames.contains(RECORDINGS_STORE)) {
+        createRecordingsStore();
+      } else if (e.oldVersion < 3) {
+        // Version 2 kept one recording per session, keyed by session id; re-key them by their own id.
+        const read = request.transaction!.objectStore(RECORDINGS_STORE).getAll();
+        read.onsuccess = () => {
+          db.deleteObjectStore(RECORDINGS_STORE);
+          const store = createRecordingsStore();
+          for (const old of read.result as Omit<SessionRecording, 'id'>[]) {
+            store.put({ ...old, id: recordingId(old.sessionId, old.manifest.startedAt) });
+          }
+        };
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>, storeName = SESSIONS_STORE): Promise<T> {
+  const db = await openDatabase();
+  const tx = db.transaction(storeName, mode);
+  return promisify(fn(tx.objectStore(storeName)));
+}
+
+export function createSessionId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+export async function saveSession(record: SessionRecord): Promise<void> {
+  await withStore('readwrite', store => store.put(record));
+}
+
+export async function getSession(id: string): Promise<SessionRecord | undefined> {
+  return withStore('readonly', store => store.get(id) as IDBRequest<SessionRecord | undefined>);
+}
+
+/** Returns every stored session, newest first. */
+export async function listSessions(): Promise<SessionRecord[]> {
+  const all = await withStore('readonly', store => store.getAll() as IDBRequest<SessionRecord[]>);
+  return all.sort((a, b) => b.startedAt - a.startedAt);
+}
+
+export async function deleteSession(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id));
+  await deleteRecordings(id);
+}
+
+export async function clearSessions(): Promise<void> {
+  await withStore('readwrite', store => store.clear());
+  await withStore('readwrite', store => store.clear(), RECORDINGS_STORE);
+}
+
+/** A session can be recorded several times, so each recording is keyed by its session and start. */
+export const recordingId = (sessionId: string, startedAt: number) => `${sessionId}:${startedAt}`;
+
+export async function saveRecording(recording: SessionRecording): Promise<void> {
+  await withStore('readwrite', store => store.put(recording), RECORDINGS_STORE);
+}
+
+/** Every recording made during a session, oldest first. */
+export async function listRecordings(sessionId: string): Promise<SessionRecording[]> {
+  const all = await withStore('readonly', store => store.index('sessionId').getAll(sessionId) as IDBRequest<SessionRecording[]>, RECORDINGS_STORE);
+  return all.sort((a, b) => a.manifest.startedAt - b.manifest.startedAt);
+}
+
+async function deleteRecordings(sessionId: string): Promise<void> {
+  const keys = await withStore('readonly', store => store.index('sessionId').getAllKeys(sessionId), RECORDINGS_STORE);
+  await Promise.all(keys.map(key => withStore('readwrite', store => store.delete(key), RECORDINGS_STORE)));
+}
+
+/**
+ * Case-insensitive full-text match: every whitespace-separated term in the query
+ * must appear somewhere in the transcript, the system instruction or the voice name.
+ */
+export function matchesQuery(record: SessionRecord, query: string): boolean {
+  const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (terms.length === 0) return true;
+  const haystack = [
+    record.voice,
+    record.systemInstruction,
+    ...record.transcript.map(t => t.text),
+  ].join('\n').toLowerCase();
+  return terms.every(term => haystack.includes(term));
+}
+
+export async function searchSessions(query: string): Promise<SessionRecord[]> {
+  const all = await listSessions();
+  return all.filter(r => matchesQuery(r, query));
+}
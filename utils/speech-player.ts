@@ -0,0 +1,145 @@
+export type PlaybackState = 'idle' | 'playing' | 'paused' | 'buffering' | 'ended';
+
+export interface SpeechPlayer {
+  // Queues the next piece of audio directly after the previous one.
+  append: (buffer: AudioBuffer) => void;
+  // No more audio is coming, so running out of it means the end rather than buffering.
+  finish: () => void;
+  play: () => void;
+  pause: () => void;
+  stop: () => void;
+  seek: (seconds: number) => void;
+  position: () => number;
+  // Of the audio appended so far.
+  duration: () => number;
+}
+
+// Scheduling slack so a source never starts in the past.
+const START_LEAD = 0.05;
+const EPSILON = 1e-6;
+
+/**
+ * Plays a sequence of audio buffers as one continuous track while more are still being appended.
+ * Buffers are scheduled back to back on the context clock, so there is no gap between them unless
+ * playback catches up with synthesis.
+ */
+export function createSpeechPlayer(ctx: AudioContext, onStateChange: (state: PlaybackState) => void): SpeechPlayer {
+  const buffers: AudioBuffer[] = [];
+  const starts: number[] = [];
+  let total = 0;
+  let finished = false;
+  let state: PlaybackState = 'idle';
+  let sources: AudioBufferSourceNode[] = [];
+  // Track position `anchorPos` plays at `anchorTime` on the context clock.
+  let anchorTime = 0;
+  let anchorPos = 0;
+  let scheduledUntil = 0;
+  let pausedAt = 0;
+
+  const setState = (next: PlaybackState) => {
+    if (next === state) return;
+    state = next;
+    onStateChange(next);
+  };
+
+  const silence = () => {
+    sources.forEach(source => {
+      source.onended = null;
+      source.stop();
+      source.disconnect();
+    });
+    sources = [];
+  };
+
+  const schedule = () => {
+    for (let i = 0; i < buffers.length; i++) {
+      const end = starts[i] + buffers[i].duration;
+      if (end <= scheduledUntil + EPSILON) continue;
+      // Playback caught up with synthesis: restart the clock here rather than schedule in the past.
+      if (anchorTime + (scheduledUntil - anchorPos) < ctx.currentTime) {
+        anchorTime = ctx.currentTime + START_LEAD;
+        anchorPos = scheduledUntil;
+      }
+      const source = ctx.createBufferSource();
+      source.buffer = buffers[i];
+      source.connect(ctx.destination);
+      source.onended = () => {
+        sources = sources.filter(s => s !== source);
+        if (sources.length > 0) return;
+        if (finished && scheduledUntil >= total - EPSILON) {
+          pausedAt = total;
+          setState('ended');
+        } else {
+          setState('buffering');
+        }
+      };
+      source.start(anchorTime + (scheduledUntil - anchorPos), scheduledUntil - starts[i]);
+      sources.push(source);
+      scheduledUntil = end;
+    }
+    if (sources.length > 0) setState('playing');
+  };
+
+  const startFrom = (seconds: number) => {
+    silence();
+    if (finished && seconds >= total - EPSILON) {
+      pausedAt = total;
+      setState('ended');
+      return;
+    }
+    anchorTime = ctx.currentTime + START_LEAD;
+    anchorPos = seconds;
+    scheduledUntil = seconds;
+    setState('buffering');
+    schedule();
+  };
+
+  const position = () => {
+    if (state === 'playing') return Math.min(scheduledUntil, Math.max(anchorPos, anchorPos + ctx.currentTime - anchorTime));
+    if (state === 'buffering') return scheduledUntil;
+    return pausedAt;
+  };
+
+  return {
+    append(buffer) {
+      starts.push(total);
+      buffers.push(buffer);
+      total += buffer.duration;
+      if (state === 'playing' || state === 'buffering') schedule();
+    },
+    finish() {
+      finished = true;
+      if (state === 'buffering' && sources.length === 0) {
+        pausedAt = total;
+        setState('ended');
+      }
+    },
+    play() {
+      if (state === 'playing' || state === 'buffering') return;
+      ctx.resume().catch(() => {});
+      startFrom(state === 'ended' ? 0 : pausedAt);
+    },
+    pause() {
+      if (state !== 'playing' && state !== 'buffering') return;
+      pausedAt = position();
+      silence();
+      setState('paused');
+    },
+    stop() {
+      silence();
+      pausedAt = 0;
+      setState('idle');
+    },
+    seek(seconds) {
+      const target = Math.max(0, Math.min(total, seconds));
+      if (state === 'playing' || state === 'buffering') {
+        startFrom(target);
+      } else {
+        pausedAt = target;
+        if (state === 'ended') setState('paused');
+      }
+    },
+    position,
+    duration: () => total,
+  };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { splitSpeechText, parseScript, scriptSpeakers, planScriptSynthesis, NARRATOR } from './speech-text';
+
+describe('splitSpeechText', () => {
+  it('keeps short text in one chunk and drops blank paragraphs', () => {
+    expect(splitSpeechText('  Hello   there.\n\n\n\nSecond  paragraph. ')).toEqual(['Hello there.\n\nSecond paragraph.']);
+    expect(splitSpeechText(' \n\n ')).toEqual([]);
+  });
+
+  it('packs whole paragraphs and breaks between them first', () => {
+    const a = 'First paragraph is here.';
+    const b = 'Second paragraph is here.';
+    const c = 'Third one.';
+    expect(splitSpeechText(`${a}\n\n${b}\n\n${c}`, 40)).toEqual([a, `${b}\n\n${c}`]);
+  });
+
+  it('splits long paragraphs between sentences without breaking decimals', () => {
+    const text = 'Pi is 3.14 roughly. Is that right? "Yes," she said. Then it ended!';
+    const chunks = splitSpeechText(text, 40);
+    expect(chunks).toEqual(['Pi is 3.14 roughly. Is that right?', '"Yes," she said. Then it ended!']);
+  });
+
+  it('cuts a sentence longer than the limit at a comma or space', () => {
+    const sentence = 'one two three four five, six seven eight nine ten eleven twelve';
+    const chunks = splitSpeechText(sentence, 30);
+    expect(chunks.every(c => c.length <= 30)).toBe(true);
+    expect(chunks[0]).toBe('one two three four five,');
+    expect(chunks.join(' ')).toBe(sentence);
+  });
+});
+
+describe('parseScript', () => {
+  it('reads speakers, joins continuation lines and ignores URLs', () => {
+    const lines = parseScript('Intro line.\nAlice: Hi Bob.\n  See https://example.com today.\n\nBob:   Hello!\nDr. Smith: Welcome.');
+    expect(lines).toEqual([
+      { speaker: NARRATOR, text: 'Intro line.' },
+      { speaker: 'Alice', text: 'Hi Bob. See https://example.com today.' },
+      { speaker: 'Bob', text: 'Hello!' },
+      { speaker: 'Dr. Smith', text: 'Welcome.' },
+    ]);
+    expect(scriptSpeakers(lines)).toEqual([NARRATOR, 'Alice', 'Bob', 'Dr. Smith']);
+  });
+});
+
+describe('planScriptSynthesis', () => {
+  const voices = { Alice: 'Kore', Bob: 'Puck', Carol: 'Zephyr' };
+
+  it('sends casts within the limit as multi-speaker chunks', () => {
+    const lines = parseScript('Alice: One.\nBob: Two.\nAlice: Three.');
+    expect(planScriptSynthesis(lines, voices, 2)).toEqual([{
+      text: 'Alice: One.\nBob: Two.\nAlice: Three.',
+      voice: 'Kore',
+      speakers: [{ speaker: 'Alice', voice: 'Kore' }, { speaker: 'Bob', voice: 'Puck' }],
+    }]);
+  });
+
+  it('reads a chunk with one speaker without the name', () => {
+    const lines = parseScript('Alice: A long first line here.\nAlice: Another.\nBob: Short.');
+    expect(planScriptSynthesis(lines, voices, 2, 50)[0]).toEqual({ text: 'A long first line here.\n\nAnother.', voice: 'Kore' });
+  });
+
+  it('stitches per-speaker runs when the cast is too large', () => {
+    const lines = parseScript('Alice: One.\nAlice: Two.\nBob: Three.\nCarol: Four.');
+    expect(planScriptSynthesis(lines, voices, 2)).toEqual([
+      { text: 'One.\n\nTwo.', voice: 'Kore' },
+      { text: 'Three.', voice: 'Puck' },
+      { text: 'Four.', voice: 'Zephyr' },
+    ]);
+  });
+});
@@ -0,0 +1,138 @@
+import { SpeakerVoice, SpeechRequest } from '../types';
+
+// Long enough for natural prosody, short enough that the first chunk comes back quickly.
+export const MAX_CHUNK_CHARS = 800;
+
+// Splits after sentence-ending punctuation (and any closing quote or bracket) followed by whitespace,
+// so decimals and URLs stay intact.
+const SENTENCE_BREAK = /(?<=[.!?…]["'”’)\]]*)\s+/;
+
+/** Cuts a single over-long sentence at the last comma, then the last space, before the limit. */
+function splitLong(sentence: string, maxChars: number): string[] {
+  const pieces: string[] = [];
+  let rest = sentence;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars + 1);
+    let cut = window.lastIndexOf(', ') + 1;
+    if (cut < maxChars / 2) cut = window.lastIndexOf(' ');
+    if (cut < maxChars / 2) cut = maxChars;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/**
+ * Splits text into chunks of at most `maxChars` for separate synthesis requests. Whole paragraphs
+ * are packed together where they fit; longer ones break between sentences, so a chunk only ends
+ * mid-sentence when one sentence alone exceeds the limit.
+ */
+export function splitSpeechText(text: string, maxChars = MAX_CHUNK_CHARS): string[] {
+  // Each piece carries the separator that joins it to the previous one.
+  const pieces: { text: string; separator: string }[] = [];
+  for (const paragraph of text.split(/\n\s*\n/)) {
+    const normalized = paragraph.replace(/\s+/g, ' ').trim();
+    if (!normalized) continue;
+    const parts = normalized.length <= maxChars
+      ? [normalized]
+      : normalized.split(SENTENCE_BREAK).flatMap(s => splitLong(s, maxChars));
+    parts.forEach((part, i) => pieces.push({ text: part, separator: i === 0 ? '\n\n' : ' ' }));
+  }
+
+  const chunks: string[] = [];
+  let current = '';
+  for (const piece of pieces) {
+    if (current && current.length + piece.separator.length + piece.text.length > maxChars) {
+      chunks.push(current);
+      current = '';
+    }
+    current = current ? current + piece.separator + piece.text : piece.text;
+  }
+  if (current) chunks.push(current);
+  return chunks;
+}
+
+export interface ScriptLine {
+  speaker: string;
+  text: string;
+}
+
+// Speaker used for lines before the first `Speaker:` prefix.
+export const NARRATOR = 'Narrator';
+
+// A name, a colon and whitespace; the whitespace keeps URLs like https://… from reading as speakers.
+const SPEAKER_PREFIX = /^([\p{L}\p{N}][\p{L}\p{N} ._'-]{0,39}):(?:\s+|$)/u;
+
+/**
+ * Parses a `Speaker: line` script. Lines without a prefix continue the previous speaker's line,
+ * so long turns can wrap.
+ */
+export function parseScript(script: string): ScriptLine[] {
+  const lines: ScriptLine[] = [];
+  for (const raw of script.split('\n')) {
+    const line = raw.trim();
+    if (!line) continue;
+    const match = line.match(SPEAKER_PREFIX);
+    const text = match ? line.slice(match[0].length).trim() : line;
+    if (match) lines.push({ speaker: match[1].trim(), text });
+    else if (lines.length > 0) lines[lines.length - 1].text = `${lines[lines.length - 1].text} ${text}`.trim();
+    else lines.push({ speaker: NARRATOR, text });
+  }
+  return lines.filter(l => l.text);
+}
+
+/** Speakers in order of first appearance. */
+export const scriptSpeakers = (lines: ScriptLine[]) => [...new Set(lines.map(l => l.speaker))];
+
+/**
+ * Turns a script into speech requests. Casts the provider can voice in one request are sent as
+ * multi-speaker chunks; larger casts fall back to one request per run of lines by the same speaker,
+ * played back to back.
+ */
+export function planScriptSynthesis(
+  lines: ScriptLine[],
+  voices: Record<string, string>,
+  maxSpeakers: number,
+  maxChars = MAX_CHUNK_CHARS,
+): SpeechRequest[] {
+  const speakers = scriptSpeakers(lines);
+  const single = (speaker: string, text: string) =>
+    splitSpeechText(text, maxChars).map(chunk => ({ text: chunk, voice: voices[speaker] }));
+
+  if (speakers.length < 2 || speakers.length > maxSpeakers) {
+    const runs: ScriptLine[] = [];
+    for (const line of lines) {
+      const last = runs[runs.length - 1];
+      if (last?.speaker === line.speaker) last.text = `${last.text}\n\n${line.text}`;
+      else runs.push({ ...line });
+    }
+    return runs.flatMap(run => single(run.speaker, run.text));
+  }
+
+  const cast: SpeakerVoice[] = speakers.map(speaker => ({ speaker, voice: voices[speaker] }));
+  const chunks: ScriptLine[][] = [];
+  let current: ScriptLine[] = [];
+  let length = 0;
+  for (const line of lines) {
+    // Over-long lines are split so each piece still carries its speaker.
+    for (const text of splitSpeechText(line.text, maxChars - line.speaker.length - 2)) {
+      const size = line.speaker.length + 2 + text.length + 1;
+      if (current.length > 0 && length + size > maxChars) {
+        chunks.push(current);
+        current = [];
+        length = 0;
+      }
+      current.push({ speaker: line.speaker, text });
+      length += size;
+    }
+  }
+  if (current.length > 0) chunks.push(current);
+
+  return chunks.map(chunk => {
+    const present = scriptSpeakers(chunk);
+    // A chunk with a single voice is read as plain text so the name is not spoken.
+    if (present.length === 1) return { text: chunk.map(l => l.text).join('\n\n'), voice: voices[present[0]] };
+    return { text: chunk.map(l => `${l.speaker}: ${l.text}`).join('\n'), voice: voices[present[0]], speakers: cast };
+  });
+}
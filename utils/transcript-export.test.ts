@@ -0,0 +1,101 @@
+import { describe, it, expect } from 'vitest';
+import { ExportableSession, formatCueTime, timeEntries, toJSON, toMarkdown, toSRT, toWebVTT } from './transcript-export';
+
+const START = Date.UTC(2025, 0, 1, 9, 0, 0);
+
+const session: ExportableSession = {
+  startedAt: START,
+  endedAt: START + 3_730_000,
+  voice: 'Kore',
+  systemInstruction: 'Be brief.',
+  pinnedNotes: ['Check\nthe logs'],
+  transcript: [
+    { role: 'user', text: 'Hello there', timestamp: START + 2_500, startedAt: START + 1_000, endedAt: START + 2_500 },
+    // No streamed timing: nine words at reading speed, ending at the timestamp.
+    { role: 'model', text: 'Line one\n\n```ts\nconst x = 1;\n```\n<b>', timestamp: START + 3_725_000, interrupted: true },
+  ],
+};
+
+describe('formatCueTime', () => {
+  it('uses the requested millisecond separator and rolls over into hours', () => {
+    expect(formatCueTime(1_000, ',')).toBe('00:00:01,000');
+    expect(formatCueTime(3_721_850, '.')).toBe('01:02:01.850');
+    expect(formatCueTime(3_600_000, ',')).toBe('01:00:00,000');
+  });
+
+  it('rounds to whole milliseconds and clamps negatives', () => {
+    expect(formatCueTime(59_999.6, '.')).toBe('00:01:00.000');
+    expect(formatCueTime(-50, ',')).toBe('00:00:00,000');
+  });
+});
+
+describe('timeEntries', () => {
+  it('uses streamed bounds and estimates the rest from the word count', () => {
+    expect(timeEntries(session).map(({ startMs, endMs }) => [startMs, endMs])).toEqual([
+      [1_000, 2_500],
+      [3_725_000 - 9 * 350, 3_725_000],
+    ]);
+  });
+
+  it('gives every cue at least a second and never starts before the session', () => {
+    const [timed] = timeEntries({
+      startedAt: START,
+      transcript: [{ role: 'user', text: 'Hi', timestamp: START - 500, startedAt: START - 500, endedAt: START - 500 }],
+    });
+    expect([timed.startMs, timed.endMs]).toEqual([0, 1_000]);
+  });
+});
+
+describe('toSRT', () => {
+  it('numbers cues, uses commas and flattens code fences and blank lines', () => {
+    expect(toSRT(session)).toBe([
+      '1', '00:00:01,000 --> 00:00:02,500', 'User: Hello there', '',
+      '2', '01:02:01,850 --> 01:02:05,000', 'ANA: Line one\nconst x = 1;\n<b>', '',
+    ].join('\n'));
+  });
+});
+
+describe('toWebVTT', () => {
+  it('uses dots, voice tags and escapes markup', () => {
+    expect(toWebVTT(session)).toBe([
+      'WEBVTT', '',
+      '1', '00:00:01.000 --> 00:00:02.500', '<v User>Hello there', '',
+      '2', '01:02:01.850 --> 01:02:05.000', '<v ANA>Line one\nconst x = 1;\n&lt;b&gt;', '',
+    ].join('\n'));
+  });
+});
+
+describe('toMarkdown', () => {
+  it('lists metadata, notes and one timed heading per utterance', () => {
+    const md = toMarkdown(session);
+    expect(md).toContain('- **Voice:** Kore');
+    expect(md).toContain('<details><summary>System instruction</summary>\n\nBe brief.\n\n</details>');
+    expect(md).toContain('## Pinned notes\n\n- Check the logs\n');
+    expect(md).toContain('### User · 00:00:01\n\nHello there\n');
+    expect(md).toContain('### ANA · 01:02:01 (interrupted)\n\nLine one\n\n```ts\nconst x = 1;\n```\n<b>\n');
+  });
+});
+
+describe('toJSON', () => {
+  it('writes ISO times, defaults for missing metadata and per-entry offsets', () => {
+    const parsed = JSON.parse(toJSON({ startedAt: START, transcript: session.transcript.slice(0, 1) }));
+    expect(parsed).toEqual({
+      version: 1,
+      session: {
+        startedAt: '2025-01-01T09:00:00.000Z',
+        endedAt: null,
+        voice: null,
+        systemInstruction: null,
+        pinnedNotes: [],
+      },
+      entries: [{
+        role: 'user',
+        text: 'Hello there',
+        startMs: 1_000,
+        endMs: 2_500,
+        interrupted: false,
+        timestamp: '2025-01-01T09:00:02.500Z',
+      }],
+    });
+  });
+});
@@ -0,0 +1,124 @@
+import { SessionRecord, TranscriptionEntry } from '../types';
+import { downloadBlob } from './file-utils';
+
+export type TranscriptExportFormat = 'md' | 'json' | 'srt' | 'vtt';
+
+export const EXPORT_FORMATS: { id: TranscriptExportFormat; label: string; mimeType: string }[] = [
+  { id: 'md', label: 'Markdown', mimeType: 'text/markdown' },
+  { id: 'json', label: 'JSON', mimeType: 'application/json' },
+  { id: 'srt', label: 'SRT', mimeType: 'application/x-subrip' },
+  { id: 'vtt', label: 'WebVTT', mimeType: 'text/vtt' },
+];
+
+export type ExportableSession = Pick<SessionRecord, 'startedAt' | 'transcript'> &
+  Partial<Pick<SessionRecord, 'endedAt' | 'voice' | 'systemInstruction' | 'pinnedNotes'>>;
+
+const SPEAKER_LABEL: Record<TranscriptionEntry['role'], string> = { user: 'User', model: 'ANA' };
+
+// Entries without streamed timing get a rough reading-speed duration ending at `timestamp`.
+const MIN_CUE_MS = 1000;
+const MS_PER_WORD = 350;
+
+export interface TimedEntry {
+  entry: TranscriptionEntry;
+  startMs: number;
+  endMs: number;
+}
+
+/** Resolves each entry's start/end as milliseconds relative to session start. */
+export function timeEntries(session: ExportableSession): TimedEntry[] {
+  return session.transcript.map(entry => {
+    const words = entry.text.trim().split(/\s+/).length;
+    const end = entry.endedAt ?? entry.timestamp;
+    const start = entry.startedAt ?? end - Math.max(MIN_CUE_MS, words * MS_PER_WORD);
+    const startMs = Math.max(0, start - session.startedAt);
+    const endMs = Math.max(startMs + MIN_CUE_MS, end - session.startedAt);
+    return { entry, startMs, endMs };
+  });
+}
+
+const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+
+export function formatCueTime(ms: number, separator: ',' | '.'): string {
+  const total = Math.max(0, Math.round(ms));
+  const h = Math.floor(total / 3600000);
+  const m = Math.floor((total % 3600000) / 60000);
+  const s = Math.floor((total % 60000) / 1000);
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(total % 1000, 3)}`;
+}
+
+// Caption cues end at the first blank line, so collapse paragraphs and code into single-spaced lines.
+const toCueText = (text: string) => text.replace(/```[\w-]*\n?/g, '').split('\n').map(l => l.trimEnd()).filter(l => l.trim()).join('\n');
+
+export function toMarkdown(session: ExportableSession): string {
+  const lines: string[] = [`# ANA session — ${new Date(session.startedAt).toLocaleString()}`, ''];
+  if (session.endedAt) lines.push(`- **Ended:** ${new Date(session.endedAt).toLocaleString()}`);
+  if (session.voice) lines.push(`- **Voice:** ${session.voice}`);
+  if (lines.length > 2) lines.push('');
+  if (session.systemInstruction) {
+    lines.push('<details><summary>System instruction</summary>', '', session.systemInstruction, '', '</details>', '');
+  }
+  if (session.pinnedNotes?.length) {
+    lines.push('## Pinned notes', '', ...session.pinnedNotes.map(n => `- ${n.replace(/\n/g, ' ')}`), '');
+  }
+  for (const { entry, startMs } of timeEntries(session)) {
+    const heading = `### ${SPEAKER_LABEL[entry.role]} · ${formatCueTime(startMs, '.').slice(0, 8)}${entry.interrupted ? ' (interrupted)' : ''}`;
+    lines.push(heading, '', entry.text.trim(), '');
+  }
+  return lines.join('\n');
+}
+
+export function toJSON(session: ExportableSession): string {
+  return JSON.stringify({
+    version: 1,
+    session: {
+      startedAt: new Date(session.startedAt).toISOString(),
+      endedAt: session.endedAt ? new Date(session.endedAt).toISOString() : null,
+      voice: session.voice ?? null,
+      systemInstruction: session.systemInstruction ?? null,
+      pinnedNotes: session.pinnedNotes ?? [],
+    },
+    entries: timeEntries(session).map(({ entry, startMs, endMs }) => ({
+      role: entry.role,
+      text: entry.text,
+      startMs,
+      endMs,
+      interrupted: entry.interrupted ?? false,
+      timestamp: new Date(entry.timestamp).toISOString(),
+    })),
+  }, null, 2);
+}
+
+export function toSRT(session: ExportableSession): string {
+  return timeEntries(session).map(({ entry, startMs, endMs }, i) => [
+    String(i + 1),
+    `${formatCueTime(startMs, ',')} --> ${formatCueTime(endMs, ',')}`,
+    `${SPEAKER_LABEL[entry.role]}: ${toCueText(entry.text)}`,
+    '',
+  ].join('\n')).join('\n');
+}
+
+const escapeVtt = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export function toWebVTT(session: ExportableSession): string {
+  const cues = timeEntries(session).map(({ entry, startMs, endMs }, i) => [
+    String(i + 1),
+    `${formatCueTime(startMs, '.')} --> ${formatCueTime(endMs, '.')}`,
+    `<v ${SPEAKER_LABEL[entry.role]}>${escapeVtt(toCueText(entry.text))}`,
+    '',
+  ].join('\n'));
+  return ['WEBVTT', '', ...cues].join('\n');
+}
+
+const SERIALIZERS: Record<TranscriptExportFormat, (session: ExportableSession) => string> = {
+  md: toMarkdown,
+  json: toJSON,
+  srt: toSRT,
+  vtt: toWebVTT,
+};
+
+export function exportTranscript(session: ExportableSession, format: TranscriptExportFormat): void {
+  const { mimeType } = EXPORT_FORMATS.find(f => f.id === format)!;
+  const stamp = new Date(session.startedAt).toISOString().replace(/[:.]/g, '-').slice(0, 19);
+  downloadBlob(new Blob([SERIALIZERS[format](session)], { type: mimeType }), `ana-session-${stamp}.${format}`);
+}
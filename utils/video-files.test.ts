@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import { validateVideoFile, fileFingerprint, lookupHandle, pruneHandles, MAX_VIDEO_BYTES, CachedFileHandle } from './video-files';
+
+const fakeFile = (name: string, type: string, size: number) => ({ name, type, size, lastModified: 1700000000000 }) as File;
+
+describe('validateVideoFile', () => {
+  it('accepts supported videos, including .mov reported as quicktime', () => {
+    expect(() => validateVideoFile(fakeFile('a.mp4', 'video/mp4', 1024))).not.toThrow();
+    expect(() => validateVideoFile(fakeFile('a.mov', 'video/quicktime', 1024))).not.toThrow();
+  });
+
+  it('rejects other types, empty files and files over the Files API limit', () => {
+    expect(() => validateVideoFile(fakeFile('a.gif', 'image/gif', 1024))).toThrow(expect.objectContaining({ kind: 'unsupported-file' }));
+    expect(() => validateVideoFile(fakeFile('a.mp4', 'video/mp4', 0))).toThrow(expect.objectContaining({ kind: 'unsupported-file' }));
+    expect(() => validateVideoFile(fakeFile('a.mp4', 'video/mp4', MAX_VIDEO_BYTES + 1))).toThrow(expect.objectContaining({ kind: 'payload-too-large' }));
+  });
+});
+
+describe('file handle cache', () => {
+  const HOUR = 60 * 60 * 1000;
+  const handle = (expiresAt: number): CachedFileHandle => ({ name: 'files/x', uri: 'https://x', mimeType: 'video/mp4', expiresAt });
+
+  it('keys files by name, size and modification time', () => {
+    expect(fileFingerprint(fakeFile('a.mp4', 'video/mp4', 42))).toBe('a.mp4:42:1700000000000');
+  });
+
+  it('only reuses handles that are not about to expire', () => {
+    const cache = { fresh: handle(10 * HOUR), stale: handle(HOUR / 2) };
+    expect(lookupHandle(cache, 'fresh', 0)).toBe(cache.fresh);
+    expect(lookupHandle(cache, 'stale', 0)).toBeNull();
+    expect(lookupHandle(cache, 'missing', 0)).toBeNull();
+    expect(Object.keys(pruneHandles(cache, 0))).toEqual(['fresh']);
+  });
+});
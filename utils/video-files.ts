@@ -0,0 +1,50 @@
+import { AppError } from './errors';
+
+// Files API limit per file.
+export const MAX_VIDEO_BYTES = 2 * 1024 * 1024 * 1024;
+
+// Video formats Gemini accepts; browsers report .mov as video/quicktime.
+export const SUPPORTED_VIDEO_TYPES = [
+  'video/mp4', 'video/mpeg', 'video/mpg', 'video/quicktime', 'video/mov', 'video/avi', 'video/x-msvideo',
+  'video/x-flv', 'video/webm', 'video/wmv', 'video/x-ms-wmv', 'video/3gpp',
+];
+
+export const formatBytes = (bytes: number) =>
+  bytes >= 1024 ** 3 ? `${(bytes / 1024 ** 3).toFixed(1)} GB` : `${(bytes / 1024 ** 2).toFixed(1)} MB`;
+
+/** Rejects files the Files API would refuse, before anything is uploaded. */
+export function validateVideoFile(file: File): void {
+  if (!SUPPORTED_VIDEO_TYPES.includes(file.type)) {
+    throw new AppError('unsupported-file', `${file.name} is ${file.type || 'of an unknown type'}, which is not a supported video format.`);
+  }
+  if (file.size > MAX_VIDEO_BYTES) {
+    throw new AppError('payload-too-large', `${file.name} is ${formatBytes(file.size)}; videos are limited to ${formatBytes(MAX_VIDEO_BYTES)}.`);
+  }
+  if (file.size === 0) throw new AppError('unsupported-file', `${file.name} is empty.`);
+}
+
+/** A handle to a file already uploaded to the Files API. */
+export interface CachedFileHandle {
+  name: string;
+  uri: string;
+  mimeType: string;
+  expiresAt: number;
+}
+
+export type FileHandleCache = Record<string, CachedFileHandle>;
+
+// Handles this close to expiry are re-uploaded rather than risk expiring mid-analysis.
+const EXPIRY_MARGIN_MS = 60 * 60 * 1000;
+
+/** Identifies a local file without reading it. */
+export const fileFingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+export function lookupHandle(cache: FileHandleCache, key: string, now: number): CachedFileHandle | null {
+  const handle = cache[key];
+  return handle && handle.expiresAt - now > EXPIRY_MARGIN_MS ? handle : null;
+}
+
+/** Drops expired entries so the cache doesn't grow without bound. */
+export function pruneHandles(cache: FileHandleCache, now: number): FileHandleCache {
+  return Object.fromEntries(Object.entries(cache).filter(([, h]) => h.expiresAt - now > EXPIRY_MARGIN_MS));
+}
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { itemsToStart, trimStoredAnalyses, compareTimelines, buildComparisonPrompt, StoredAnalysis } from './video-queue';
+import { VideoSegment, VideoTimeline } from '../types';
+
+const segment = (start: number, end: number, objects: string[], importance: VideoSegment['importance'] = 'low'): VideoSegment =>
+  ({ start, end, description: 'step', objects, people: [], importance });
+
+describe('itemsToStart', () => {
+  it('fills free slots with the oldest queued items', () => {
+    const items = [
+      { id: 'a', status: 'done' as const },
+      { id: 'b', status: 'running' as const },
+      { id: 'c', status: 'queued' as const },
+      { id: 'd', status: 'queued' as const },
+      { id: 'e', status: 'queued' as const },
+    ];
+    expect(itemsToStart(items, 3)).toEqual(['c', 'd']);
+    expect(itemsToStart(items, 1)).toEqual([]);
+  });
+});
+
+describe('trimStoredAnalyses', () => {
+  it('keeps the most recent entries', () => {
+    const entry = (analyzedAt: number): StoredAnalysis =>
+      ({ fileName: 'x.mp4', prompt: 'p', timeline: { summary: '', segments: [] }, chat: [], analyzedAt });
+    const trimmed = trimStoredAnalyses({ old: entry(1), newest: entry(3), middle: entry(2) }, 2);
+    expect(Object.keys(trimmed).sort()).toEqual(['middle', 'newest']);
+  });
+});
+
+describe('compareTimelines', () => {
+  it('reports length, flags and subjects missing from other recordings', () => {
+    const pass: VideoTimeline = { summary: '', segments: [segment(0, 30, ['Terminal', 'Build log'])] };
+    const fail: VideoTimeline = { summary: '', segments: [segment(0, 20, ['terminal']), segment(20, 45, ['Stack trace'], 'high')] };
+    expect(compareTimelines([{ name: 'pass.mp4', timeline: pass }, { name: 'fail.mp4', timeline: fail }])).toEqual([
+      { name: 'pass.mp4', duration: 30, segments: 1, flagged: 0, distinctive: ['build log'] },
+      { name: 'fail.mp4', duration: 45, segments: 2, flagged: 1, distinctive: ['stack trace'] },
+    ]);
+  });
+});
+
+describe('buildComparisonPrompt', () => {
+  it('names every recording and embeds its timeline', () => {
+    const timeline: VideoTimeline = { summary: 'ok', segments: [] };
+    const prompt = buildComparisonPrompt([{ name: 'one.mp4', timeline }, { name: 'two.mp4', timeline }]);
+    expect(prompt).toContain('## Recording 1: one.mp4');
+    expect(prompt).toContain('## Recording 2: two.mp4');
+    expect(prompt).toContain(JSON.stringify(timeline));
+  });
+});
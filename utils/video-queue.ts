@@ -0,0 +1,67 @@
+import { ChatMessage, VideoTimeline } from '../types';
+
+export type QueueStatus = 'queued' | 'running' | 'done' | 'failed' | 'cancelled';
+
+/** What is kept of a finished analysis, keyed by the file's fingerprint. */
+export interface StoredAnalysis {
+  fileName: string;
+  prompt: string;
+  timeline: VideoTimeline;
+  chat: ChatMessage[];
+  analyzedAt: number;
+}
+
+export type StoredAnalyses = Record<string, StoredAnalysis>;
+
+export const MAX_STORED_ANALYSES = 50;
+
+/** Ids of queued items to start now, oldest first, without exceeding `concurrency`. */
+export function itemsToStart(items: { id: string; status: QueueStatus }[], concurrency: number): string[] {
+  const running = items.filter(i => i.status === 'running').length;
+  return items.filter(i => i.status === 'queued').slice(0, Math.max(0, concurrency - running)).map(i => i.id);
+}
+
+/** Keeps the most recently analyzed entries. */
+export function trimStoredAnalyses(stored: StoredAnalyses, max = MAX_STORED_ANALYSES): StoredAnalyses {
+  return Object.fromEntries(
+    Object.entries(stored).sort(([, a], [, b]) => b.analyzedAt - a.analyzedAt).slice(0, max),
+  );
+}
+
+export interface RecordingOverview {
+  name: string;
+  duration: number;
+  segments: number;
+  flagged: number;
+  // Objects and people that appear in this recording but not in every other one.
+  distinctive: string[];
+}
+
+const subjectsOf = (timeline: VideoTimeline) =>
+  new Set(timeline.segments.flatMap(s => [...s.objects, ...s.people].map(x => x.trim().toLowerCase())).filter(Boolean));
+
+/** A side-by-side overview computed locally, so differences show before the model report arrives. */
+export function compareTimelines(entries: { name: string; timeline: VideoTimeline }[]): RecordingOverview[] {
+  const subjects = entries.map(e => subjectsOf(e.timeline));
+  return entries.map((e, i) => ({
+    name: e.name,
+    duration: Math.max(0, ...e.timeline.segments.map(s => s.end)),
+    segments: e.timeline.segments.length,
+    flagged: e.timeline.segments.filter(s => s.importance === 'high').length,
+    distinctive: [...subjects[i]].filter(x => subjects.some((other, j) => j !== i && !other.has(x))).sort(),
+  }));
+}
+
+/** Prompt for a model-written report on how the recordings differ. */
+export function buildComparisonPrompt(entries: { name: string; timeline: VideoTimeline }[]): string {
+  const recordings = entries.map((e, i) => `## Recording ${i + 1}: ${e.name}\n${JSON.stringify(e.timeline)}`).join('\n\n');
+  return `Below are timelines of ${entries.length} screen recordings of related runs (for example CI failures or repro attempts), each produced by analyzing one video.
+
+Write a markdown comparison report:
+1. What all recordings have in common.
+2. Where they diverge: steps present in only some runs, different ordering, different errors or outcomes. Name the recordings and cite timestamps (MM:SS).
+3. The most likely explanation for the differences and what to check next.
+Finish with a table with one row per recording: outcome, first error (with timestamp) and notable differences.
+
+${recordings}`;
+}
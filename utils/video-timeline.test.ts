@@ -0,0 +1,83 @@
+import { describe, it, expect } from 'vitest';
+import { parseTimestamp, formatTimestamp, parseTimeline, activeSegmentIndex, toWebVTT, linkifyTimestamps, timeFromFragment } from './video-timeline';
+
+describe('parseTimestamp', () => {
+  it('reads MM:SS, H:MM:SS, fractions and plain seconds', () => {
+    expect(parseTimestamp('01:05')).toBe(65);
+    expect(parseTimestamp('1:02:03')).toBe(3723);
+    expect(parseTimestamp('0:07.5')).toBe(7.5);
+    expect(parseTimestamp('42')).toBe(42);
+    expect(parseTimestamp(12)).toBe(12);
+  });
+
+  it('rejects anything else', () => {
+    expect(parseTimestamp('1m05s')).toBeNull();
+    expect(parseTimestamp('')).toBeNull();
+    expect(parseTimestamp(-3)).toBeNull();
+    expect(parseTimestamp(null)).toBeNull();
+  });
+});
+
+describe('formatTimestamp', () => {
+  it('only shows hours when needed', () => {
+    expect(formatTimestamp(65.9)).toBe('1:05');
+    expect(formatTimestamp(3723)).toBe('1:02:03');
+  });
+});
+
+describe('parseTimeline', () => {
+  it('normalises segments and tolerates a code fence', () => {
+    const text = '```json\n' + JSON.stringify({
+      summary: 'A deploy.',
+      segments: [
+        { start: '00:30', end: '00:20', description: 'Rollback', objects: ['terminal'], people: [], importance: 'high' },
+        { start: '00:00', end: '00:30', description: 'Build', objects: 'none', importance: 'urgent' },
+        { start: 'soon', end: '00:40', description: 'Dropped' },
+      ],
+    }) + '\n```';
+    expect(parseTimeline(text)).toEqual({
+      summary: 'A deploy.',
+      segments: [
+        { start: 0, end: 30, description: 'Build', objects: [], people: [], importance: 'low' },
+        { start: 30, end: 30, description: 'Rollback', objects: ['terminal'], people: [], importance: 'high' },
+      ],
+    });
+  });
+
+  it('fails on answers that are not a timeline', () => {
+    expect(() => parseTimeline('Here is a summary...')).toThrow('readable timeline');
+    expect(() => parseTimeline('{"summary":"x"}')).toThrow('no segments');
+  });
+});
+
+describe('timeline playback and export', () => {
+  const timeline = parseTimeline(JSON.stringify({
+    summary: '',
+    segments: [
+      { start: '0:00', end: '0:10', description: 'Intro', objects: [], people: [], importance: 'low' },
+      { start: '1:02:03', end: '1:02:04.5', description: 'Crash --> reboot', objects: [], people: [], importance: 'high' },
+    ],
+  }));
+
+  it('finds the segment under the playhead', () => {
+    expect(activeSegmentIndex(timeline.segments, 5)).toBe(0);
+    expect(activeSegmentIndex(timeline.segments, 60)).toBe(-1);
+    expect(activeSegmentIndex(timeline.segments, 3724)).toBe(1);
+  });
+
+  it('writes WebVTT chapter cues', () => {
+    expect(toWebVTT(timeline)).toBe(
+      'WEBVTT\n\n1\n00:00:00.000 --> 00:00:10.000\nIntro\n\n2\n01:02:03.000 --> 01:02:04.500\n[!] Crash -> reboot\n',
+    );
+  });
+});
+
+describe('timestamp links', () => {
+  it('links timestamps outside code and round-trips them', () => {
+    expect(linkifyTimestamps('The build fails at 02:14, after `sleep 1:00`.')).toBe('The build fails at [02:14](#t=134), after `sleep 1:00`.');
+    expect(linkifyTimestamps('From 1:02:03 on')).toBe('From [1:02:03](#t=3723) on');
+    expect(linkifyTimestamps('see [02:14](#t=134) and v1.2:30')).toBe('see [02:14](#t=134) and v1.2:30');
+    expect(timeFromFragment('#t=134')).toBe(134);
+    expect(timeFromFragment('https://x.dev/#t=1')).toBeNull();
+  });
+});
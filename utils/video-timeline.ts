@@ -0,0 +1,134 @@
+import { VideoSegment, VideoTimeline, SegmentImportance } from '../types';
+import { AppError } from './errors';
+
+export const TIMELINE_PROMPT = 'Analyze this video in depth and break it into consecutive segments covering the whole video. For each segment give its start and end time, what happens, the objects and people visible or mentioned, and how important it is for someone reviewing the video (high for errors, incidents or key decisions). Also give a short overview of the whole video.';
+
+const TIMESTAMP = { type: 'string', description: 'Offset from the start of the video as MM:SS, or HH:MM:SS past the hour.' };
+
+/** JSON Schema the model's answer is constrained to. */
+export const TIMELINE_SCHEMA: Record<string, unknown> = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'A short overview of the whole video, in markdown.' },
+    segments: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          start: TIMESTAMP,
+          end: TIMESTAMP,
+          description: { type: 'string' },
+          objects: { type: 'array', items: { type: 'string' } },
+          people: { type: 'array', items: { type: 'string' } },
+          importance: { type: 'string', enum: ['low', 'medium', 'high'] },
+        },
+        required: ['start', 'end', 'description', 'objects', 'people', 'importance'],
+      },
+    },
+  },
+  required: ['summary', 'segments'],
+};
+
+const IMPORTANCE_LEVELS: SegmentImportance[] = ['low', 'medium', 'high'];
+
+/** Parses "MM:SS", "H:MM:SS" (optionally with fractional seconds) or plain seconds. */
+export function parseTimestamp(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) && value >= 0 ? value : null;
+  if (typeof value !== 'string') return null;
+  const parts = value.trim().split(':');
+  if (parts.length > 3 || parts.some(p => !/^\d+(\.\d+)?$/.test(p))) return null;
+  return parts.reduce((total, part) => total * 60 + parseFloat(part), 0);
+}
+
+export function formatTimestamp(seconds: number): string {
+  const total = Math.max(0, Math.floor(seconds));
+  const h = Math.floor(total / 3600);
+  const m = Math.floor((total % 3600) / 60);
+  const s = (total % 60).toString().padStart(2, '0');
+  return h > 0 ? `${h}:${m.toString().padStart(2, '0')}:${s}` : `${m}:${s}`;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isImportance = (value: unknown): value is SegmentImportance =>
+  IMPORTANCE_LEVELS.some(level => level === value);
+
+const stringList = (value: unknown) => Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+
+/**
+ * Reads the model's JSON answer into a timeline. Segments with unreadable times are dropped,
+ * the rest are sorted, and an end before its start is treated as a zero-length segment.
+ */
+export function parseTimeline(text: string): VideoTimeline {
+  let raw: unknown;
+  try {
+    // Endpoints without schema support tend to wrap the JSON in a code fence.
+    raw = JSON.parse(text.trim().replace(/^```(?:json)?\s*|\s*```$/g, ''));
+  } catch {
+    throw new AppError('unknown', 'The model did not return a readable timeline.');
+  }
+  if (!isRecord(raw) || !Array.isArray(raw.segments)) throw new AppError('unknown', 'The model\'s answer has no segments.');
+
+  const segments: VideoSegment[] = [];
+  for (const s of raw.segments) {
+    if (!isRecord(s)) continue;
+    const start = parseTimestamp(s.start);
+    const end = parseTimestamp(s.end);
+    if (start === null || typeof s.description !== 'string') continue;
+    segments.push({
+      start,
+      end: end === null ? start : Math.max(start, end),
+      description: s.description,
+      objects: stringList(s.objects),
+      people: stringList(s.people),
+      importance: isImportance(s.importance) ? s.importance : 'low',
+    });
+  }
+  segments.sort((a, b) => a.start - b.start);
+  return { summary: typeof raw.summary === 'string' ? raw.summary : '', segments };
+}
+
+/** Index of the segment playing at `time` (seconds), or -1. */
+export function activeSegmentIndex(segments: VideoSegment[], time: number): number {
+  let active = -1;
+  segments.forEach((s, i) => {
+    if (s.start <= time && time < Math.max(s.end, s.start + 1)) active = i;
+  });
+  return active;
+}
+
+const vttTime = (seconds: number) => {
+  const ms = Math.round(seconds * 1000);
+  const pad = (n: number, width = 2) => n.toString().padStart(width, '0');
+  return `${pad(Math.floor(ms / 3600000))}:${pad(Math.floor(ms / 60000) % 60)}:${pad(Math.floor(ms / 1000) % 60)}.${pad(ms % 1000, 3)}`;
+};
+
+/** WebVTT chapter markers, one cue per segment. */
+export function toWebVTT(timeline: VideoTimeline): string {
+  const cues = timeline.segments.map((s, i) => {
+    // Cue text cannot contain the arrow or blank lines.
+    const title = `${s.importance === 'high' ? '[!] ' : ''}${s.description}`.replace(/-->/g, '->').replace(/\n+/g, ' ');
+    return `${i + 1}\n${vttTime(s.start)} --> ${vttTime(Math.max(s.end, s.start + 0.001))}\n${title}`;
+  });
+  return ['WEBVTT', ...cues].join('\n\n') + '\n';
+}
+
+export const VIDEO_CHAT_INSTRUCTION = 'You answer follow-up questions about the attached video and the timeline you produced for it. Refer to moments in the video by timestamp, written as MM:SS (or H:MM:SS), and say so when the video does not show what is asked.';
+
+// Code spans and fences are left untouched.
+const CODE_PATTERN = /(```[\s\S]*?(?:```|$)|`[^`\n]*`)/;
+const TIMESTAMP_PATTERN = /(?<![\w:.[\]/])(\d{1,2}:\d{2}(?::\d{2})?)(?![\w:])/g;
+
+/** Turns timestamps in markdown into `#t=<seconds>` links (media-fragment style) for the player. */
+export function linkifyTimestamps(markdown: string): string {
+  return markdown.split(CODE_PATTERN).map((part, i) =>
+    i % 2 === 1 ? part : part.replace(TIMESTAMP_PATTERN, (match: string) => `[${match}](#t=${parseTimestamp(match)})`),
+  ).join('');
+}
+
+/** Seconds from a `#t=` link produced by linkifyTimestamps, or null for any other href. */
+export function timeFromFragment(href: string | null | undefined): number | null {
+  const match = href?.match(/^#t=(\d+(?:\.\d+)?)$/);
+  return match ? parseFloat(match[1]) : null;
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { analyserLevel, createSpeechGate, keyLabel } from './voice-activity';
+
+describe('analyserLevel', () => {
+  it('averages the frequency bins', () => {
+    expect(analyserLevel(Uint8Array.from([0, 10, 20, 30]))).toBe(15);
+    expect(analyserLevel(new Uint8Array(0))).toBe(0);
+  });
+});
+
+describe('keyLabel', () => {
+  it('shortens letter and digit codes', () => {
+    expect(keyLabel('KeyT')).toBe('T');
+    expect(keyLabel('Digit4')).toBe('4');
+    expect(keyLabel('Space')).toBe('Space');
+    expect(keyLabel('ControlRight')).toBe('Control Right');
+  });
+});
+
+describe('createSpeechGate', () => {
+  // Feeds one 40 ms chunk per level and collects what the gate lets through.
+  const run = (levels: number[]) => {
+    const gate = createSpeechGate<number>({ threshold: 20, attackMs: 80, releaseMs: 200, prerollChunks: 3 });
+    const events: string[] = [];
+    const sent: number[] = [];
+    levels.forEach((level, i) => {
+      const { event, send } = gate.process(i, level, i * 40);
+      if (event) events.push(`${event}@${i}`);
+      sent.push(...send);
+    });
+    return { events, sent, gate };
+  };
+
+  it('ignores a short click', () => {
+    expect(run([0, 50, 0, 0, 0]).events).toEqual([]);
+  });
+
+  it('starts after the attack time with pre-roll and ends after the release time', () => {
+    const { events, sent } = run([0, 0, 30, 30, 30, 10, 0, 0, 0, 0, 0, 0, 0]);
+    expect(events).toEqual(['start@4', 'end@9']);
+    expect(sent).toEqual([2, 3, 4, 5, 6, 7, 8, 9]);
+  });
+
+  it('keeps speech going through short dips', () => {
+    const { events } = run([30, 30, 30, 0, 0, 30, 0, 0, 0]);
+    expect(events).toEqual(['start@2']);
+  });
+
+  it('reports whether reset cut speech short', () => {
+    const { gate } = run([30, 30, 30]);
+    expect(gate.active).toBe(true);
+    expect(gate.reset()).toBe(true);
+    expect(gate.reset()).toBe(false);
+  });
+});
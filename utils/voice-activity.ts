@@ -0,0 +1,90 @@
+export type InputMode = 'always-on' | 'vad' | 'push-to-talk';
+
+export const INPUT_MODES: { id: InputMode; label: string }[] = [
+  { id: 'always-on', label: 'Always on' },
+  { id: 'vad', label: 'Voice activity' },
+  { id: 'push-to-talk', label: 'Push to talk' },
+];
+
+// Same 0–255 scale as the input level meter.
+export const DEFAULT_VAD_THRESHOLD = 20;
+export const DEFAULT_PUSH_TO_TALK_KEY = 'Space';
+
+/** Mean of an analyser's byte frequency data, the value the input level meter shows. */
+export function analyserLevel(data: Uint8Array): number {
+  if (data.length === 0) return 0;
+  let sum = 0;
+  for (let i = 0; i < data.length; i++) sum += data[i];
+  return sum / data.length;
+}
+
+/** Readable name for a `KeyboardEvent.code`. */
+export function keyLabel(code: string): string {
+  return code.replace(/^Key(?=[A-Z]$)/, '').replace(/^Digit(?=\d$)/, '').replace(/([a-z])([A-Z])/g, '$1 $2');
+}
+
+export interface SpeechGateOptions {
+  threshold: number;
+  // Time the level has to stay above the threshold before speech starts, so clicks and taps are ignored.
+  attackMs?: number;
+  // Silence tolerated inside speech before it ends, so pauses between words don't split a turn.
+  releaseMs?: number;
+  // Chunks kept from before speech started, so the first syllable isn't clipped.
+  prerollChunks?: number;
+}
+
+export interface SpeechGateResult<T> {
+  event: 'start' | 'end' | null;
+  // Chunks to send now, oldest first.
+  send: T[];
+}
+
+// Once speaking, the level may dip this far below the threshold and still count as voice.
+const RELEASE_RATIO = 0.75;
+
+/**
+ * Decides which audio chunks are speech from the level measured alongside each one. Speech starts
+ * after the level has stayed above the threshold for `attackMs` and ends after `releaseMs` below it.
+ */
+export function createSpeechGate<T>(options: SpeechGateOptions) {
+  const { attackMs = 80, releaseMs = 700, prerollChunks = 8 } = options;
+  let { threshold } = options;
+  let active = false;
+  let aboveSince: number | null = null;
+  let lastVoiceAt = 0;
+  let preroll: T[] = [];
+
+  return {
+    get active() { return active; },
+    // Takes effect from the next chunk, so the threshold can be tuned while talking.
+    setThreshold(next: number) { threshold = next; },
+    process(chunk: T, level: number, now: number): SpeechGateResult<T> {
+      if (!active) {
+        aboveSince = level >= threshold ? aboveSince ?? now : null;
+        preroll.push(chunk);
+        if (preroll.length > prerollChunks) preroll.shift();
+        if (aboveSince === null || now - aboveSince < attackMs) return { event: null, send: [] };
+        active = true;
+        lastVoiceAt = now;
+        const send = preroll;
+        preroll = [];
+        return { event: 'start', send };
+      }
+      if (level >= threshold * RELEASE_RATIO) lastVoiceAt = now;
+      if (now - lastVoiceAt < releaseMs) return { event: null, send: [chunk] };
+      active = false;
+      aboveSince = null;
+      return { event: 'end', send: [chunk] };
+    },
+    /** Ends speech in progress, e.g. on mute; returns whether there was any. */
+    reset(): boolean {
+      const wasActive = active;
+      active = false;
+      aboveSince = null;
+      preroll = [];
+      return wasActive;
+    },
+  };
+}
+
+export type SpeechGate<T> = ReturnType<typeof createSpeechGate<T>>;
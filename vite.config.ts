@@ -1,19 +1,28 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { createApiMiddleware } from './server/api';
+
+// Serves the key-holding API routes from the dev and preview servers; the key never reaches the bundle.
+const apiServer = (apiKey: string | undefined): Plugin => ({
+  name: 'ana-api',
+  configureServer(server) {
+    server.middlewares.use(createApiMiddleware(apiKey));
+  },
+  configurePreviewServer(server) {
+    server.middlewares.use(createApiMiddleware(apiKey));
+  },
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
     return {
       server: {
         port: 3000,
-        host: '0.0.0.0',
-      },
-      plugins: [react()],
-      define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // The dev server also serves the key-holding API, so it stays on loopback unless HOST is set.
+        host: env.HOST || '127.0.0.1',
       },
+      plugins: [react(), apiServer(env.GEMINI_API_KEY || env.API_KEY)],
       resolve: {
         alias: {
           '@': path.resolve(__dirname, '.'),